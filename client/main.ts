@@ -1,8 +1,8 @@
 import { Notice, Plugin, TFile } from "obsidian";
 import type { ObsidianClient } from "./src/obsidian";
-import { createClient } from "./src/obsidian";
+import { createClient, PostConflictError } from "./src/obsidian";
 import { getText } from "./src/text";
-import { PublishedPostsModal } from "./src/modals";
+import { ConflictChoice, ConflictModal, ExpiryModal, PublishedPostsModal } from "./src/modals";
 import { ObsidianSettingTab } from "./src/settings";
 import { PluginData, DEFAULT_SETTINGS, isValidUrl } from "./src/types";
 import { migratePluginData, validatePluginData } from "./src/migration";
@@ -12,6 +12,7 @@ export default class ObsidianPlugin extends Plugin {
 
 	async onload() {
 		this.obsidianClient = await createClient(
+			this.app.metadataCache,
 			async () => {
 				const loadedData = await this.loadData();
 				const migratedData = migratePluginData(loadedData);
@@ -142,6 +143,19 @@ export default class ObsidianPlugin extends Plugin {
 				this.deleteFile(view.file);
 			},
 		});
+		this.addCommand({
+			id: "obsidian.action.rotateSecret",
+			name: getText("actions.rotateSecret.name"),
+			editorCheckCallback: (checking, _, view) => {
+				if (!(view.file instanceof TFile)) {
+					return false;
+				}
+				if (checking) {
+					return !!this.obsidianClient.getUrl(view.file);
+				}
+				this.rotateFileSecret(view.file);
+			},
+		});
 	}
 
 	registerFileMenuEvent() {
@@ -203,9 +217,13 @@ export default class ObsidianPlugin extends Plugin {
 		new PublishedPostsModal(this.app, this.obsidianClient).open();
 	}
 
-	async publishFile(file: TFile) {
+	publishFile(file: TFile) {
+		new ExpiryModal(this.app, (days) => this.createFile(file, days)).open();
+	}
+
+	async createFile(file: TFile, expiresInDays: number | null) {
 		try {
-			const url = await this.obsidianClient.createPost(file);
+			const url = await this.obsidianClient.createPost(file, expiresInDays);
 			await navigator.clipboard.writeText(url);
 			new Notice(getText("actions.create.success"));
 		} catch (e) {
@@ -214,16 +232,35 @@ export default class ObsidianPlugin extends Plugin {
 		}
 	}
 
-	async updateFile(file: TFile) {
+	async updateFile(file: TFile, force = false) {
 		try {
-			await this.obsidianClient.updatePost(file);
+			await this.obsidianClient.updatePost(file, force);
 			new Notice(getText("actions.update.success"));
 		} catch (e) {
+			if (e instanceof PostConflictError) {
+				new ConflictModal(this.app, (choice) => this.resolveConflict(file, choice)).open();
+				return;
+			}
 			console.error(e);
 			new Notice(getText("actions.update.failure"));
 		}
 	}
 
+	async resolveConflict(file: TFile, choice: ConflictChoice) {
+		if (choice === "overwrite") {
+			await this.updateFile(file, true);
+		} else if (choice === "pull") {
+			try {
+				const pulled = await this.obsidianClient.pullPost(file);
+				await this.app.workspace.openLinkText(pulled.path, file.path, true);
+				new Notice(getText("actions.update.pulled"));
+			} catch (e) {
+				console.error(e);
+				new Notice(getText("actions.update.pullFailure"));
+			}
+		}
+	}
+
 	async copyUrl(file: TFile) {
 		const url = this.obsidianClient.getUrl(file);
 		if (url) {
@@ -243,4 +280,14 @@ export default class ObsidianPlugin extends Plugin {
 			new Notice(getText("actions.remove.failure"));
 		}
 	}
+
+	async rotateFileSecret(file: TFile) {
+		try {
+			await this.obsidianClient.rotateSecret(file);
+			new Notice(getText("actions.rotateSecret.success"));
+		} catch (e) {
+			console.error(e);
+			new Notice(getText("actions.rotateSecret.failure"));
+		}
+	}
 }
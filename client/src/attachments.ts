@@ -0,0 +1,102 @@
+// Attachment discovery and link rewriting for published notes
+
+import { mapOutsideCode } from "./markdown";
+
+// ![[file.png]], ![[file.png|300]] or ![alt](path/to/file.png "title")
+const ATTACHMENT_RE =
+	/!\[\[([^[\]\n]+)\]\]|!\[([^\]\n]*)\]\((<[^>\n]+>|[^)\s]+)(\s+"[^"\n]*")?\)/g;
+
+const IMAGE_SIZE_RE = /^\d+(x\d+)?$/;
+
+// Keep in sync with the server's allowed asset types
+const IMAGE_EXTENSIONS = ["png", "jpg", "jpeg", "gif", "webp", "avif", "bmp", "svg"];
+const OTHER_EXTENSIONS = ["pdf", "mp3", "wav", "ogg", "m4a", "mp4", "webm", "mov"];
+
+/**
+ * Attachment links are rewritten to this prefix, the server resolves it against the post URL
+ */
+export const ASSET_PATH_PREFIX = "assets/";
+
+function getExtension(name: string): string {
+	const index = name.lastIndexOf(".");
+	return index > 0 ? name.substring(index + 1).toLowerCase() : "";
+}
+
+export function isSupportedAttachment(name: string): boolean {
+	const extension = getExtension(name);
+	return IMAGE_EXTENSIONS.includes(extension) || OTHER_EXTENSIONS.includes(extension);
+}
+
+function isImage(name: string): boolean {
+	return IMAGE_EXTENSIONS.includes(getExtension(name));
+}
+
+function isExternal(path: string): boolean {
+	return /^[a-z][a-z0-9+.-]*:/i.test(path) || path.startsWith("/") || path.startsWith("#");
+}
+
+function escapeLinkText(text: string): string {
+	return text.replace(/([\\[\]])/g, "\\$1");
+}
+
+export function assetPath(name: string): string {
+	// Parentheses would end the Markdown link destination
+	return ASSET_PATH_PREFIX + encodeURIComponent(name).replace(/[()]/g, (char) =>
+		`%${char.charCodeAt(0).toString(16).toUpperCase()}`
+	);
+}
+
+function safeDecode(path: string): string {
+	try {
+		return decodeURIComponent(path);
+	} catch {
+		return path;
+	}
+}
+
+/**
+ * Rewrites embedded vault files to links to the uploaded post assets.
+ *
+ * @param content Note content
+ * @param resolveAsset Returns the asset name for a vault link path, or null to keep the link
+ */
+export function rewriteAttachments(
+	content: string,
+	resolveAsset: (linkpath: string) => string | null
+): string {
+	return mapOutsideCode(content, (text) =>
+		text.replace(
+			ATTACHMENT_RE,
+			(match, embed?: string, alt?: string, rawPath?: string, title?: string) => {
+				if (embed !== undefined) {
+					const [linkPart, ...options] = embed.split("|");
+					// Drop subpaths like "file.pdf#page=3"
+					const name = resolveAsset(linkPart.split("#")[0].trim());
+					if (!name) {
+						return match;
+					}
+
+					const option = options.join("|").trim();
+					if (!isImage(name)) {
+						return `[${escapeLinkText(option || name)}](${assetPath(name)})`;
+					}
+
+					const altText = !option ? name : IMAGE_SIZE_RE.test(option) ? `${name}|${option}` : option;
+					return `![${escapeLinkText(altText)}](${assetPath(name)})`;
+				}
+
+				const path = rawPath?.startsWith("<") ? rawPath.slice(1, -1) : rawPath ?? "";
+				if (isExternal(path)) {
+					return match;
+				}
+
+				const name = resolveAsset(safeDecode(path));
+				if (!name) {
+					return match;
+				}
+
+				return `![${alt ?? ""}](${assetPath(name)}${title ?? ""})`;
+			}
+		)
+	);
+}
@@ -1,13 +1,25 @@
 export type HTTPMethod = "GET" | "POST" | "PUT" | "DELETE";
 
+/**
+ * A request the server answered with an error status
+ */
+export class HttpError extends Error {
+	constructor(message: string, public status: number, public body: string) {
+		super(message);
+		this.name = "HttpError";
+	}
+}
+
 export default async function (
 	method: HTTPMethod,
 	url: string,
 	data: any = null,
-	authToken?: string
+	authToken?: string,
+	extraHeaders: Record<string, string> = {}
 ) {
 	const headers = new Headers({
 		Accept: "application/json",
+		...extraHeaders,
 	});
 	if (data) {
 		headers.set("Content-Type", "application/json");
@@ -22,6 +34,33 @@ export default async function (
 		...(data ? { body: JSON.stringify(data) } : {}),
 	});
 
+	return handleResponse(resp, method, url);
+}
+
+/**
+ * Sends a binary request body, e.g. an attachment upload
+ */
+export async function uploadBinary(
+	url: string,
+	body: ArrayBuffer,
+	authToken?: string,
+	extraHeaders: Record<string, string> = {}
+) {
+	const headers = new Headers({
+		Accept: "application/json",
+		"Content-Type": "application/octet-stream",
+		...extraHeaders,
+	});
+	if (authToken) {
+		headers.set("Authorization", `Bearer ${authToken}`);
+	}
+
+	const resp = await fetch(url, { method: "PUT", headers, body });
+
+	return handleResponse(resp, "PUT", url);
+}
+
+async function handleResponse(resp: Response, method: HTTPMethod, url: string) {
 	if (!resp.ok) {
 		const errorText = await resp.text();
 		console.error('HTTP Request failed:', {
@@ -31,8 +70,10 @@ export default async function (
 			method: method,
 			body: errorText
 		});
-		throw new Error(
-			`Request failed: ${resp.status} ${resp.statusText} - ${errorText}`
+		throw new HttpError(
+			`Request failed: ${resp.status} ${resp.statusText} - ${errorText}`,
+			resp.status,
+			errorText
 		);
 	}
 
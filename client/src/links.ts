@@ -0,0 +1,82 @@
+// Wikilink resolution between published notes
+
+import { mapOutsideCode } from "./markdown";
+
+// [[Target]], [[Target#Heading]], [[Target|alias]] - but not ![[embeds]]
+const WIKILINK_RE = /(?<!!)\[\[([^[\]\n]+)\]\]/g;
+
+export interface Wikilink {
+	target: string;
+	heading?: string;
+	alias?: string;
+}
+
+export function parseWikilink(inner: string): Wikilink {
+	const [linkPart, ...aliasParts] = inner.split("|");
+	const alias = aliasParts.join("|").trim();
+	const [target, ...headingParts] = linkPart.split("#");
+	const heading = headingParts.join("#").trim();
+
+	return {
+		target: target.trim(),
+		heading: heading || undefined,
+		alias: alias || undefined,
+	};
+}
+
+function displayText(link: Wikilink): string {
+	if (link.alias) {
+		return link.alias;
+	}
+	if (link.heading) {
+		return link.target ? `${link.target} > ${link.heading}` : link.heading;
+	}
+	return link.target;
+}
+
+/**
+ * Id the server gives a heading, see slugify in server/src/utils/headings.ts.
+ * Repeated headings get "-1", "-2", ... there, so links reach the first one.
+ */
+function headingSlug(heading: string): string {
+	return heading
+		.normalize("NFKC")
+		.toLowerCase()
+		.replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, "")
+		.trim()
+		.replace(/[\s-]+/g, "-");
+}
+
+function escapeLinkText(text: string): string {
+	return text.replace(/([\\[\]])/g, "\\$1");
+}
+
+/**
+ * Rewrites wikilinks whose target is published into regular Markdown links
+ * pointing at the post URL, or at the heading for `[[Note#Heading]]`. Links to
+ * unpublished notes are left as they are and rendered as plain text by the server.
+ *
+ * @param content Note content
+ * @param resolveUrl Returns the post URL for a link path, or null if it is not published
+ */
+export function resolveWikilinks(
+	content: string,
+	resolveUrl: (linkpath: string) => string | null
+): string {
+	return mapOutsideCode(content, (text) =>
+		text.replace(WIKILINK_RE, (match, inner: string) => {
+			const link = parseWikilink(inner);
+			if (!link.target) {
+				return match;
+			}
+
+			const url = resolveUrl(link.target);
+			if (!url) {
+				return match;
+			}
+
+			const anchor = link.heading ? `#${headingSlug(link.heading)}` : "";
+			return `[${escapeLinkText(displayText(link))}](${url}${anchor})`;
+		})
+	);
+}
@@ -0,0 +1,91 @@
+// Helpers for rewriting note content before it is published
+
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})/;
+const INLINE_CODE_RE = /(`+)[\s\S]*?\1/;
+const FRONTMATTER_RE = /^---[ \t]*\r?\n([\s\S]*?)\r?\n?---[ \t]*(?:\r?\n|$)/;
+const SLUG_LINE_RE = /^slug:[ \t]*(["']?)([^"'\r\n]*)\1[ \t]*$/m;
+
+/**
+ * Applies `transform` to every part of the note that is not code.
+ * Fenced code blocks and inline code spans are passed through untouched.
+ */
+export function mapOutsideCode(
+	content: string,
+	transform: (text: string) => string
+): string {
+	const chunks: string[] = [];
+	let buffer: string[] = [];
+	let fence: string | null = null;
+
+	const flush = () => {
+		if (buffer.length) {
+			chunks.push(mapOutsideInlineCode(buffer.join("\n"), transform));
+			buffer = [];
+		}
+	};
+
+	for (const line of content.split("\n")) {
+		if (fence) {
+			chunks.push(line);
+			if (line.trim().startsWith(fence)) {
+				fence = null;
+			}
+			continue;
+		}
+
+		const match = line.match(FENCE_RE);
+		if (match) {
+			flush();
+			fence = match[1];
+			chunks.push(line);
+			continue;
+		}
+
+		buffer.push(line);
+	}
+	flush();
+
+	return chunks.join("\n");
+}
+
+function mapOutsideInlineCode(
+	text: string,
+	transform: (text: string) => string
+): string {
+	const pattern = new RegExp(INLINE_CODE_RE.source, "g");
+	let result = "";
+	let lastIndex = 0;
+	let match: RegExpExecArray | null;
+
+	while ((match = pattern.exec(text)) !== null) {
+		result += transform(text.substring(lastIndex, match.index)) + match[0];
+		lastIndex = match.index + match[0].length;
+	}
+
+	return result + transform(text.substring(lastIndex));
+}
+
+/**
+ * Reads the "slug" key from the note's frontmatter, lowercased like the server does.
+ * Returns null when the note does not set one.
+ */
+export function readFrontmatterSlug(content: string): string | null {
+	const frontmatter = content.match(FRONTMATTER_RE);
+	const line = frontmatter?.[1].match(SLUG_LINE_RE);
+	const slug = line?.[2].trim().toLowerCase();
+	return slug || null;
+}
+
+/**
+ * Puts frontmatter back in front of a note body, e.g. for a note pulled from the server.
+ * Values are written as JSON, which YAML reads as well.
+ */
+export function withFrontmatter(body: string, metadata: Record<string, unknown>): string {
+	const keys = Object.keys(metadata);
+	if (!keys.length) {
+		return body;
+	}
+
+	const lines = keys.map((key) => `${key}: ${JSON.stringify(metadata[key])}`);
+	return `---\n${lines.join("\n")}\n---\n${body}`;
+}
@@ -21,7 +21,13 @@ export class PublishedPostsModal extends Modal {
 			const container = this.contentEl.createEl("div", {
 				cls: ["published-posts-modal", "list-item-container"],
 			});
-			container.createEl("span", { text: path });
+			const info = container.createEl("div");
+			info.createEl("span", { text: path });
+			const views = info.createEl("small", { cls: "published-posts-views" });
+			this.obsidianClient
+				.getStats(file)
+				.then((stats) => views.setText(getText("actions.listPosts.views", String(stats.total_views))))
+				.catch((e) => console.error(e));
 
 			const buttonContainer = container.createEl("div");
 
@@ -56,3 +62,84 @@ export class PublishedPostsModal extends Modal {
 		this.contentEl.empty();
 	}
 }
+
+const EXPIRY_OPTIONS: { key: string; days: number | null }[] = [
+	{ key: "day", days: 1 },
+	{ key: "week", days: 7 },
+	{ key: "month", days: 30 },
+	{ key: "never", days: null },
+];
+
+export class ExpiryModal extends Modal {
+	constructor(app: App, private onChoose: (days: number | null) => void) {
+		super(app);
+	}
+
+	onOpen() {
+		this.contentEl.createEl("h2", {
+			text: getText("modals.expiry.title"),
+		});
+		this.contentEl.createEl("p", {
+			text: getText("modals.expiry.description"),
+		});
+
+		const buttonContainer = this.contentEl.createEl("div", {
+			cls: "expiry-modal-options",
+		});
+		for (const option of EXPIRY_OPTIONS) {
+			const button = buttonContainer.createEl("button", {
+				text: getText(`modals.expiry.${option.key}`),
+			});
+			if (option.days === null) {
+				button.addClass("mod-cta");
+			}
+			button.addEventListener("click", () => {
+				this.close();
+				this.onChoose(option.days);
+			});
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+export type ConflictChoice = "overwrite" | "pull" | "cancel";
+
+const CONFLICT_OPTIONS: ConflictChoice[] = ["cancel", "pull", "overwrite"];
+
+export class ConflictModal extends Modal {
+	constructor(app: App, private onChoose: (choice: ConflictChoice) => void) {
+		super(app);
+	}
+
+	onOpen() {
+		this.contentEl.createEl("h2", {
+			text: getText("modals.conflict.title"),
+		});
+		this.contentEl.createEl("p", {
+			text: getText("modals.conflict.description"),
+		});
+
+		const buttonContainer = this.contentEl.createEl("div", {
+			cls: "conflict-modal-options",
+		});
+		for (const choice of CONFLICT_OPTIONS) {
+			const button = buttonContainer.createEl("button", {
+				text: getText(`modals.conflict.${choice}`),
+			});
+			if (choice === "overwrite") {
+				button.addClass("mod-warning");
+			}
+			button.addEventListener("click", () => {
+				this.close();
+				this.onChoose(choice);
+			});
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -1,15 +1,57 @@
-import http from "./http";
-import { TFile } from "obsidian";
+import http, { HttpError, uploadBinary } from "./http";
+import { MetadataCache, TFile } from "obsidian";
 import { PluginData, DEFAULT_SETTINGS } from "./types";
+import { resolveWikilinks } from "./links";
+import { isSupportedAttachment, rewriteAttachments } from "./attachments";
+import { readFrontmatterSlug, withFrontmatter } from "./markdown";
 
 interface CreateResponse {
 	id: string;
 	secret: string;
+	slug?: string | null;
+	revision?: number;
+}
+
+interface RemotePost {
+	content: string;
+	metadata: Record<string, unknown>;
+	revision: number;
+}
+
+/**
+ * The published note was changed elsewhere since this vault last published it
+ */
+export class PostConflictError extends Error {
+	constructor() {
+		super("Post was changed on the server");
+		this.name = "PostConflictError";
+	}
+}
+
+interface AssetInfo {
+	name: string;
+	hash: string;
+}
+
+export interface PostStats {
+	total_views: number;
+	days: { date: string; views: number }[];
+	referrers: { domain: string; views: number }[];
 }
 
 const obsidianWrapper = {
-	async createPost(baseUrl: string, authToken: string | undefined, title: string, content: string): Promise<CreateResponse> {
-		return http("POST", `${baseUrl}/`, { title, content }, authToken);
+	async createPost(
+		baseUrl: string,
+		authToken: string | undefined,
+		title: string,
+		content: string,
+		expiresAt: string | null
+	): Promise<CreateResponse> {
+		return http("POST", `${baseUrl}/`, {
+			title,
+			content,
+			...(expiresAt ? { expires_at: expiresAt } : {}),
+		}, authToken);
 	},
 	async updatePost(
 		baseUrl: string,
@@ -17,22 +59,78 @@ const obsidianWrapper = {
 		id: string,
 		secret: string,
 		title: string,
-		content: string
-	): Promise<void> {
-		return http("PUT", `${baseUrl}/${id}`, {
+		content: string,
+		baseRevision: number | undefined
+	): Promise<number> {
+		const resp = await http("PUT", `${baseUrl}/${id}`, {
 			secret,
 			title,
 			content,
+			...(baseRevision !== undefined ? { base_revision: baseRevision } : {}),
 		}, authToken);
+		return resp.data.revision;
+	},
+	async getPost(baseUrl: string, authToken: string | undefined, id: string, secret: string): Promise<RemotePost> {
+		const resp = await http("GET", `${baseUrl}/${id}`, null, authToken, {
+			"X-Post-Secret": secret,
+		});
+		return resp.data;
 	},
 	async deletePost(baseUrl: string, authToken: string | undefined, id: string, secret: string): Promise<void> {
 		return http("DELETE", `${baseUrl}/${id}`, { secret }, authToken);
 	},
+	async rotateSecret(baseUrl: string, authToken: string | undefined, id: string, secret: string): Promise<string> {
+		const resp = await http("POST", `${baseUrl}/${id}/rotate-secret`, { secret }, authToken);
+		return resp.data.secret;
+	},
+	async getStats(baseUrl: string, authToken: string | undefined, id: string, secret: string): Promise<PostStats> {
+		const resp = await http("GET", `${baseUrl}/${id}/stats`, null, authToken, {
+			"X-Post-Secret": secret,
+		});
+		return resp.data;
+	},
+	async listAssets(baseUrl: string, authToken: string | undefined, id: string, secret: string): Promise<AssetInfo[]> {
+		const resp = await http("GET", `${baseUrl}/${id}/assets`, null, authToken, {
+			"X-Post-Secret": secret,
+		});
+		return resp?.data ?? [];
+	},
+	async uploadAsset(
+		baseUrl: string,
+		authToken: string | undefined,
+		id: string,
+		secret: string,
+		name: string,
+		body: ArrayBuffer
+	): Promise<void> {
+		return uploadBinary(`${baseUrl}/${id}/assets/${encodeURIComponent(name)}`, body, authToken, {
+			"X-Post-Secret": secret,
+		});
+	},
+	async deleteAsset(baseUrl: string, authToken: string | undefined, id: string, secret: string, name: string): Promise<void> {
+		return http("DELETE", `${baseUrl}/${id}/assets/${encodeURIComponent(name)}`, null, authToken, {
+			"X-Post-Secret": secret,
+		});
+	},
 };
 
+async function sha256(data: ArrayBuffer): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", data);
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
+
 export interface Post {
 	id: string;
 	secret: string;
+	slug?: string;
+	revision?: number;
+}
+
+// Published posts are addressed by their slug if they claimed one
+function postPath(post: Post): string {
+	return `/${post.slug || post.id}`;
 }
 
 export interface ObsidianClient {
@@ -44,20 +142,27 @@ export interface ObsidianClient {
 
 	publishPost(file: TFile): Promise<string | null>;
 
-	createPost(view: TFile): Promise<string>;
+	createPost(view: TFile, expiresInDays?: number | null): Promise<string>;
 
 	getUrl(view: TFile): string | null;
 
-	updatePost(view: TFile): Promise<void>;
+	updatePost(view: TFile, force?: boolean): Promise<void>;
+
+	pullPost(view: TFile): Promise<TFile>;
 
 	deletePost(view: TFile): Promise<void>;
 
+	rotateSecret(view: TFile): Promise<void>;
+
+	getStats(view: TFile): Promise<PostStats>;
+
 	handleNoteRename(file: TFile, oldPath: string): Promise<void>;
 
 	handleNoteDelete(file: TFile): Promise<void>;
 }
 
 export async function createClient(
+	metadataCache: MetadataCache,
 	loadData: () => Promise<PluginData>,
 	saveData: (data: PluginData) => Promise<void>
 ): Promise<ObsidianClient> {
@@ -69,6 +174,70 @@ export async function createClient(
 		await saveData(data);
 	}
 
+	// Finds the published post a wikilink in `source` points at, resolved
+	// the way Obsidian resolves it ("Note" or "Folder/Note")
+	const findPublishedPost = (source: TFile, linkpath: string): Post | null => {
+		const target = metadataCache.getFirstLinkpathDest(linkpath, source.path);
+		return target ? data.posts[target.path] ?? null : null;
+	};
+
+	// Finds the vault file an embed or image link in `source` points at
+	const findAttachment = (source: TFile, linkpath: string): TFile | null =>
+		metadataCache.getFirstLinkpathDest(linkpath, source.path);
+
+	// Reads a note and rewrites its links for publishing.
+	// Returns the attachments to upload, keyed by asset name.
+	const prepareContent = async (file: TFile) => {
+		const attachments = new Map<string, TFile>();
+
+		let content = await file.vault.read(file);
+		content = resolveWikilinks(content, (linkpath) => {
+			const post = findPublishedPost(file, linkpath);
+			return post ? postPath(post) : null;
+		});
+		content = rewriteAttachments(content, (linkpath) => {
+			const attachment = findAttachment(file, linkpath);
+			if (!attachment || !isSupportedAttachment(attachment.name)) {
+				return null;
+			}
+
+			// Files with the same name in different folders get a numbered asset name
+			let name = attachment.name;
+			for (let i = 2; attachments.has(name) && attachments.get(name) !== attachment; i++) {
+				name = `${attachment.basename}-${i}.${attachment.extension}`;
+			}
+			attachments.set(name, attachment);
+			return name;
+		});
+
+		return { content, attachments };
+	};
+
+	// Uploads new or changed attachments and removes the ones no longer referenced
+	const syncAttachments = async (
+		serverUrl: string,
+		authToken: string | undefined,
+		post: Post,
+		attachments: Map<string, TFile>
+	) => {
+		const remote = await obsidianWrapper.listAssets(serverUrl, authToken, post.id, post.secret);
+		const remoteHashes = new Map(remote.map((asset) => [asset.name, asset.hash]));
+
+		for (const [name, attachment] of attachments) {
+			const body = await attachment.vault.readBinary(attachment);
+			if (remoteHashes.get(name) === (await sha256(body))) {
+				continue;
+			}
+			await obsidianWrapper.uploadAsset(serverUrl, authToken, post.id, post.secret, name, body);
+		}
+
+		for (const name of remoteHashes.keys()) {
+			if (!attachments.has(name)) {
+				await obsidianWrapper.deleteAsset(serverUrl, authToken, post.id, post.secret, name);
+			}
+		}
+	};
+
 	return {
 		data() {
 			return data;
@@ -87,21 +256,30 @@ export async function createClient(
 				return await this.createPost(file);
 			}
 		},
-		async createPost(file: TFile) {
+		async createPost(file: TFile, expiresInDays: number | null = null) {
 			const title = file.basename;
-			const content = await file.vault.read(file);
+			const { content, attachments } = await prepareContent(file);
 			const serverUrl = this.getServerUrl();
 			const authToken = this.getAuthToken();
+			const expiresAt = expiresInDays
+				? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+				: null;
 
 			try {
-				const resp = await obsidianWrapper.createPost(serverUrl, authToken, title, content);
+				const resp = await obsidianWrapper.createPost(serverUrl, authToken, title, content, expiresAt);
 				data.posts[file.path] = {
 					id: resp.id,
 					secret: resp.secret,
+					...(resp.slug ? { slug: resp.slug } : {}),
+					...(resp.revision ? { revision: resp.revision } : {}),
 				};
 				await saveData(data);
 
-				return `${serverUrl}/${resp.id}`;
+				if (attachments.size) {
+					await syncAttachments(serverUrl, authToken, data.posts[file.path], attachments);
+				}
+
+				return `${serverUrl}${postPath(data.posts[file.path])}`;
 			} catch (e) {
 				console.error(e);
 				throw new Error("Failed to create post");
@@ -114,29 +292,79 @@ export async function createClient(
 			}
 
 			const serverUrl = this.getServerUrl();
-			return `${serverUrl}/${post.id}`;
+			return `${serverUrl}${postPath(post)}`;
 		},
-		async updatePost(file: TFile) {
+		async updatePost(file: TFile, force = false) {
 			const post = data.posts[file.path];
 			const title = file.basename;
-			const content = await file.vault.read(file);
+			const { content, attachments } = await prepareContent(file);
 			const serverUrl = this.getServerUrl();
 			const authToken = this.getAuthToken();
 
+			// Posts published before revisions were tracked are overwritten like before
+			const baseRevision = force ? undefined : post.revision;
+
 			try {
-				await obsidianWrapper.updatePost(
+				// Check before touching the attachments, the server checks again on update
+				if (baseRevision !== undefined) {
+					const remote = await obsidianWrapper.getPost(serverUrl, authToken, post.id, post.secret);
+					if (remote.revision !== baseRevision) {
+						throw new PostConflictError();
+					}
+				}
+
+				// Upload attachments first so the updated note never points at missing files
+				await syncAttachments(serverUrl, authToken, post, attachments);
+				post.revision = await obsidianWrapper.updatePost(
 					serverUrl,
 					authToken,
 					post.id,
 					post.secret,
 					title,
-					content
+					content,
+					baseRevision
 				);
+
+				// The server keeps the current slug when the frontmatter no longer sets one
+				const slug = readFrontmatterSlug(content);
+				if (slug) {
+					post.slug = slug;
+				}
+				await saveData(data);
 			} catch (e) {
+				if (e instanceof PostConflictError || (e instanceof HttpError && e.status === 412)) {
+					throw new PostConflictError();
+				}
 				console.error(e);
 				throw new Error("Failed to update post");
 			}
 		},
+		async pullPost(file: TFile) {
+			const post = data.posts[file.path];
+			const serverUrl = this.getServerUrl();
+			const authToken = this.getAuthToken();
+
+			try {
+				const remote = await obsidianWrapper.getPost(serverUrl, authToken, post.id, post.secret);
+
+				// Next to the note, e.g. "Note (remote).md", then "Note (remote 2).md"
+				const folder = file.parent && file.parent.path !== "/" ? `${file.parent.path}/` : "";
+				let path = `${folder}${file.basename} (remote).md`;
+				for (let i = 2; file.vault.getAbstractFileByPath(path); i++) {
+					path = `${folder}${file.basename} (remote ${i}).md`;
+				}
+				const pulled = await file.vault.create(path, withFrontmatter(remote.content, remote.metadata));
+
+				// The remote version has been seen, so the next update may replace it
+				post.revision = remote.revision;
+				await saveData(data);
+
+				return pulled;
+			} catch (e) {
+				console.error(e);
+				throw new Error("Failed to pull post");
+			}
+		},
 		async deletePost(file: TFile) {
 			const post = data.posts[file.path];
 			const serverUrl = this.getServerUrl();
@@ -151,6 +379,24 @@ export async function createClient(
 				throw new Error("Failed to delete post");
 			}
 		},
+		async rotateSecret(file: TFile) {
+			const post = data.posts[file.path];
+			const serverUrl = this.getServerUrl();
+			const authToken = this.getAuthToken();
+
+			try {
+				// The old secret stops working as soon as the server answers
+				post.secret = await obsidianWrapper.rotateSecret(serverUrl, authToken, post.id, post.secret);
+				await saveData(data);
+			} catch (e) {
+				console.error(e);
+				throw new Error("Failed to rotate post secret");
+			}
+		},
+		async getStats(file: TFile) {
+			const post = data.posts[file.path];
+			return obsidianWrapper.getStats(this.getServerUrl(), this.getAuthToken(), post.id, post.secret);
+		},
 		async handleNoteRename(file, oldPath) {
 			if (data.posts[oldPath]) {
 				data.posts[file.path] = data.posts[oldPath];
@@ -30,6 +30,8 @@ const strings = flatten({
 			success:
 				"Updated note in Obsius. It may take a little while before update becomes visible.",
 			failure: "Failed to update note in Obsius",
+			pulled: "Published version saved as a new note",
+			pullFailure: "Failed to fetch the published version from Obsius",
 		},
 		copyUrl: {
 			name: "Copy Obsius URL",
@@ -41,11 +43,17 @@ const strings = flatten({
 			success: "Note removed from Obsius",
 			failure: "Failed to remove note form Obsius",
 		},
+		rotateSecret: {
+			name: "Rotate Obsius secret",
+			success: "New secret stored for the published note",
+			failure: "Failed to rotate the secret of the published note",
+		},
 		listPosts: {
 			name: "View published posts",
 			title: "Published posts",
 			showFile: "View file",
 			showPost: "View post",
+			views: "Views",
 		},
 	},
 	modals: {
@@ -53,6 +61,22 @@ const strings = flatten({
 			title: "Note published at:",
 			copy: "Copy URL",
 		},
+		expiry: {
+			title: "Publish note",
+			description: "Remove the published note after:",
+			day: "1 day",
+			week: "7 days",
+			month: "30 days",
+			never: "Never",
+		},
+		conflict: {
+			title: "Note changed on Obsius",
+			description:
+				"The published note was updated from another device since you last published it.",
+			overwrite: "Overwrite",
+			pull: "Pull into new note",
+			cancel: "Cancel",
+		},
 	},
 });
 
@@ -14,6 +14,8 @@ export interface PluginData {
 export interface Post {
   id: string;
   secret: string;
+  slug?: string;  // Readable address claimed with the frontmatter "slug" key
+  revision?: number;  // Server revision this vault last published or pulled
 }
 
 // Default settings
@@ -0,0 +1,15 @@
+import { Post } from 'shared/types';
+
+/**
+ * A stored post for tests, with the given fields replaced
+ */
+export const createPost = (overrides: Partial<Post> = {}): Post => ({
+  id: 'abcdefgh',
+  secret: 'secret',
+  title: 'Note',
+  content: 'Text',
+  metadata: null,
+  created_at: '2024-01-01 00:00:00',
+  updated_at: '2024-01-01 00:00:00',
+  ...overrides
+});
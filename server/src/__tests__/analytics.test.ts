@@ -0,0 +1,145 @@
+import express from 'express';
+import request from 'supertest';
+import { Post } from 'shared/types';
+import { getReferrerDomain, isBot, ViewCounter, VisitorHasher } from '../utils/analytics';
+import { PostViewModel } from '../models/postView';
+import { loadTrustProxy } from '../utils/url';
+
+jest.mock('../models/database');
+
+const BROWSER = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/126.0 Safari/537.36';
+
+describe('isBot', () => {
+  it('should let browsers through', () => {
+    expect(isBot(BROWSER)).toBe(false);
+  });
+
+  it('should recognize crawlers, link previews and HTTP libraries', () => {
+    expect(isBot('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)')).toBe(true);
+    expect(isBot('facebookexternalhit/1.1')).toBe(true);
+    expect(isBot('Slackbot-LinkExpanding 1.0')).toBe(true);
+    expect(isBot('curl/8.5.0')).toBe(true);
+    expect(isBot('python-requests/2.31')).toBe(true);
+  });
+
+  it('should treat requests without a user agent as bots', () => {
+    expect(isBot(undefined)).toBe(true);
+    expect(isBot('')).toBe(true);
+  });
+});
+
+describe('getReferrerDomain', () => {
+  it('should reduce the referrer to its domain', () => {
+    expect(getReferrerDomain('https://www.Example.com/path?q=1', 'notes.test')).toBe('example.com');
+    expect(getReferrerDomain('http://news.ycombinator.com/item?id=1', 'notes.test')).toBe('news.ycombinator.com');
+  });
+
+  it('should ignore links within the site', () => {
+    expect(getReferrerDomain('https://notes.test/other', 'notes.test:443')).toBeNull();
+    expect(getReferrerDomain('https://www.notes.test/', 'notes.test')).toBeNull();
+  });
+
+  it('should ignore missing and invalid referrers', () => {
+    expect(getReferrerDomain(undefined, 'notes.test')).toBeNull();
+    expect(getReferrerDomain('not a url', 'notes.test')).toBeNull();
+    expect(getReferrerDomain('android-app://com.slack/', 'notes.test')).toBeNull();
+  });
+});
+
+describe('VisitorHasher', () => {
+  const morning = new Date('2024-03-01T08:00:00Z');
+  const evening = new Date('2024-03-01T20:00:00Z');
+  const nextDay = new Date('2024-03-02T08:00:00Z');
+
+  it('should give a visitor the same hash all day', () => {
+    const hasher = new VisitorHasher();
+    const first = hasher.hash('203.0.113.1', BROWSER, morning);
+
+    expect(first.day).toBe('2024-03-01');
+    expect(hasher.hash('203.0.113.1', BROWSER, evening)).toEqual(first);
+    expect(hasher.hash('203.0.113.2', BROWSER, evening).visitor).not.toBe(first.visitor);
+    expect(hasher.hash('203.0.113.1', 'Other browser', evening).visitor).not.toBe(first.visitor);
+  });
+
+  it('should not link visitors across days', () => {
+    const hasher = new VisitorHasher();
+    const today = hasher.hash('203.0.113.1', BROWSER, morning);
+    const tomorrow = hasher.hash('203.0.113.1', BROWSER, nextDay);
+
+    expect(tomorrow.day).toBe('2024-03-02');
+    expect(tomorrow.visitor).not.toBe(today.visitor);
+  });
+
+  it('should not reveal the IP address', () => {
+    const { visitor } = new VisitorHasher().hash('203.0.113.1', BROWSER, morning);
+
+    expect(visitor).toMatch(/^[0-9a-f]{64}$/);
+    expect(visitor).not.toContain('203.0.113.1');
+  });
+});
+
+describe('ViewCounter', () => {
+  const post = { id: 'abcdefgh' } as Post;
+  const now = new Date('2024-03-01T08:00:00Z');
+
+  const createRequest = (headers: { [name: string]: string }): express.Request => {
+    const lowercased: { [name: string]: string } = Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+    );
+    return {
+      ip: '203.0.113.1',
+      headers: lowercased,
+      get: (name: string) => lowercased[name.toLowerCase()]
+    } as unknown as express.Request;
+  };
+
+  let views: jest.Mocked<Pick<PostViewModel, 'recordView' | 'deleteVisitorsBefore'>>;
+  let counter: ViewCounter;
+
+  beforeEach(() => {
+    views = {
+      recordView: jest.fn().mockResolvedValue(true),
+      deleteVisitorsBefore: jest.fn().mockResolvedValue(0)
+    };
+    counter = new ViewCounter(views as unknown as PostViewModel);
+  });
+
+  it('should record a view with the referrer domain', async () => {
+    await counter.count(createRequest({ 'User-Agent': BROWSER, Referer: 'https://example.com/', Host: 'notes.test' }), post, now);
+
+    expect(views.deleteVisitorsBefore).toHaveBeenCalledWith('2024-03-01');
+    expect(views.recordView).toHaveBeenCalledWith('abcdefgh', '2024-03-01', expect.stringMatching(/^[0-9a-f]{64}$/), 'example.com');
+  });
+
+  it('should skip bots and the author', async () => {
+    await counter.count(createRequest({ 'User-Agent': 'Googlebot/2.1' }), post, now);
+    await counter.count(createRequest({ 'User-Agent': BROWSER, Authorization: 'Bearer token' }), post, now);
+    await counter.count(createRequest({ 'User-Agent': BROWSER, 'X-Post-Secret': 'secret' }), post, now);
+
+    expect(views.recordView).not.toHaveBeenCalled();
+  });
+
+  it('should not throw when the view cannot be stored', async () => {
+    views.recordView.mockRejectedValue(new Error('SQLITE_BUSY'));
+
+    await expect(counter.count(createRequest({ 'User-Agent': BROWSER }), post, now)).resolves.toBeUndefined();
+  });
+
+  it('should tell visitors apart by their forwarded IP behind a proxy', async () => {
+    const app = express();
+    app.set('trust proxy', loadTrustProxy({ TRUST_PROXY: '1' }));
+    app.get('/', async (req, res) => {
+      await counter.count(req, post, now);
+      res.end();
+    });
+    const visit = (ip: string) => request(app).get('/').set('User-Agent', BROWSER).set('X-Forwarded-For', ip);
+
+    await visit('198.51.100.1');
+    await visit('198.51.100.1');
+    await visit('198.51.100.2');
+
+    const visitors = views.recordView.mock.calls.map((call) => call[2]);
+    expect(visitors[1]).toBe(visitors[0]);
+    expect(visitors[2]).not.toBe(visitors[0]);
+  });
+});
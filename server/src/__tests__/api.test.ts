@@ -1,29 +1,42 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
 import request from 'supertest';
-import app from '../app';
 import { Database } from '../models/database';
 import { PostModel } from '../models/post';
 
-// Mock the database for testing
-jest.mock('../models/database');
+const testApiToken = 'test-api-token-for-integration-tests-12345678901234567890';
+
+// The app opens the database and starts listening when it is imported,
+// so it gets a fresh in-memory database and a free port
+process.env.NODE_ENV = 'test';
+process.env.DB_PATH = ':memory:';
+process.env.PORT = '0';
+process.env.API_TOKEN = testApiToken;
 
 describe('API Endpoints', () => {
-  let postModel: PostModel;
-  const testApiToken = 'test-api-token-for-integration-tests-12345678901234567890';
-
-  beforeAll(() => {
-    // Setup test environment
-    process.env.NODE_ENV = 'test';
-    process.env.DB_PATH = ':memory:';
-    process.env.API_TOKEN = testApiToken;
+  let app: express.Express;
+  const otherSecret = '123e4567-e89b-42d3-a456-426614174000';
+
+  beforeAll(async () => {
+    app = (await import('../app')).default;
+    await Database.getInstance().whenReady();
   });
 
-  beforeEach(() => {
-    postModel = new PostModel();
-    jest.clearAllMocks();
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   // Helper function to add auth header
-  const withAuth = (req: any) => req.set('Authorization', `Bearer ${testApiToken}`);
+  const withAuth = (req: request.Test) => req.set('Authorization', `Bearer ${testApiToken}`);
+
+  const createPost = async (fields: object = {}): Promise<{ id: string; secret: string }> => {
+    const response = await withAuth(request(app).post('/'))
+      .send({ title: 'Test Post', content: '# Test Content\n\nThis is a test post.', ...fields })
+      .expect(201);
+    return response.body;
+  };
 
   describe('GET /health', () => {
     it('should return health status', async () => {
@@ -39,20 +52,27 @@ describe('API Endpoints', () => {
 
   describe('POST /', () => {
     it('should create a new post', async () => {
-      const postData = {
-        title: 'Test Post',
-        content: '# Test Content\n\nThis is a test post.'
-      };
-
       const response = await withAuth(request(app)
         .post('/'))
-        .send(postData)
+        .send({
+          title: 'Test Post',
+          content: '# Test Content\n\nThis is a test post.'
+        })
         .expect(201);
 
-      expect(response.body.success).toBe(true);
-      expect(response.body.data).toHaveProperty('id');
-      expect(response.body.data).toHaveProperty('secret');
-      expect(response.body.data.id).toHaveLength(8);
+      expect(response.headers.etag).toBe('"1"');
+      expect(response.body.id).toHaveLength(8);
+      expect(response.body.secret).toMatch(/^[0-9a-f-]{36}$/);
+      expect(response.body).toMatchObject({ slug: null, revision: 1 });
+    });
+
+    it('should require an API token', async () => {
+      const response = await request(app)
+        .post('/')
+        .send({ title: 'Test Post', content: 'Text' })
+        .expect(401);
+
+      expect(response.body.error.code).toBe('MISSING_AUTHORIZATION');
     });
 
     it('should validate required fields', async () => {
@@ -67,7 +87,7 @@ describe('API Endpoints', () => {
 
     it('should validate title length', async () => {
       const longTitle = 'x'.repeat(201);
-      
+
       const response = await withAuth(request(app)
         .post('/'))
         .send({
@@ -81,7 +101,7 @@ describe('API Endpoints', () => {
 
     it('should validate content length', async () => {
       const longContent = 'x'.repeat(100001);
-      
+
       const response = await withAuth(request(app)
         .post('/'))
         .send({
@@ -95,55 +115,46 @@ describe('API Endpoints', () => {
   });
 
   describe('GET /:id', () => {
-    const mockPost = {
-      id: 'abc12345',
-      secret: '123e4567-e89b-42d3-a456-426614174000',
-      title: 'Test Post',
-      content: '# Test Content',
-      created_at: '2023-01-01 00:00:00',
-      updated_at: '2023-01-01 00:00:00'
-    };
+    let post: { id: string; secret: string };
 
-    it('should return post as HTML by default', async () => {
-      jest.spyOn(postModel, 'findById').mockResolvedValue(mockPost);
+    beforeAll(async () => {
+      post = await createPost();
+    });
 
+    it('should return post as HTML by default', async () => {
       const response = await request(app)
-        .get('/abc12345')
+        .get(`/${post.id}`)
         .expect(200);
 
       expect(response.header['content-type']).toMatch(/text\/html/);
       expect(response.text).toContain('Test Post');
-      expect(response.text).toContain('<h1>Test Content</h1>');
+      expect(response.text).toContain('<h1 id="test-content">Test Content');
     });
 
     it('should return post as JSON when requested', async () => {
-      jest.spyOn(postModel, 'findById').mockResolvedValue(mockPost);
-
       const response = await request(app)
-        .get('/abc12345')
+        .get(`/${post.id}`)
         .set('Accept', 'application/json')
         .expect(200);
 
+      expect(response.headers.etag).toBe('"1"');
       expect(response.body.success).toBe(true);
-      expect(response.body.data.id).toBe('abc12345');
+      expect(response.body.data.id).toBe(post.id);
       expect(response.body.data.title).toBe('Test Post');
       expect(response.body.data).not.toHaveProperty('secret'); // Secret should not be exposed
     });
 
     it('should return 404 for non-existent post', async () => {
-      jest.spyOn(postModel, 'findById').mockResolvedValue(null);
-
       const response = await request(app)
         .get('/notfound')
         .expect(404);
 
-      expect(response.body.success).toBe(false);
       expect(response.body.error.message).toBe('Post not found');
     });
 
     it('should validate ID format', async () => {
       const response = await request(app)
-        .get('/invalid')
+        .get('/Invalid_ID')
         .expect(400);
 
       expect(response.body.success).toBe(false);
@@ -152,37 +163,36 @@ describe('API Endpoints', () => {
 
   describe('PUT /:id', () => {
     const updateData = {
-      secret: '123e4567-e89b-42d3-a456-426614174000',
       title: 'Updated Post',
       content: '# Updated Content'
     };
 
     it('should update an existing post', async () => {
-      jest.spyOn(postModel, 'update').mockResolvedValue(true);
+      const { id, secret } = await createPost();
 
       const response = await withAuth(request(app)
-        .put('/abc12345'))
-        .send(updateData)
-        .expect(204);
+        .put(`/${id}`))
+        .send({ ...updateData, secret })
+        .expect(200);
 
-      expect(response.body).toEqual({});
+      expect(response.headers.etag).toBe('"2"');
+      expect(response.body.data).toEqual({ id, slug: null, revision: 2 });
     });
 
     it('should return 401 for invalid secret', async () => {
-      jest.spyOn(postModel, 'update').mockResolvedValue(false);
+      const { id } = await createPost();
 
       const response = await withAuth(request(app)
-        .put('/abc12345'))
-        .send(updateData)
+        .put(`/${id}`))
+        .send({ ...updateData, secret: otherSecret })
         .expect(401);
 
-      expect(response.body.success).toBe(false);
       expect(response.body.error.message).toBe('Post not found or invalid secret');
     });
 
     it('should validate secret format', async () => {
       const response = await withAuth(request(app)
-        .put('/abc12345'))
+        .put('/abc23456'))
         .send({
           ...updateData,
           secret: 'invalid-secret'
@@ -194,36 +204,32 @@ describe('API Endpoints', () => {
   });
 
   describe('DELETE /:id', () => {
-    const deleteData = {
-      secret: '123e4567-e89b-42d3-a456-426614174000'
-    };
-
     it('should delete an existing post', async () => {
-      jest.spyOn(postModel, 'delete').mockResolvedValue(true);
+      const { id, secret } = await createPost();
 
       const response = await withAuth(request(app)
-        .delete('/abc12345'))
-        .send(deleteData)
+        .delete(`/${id}`))
+        .send({ secret })
         .expect(204);
 
       expect(response.body).toEqual({});
+      await request(app).get(`/${id}`).expect(404);
     });
 
     it('should return 401 for invalid secret', async () => {
-      jest.spyOn(postModel, 'delete').mockResolvedValue(false);
+      const { id } = await createPost();
 
       const response = await withAuth(request(app)
-        .delete('/abc12345'))
-        .send(deleteData)
+        .delete(`/${id}`))
+        .send({ secret: otherSecret })
         .expect(401);
 
-      expect(response.body.success).toBe(false);
       expect(response.body.error.message).toBe('Post not found or invalid secret');
     });
 
     it('should validate secret format', async () => {
       const response = await withAuth(request(app)
-        .delete('/abc12345'))
+        .delete('/abc23456'))
         .send({
           secret: 'invalid-secret'
         })
@@ -233,24 +239,212 @@ describe('API Endpoints', () => {
     });
   });
 
+  describe('Conditional writes', () => {
+    let post: { id: string; secret: string };
+
+    // Revision 2, so If-Match "1" is stale
+    beforeEach(async () => {
+      post = await createPost();
+      await withAuth(request(app).put(`/${post.id}`))
+        .send({ secret: post.secret, title: 'Edited', content: 'Second revision' })
+        .expect(200);
+    });
+
+    it('should reject a stale update with 412 and the current ETag', async () => {
+      const response = await withAuth(request(app).put(`/${post.id}`))
+        .set('If-Match', '"1"')
+        .send({ secret: post.secret, title: 'Stale', content: 'Lost update' })
+        .expect(412);
+
+      expect(response.headers.etag).toBe('"2"');
+      expect(response.body.error.code).toBe('REVISION_CONFLICT');
+
+      const current = await request(app).get(`/${post.id}`).set('Accept', 'application/json');
+      expect(current.body.data.content).toBe('Second revision');
+    });
+
+    it('should apply an update based on the current revision', async () => {
+      const response = await withAuth(request(app).put(`/${post.id}`))
+        .set('If-Match', '"2"')
+        .send({ secret: post.secret, title: 'Current', content: 'Third revision' })
+        .expect(200);
+
+      expect(response.headers.etag).toBe('"3"');
+    });
+
+    it('should accept base_revision instead of If-Match', async () => {
+      await withAuth(request(app).put(`/${post.id}`))
+        .send({ secret: post.secret, title: 'Stale', content: 'Lost update', base_revision: 1 })
+        .expect(412);
+    });
+
+    it('should reject a stale delete with 412', async () => {
+      const response = await withAuth(request(app).delete(`/${post.id}`))
+        .set('If-Match', '"1"')
+        .send({ secret: post.secret })
+        .expect(412);
+
+      expect(response.headers.etag).toBe('"2"');
+
+      await withAuth(request(app).delete(`/${post.id}`))
+        .set('If-Match', '"2"')
+        .send({ secret: post.secret })
+        .expect(204);
+    });
+
+    it('should check the secret before the revision', async () => {
+      for (const method of ['put', 'delete'] as const) {
+        const response = await withAuth(request(app)[method](`/${post.id}`))
+          .set('If-Match', '"1"')
+          .send({ secret: otherSecret, title: 'Stale', content: 'Lost update' })
+          .expect(401);
+
+        expect(response.body.error.message).toBe('Post not found or invalid secret');
+        expect(response.headers.etag).not.toMatch(/^"\d+"$/);
+      }
+    });
+  });
+
+  describe('POST /:id/revisions/:revision/restore', () => {
+    let post: { id: string; secret: string };
+
+    // Revision 2, with revision 1 kept in the history
+    beforeEach(async () => {
+      post = await createPost();
+      await withAuth(request(app).put(`/${post.id}`))
+        .send({ secret: post.secret, title: 'Edited', content: 'Second revision' })
+        .expect(200);
+    });
+
+    it('should answer like an update, with the new revision', async () => {
+      const response = await withAuth(request(app).post(`/${post.id}/revisions/1/restore`))
+        .send({ secret: post.secret })
+        .expect(200);
+
+      expect(response.headers.etag).toBe('"3"');
+      expect(response.body.data).toEqual({ id: post.id, slug: null, revision: 3 });
+    });
+
+    it('should reject a stale restore with 412 and the current ETag', async () => {
+      const response = await withAuth(request(app).post(`/${post.id}/revisions/1/restore`))
+        .set('If-Match', '"1"')
+        .send({ secret: post.secret })
+        .expect(412);
+
+      expect(response.headers.etag).toBe('"2"');
+      expect(response.body.error.code).toBe('REVISION_CONFLICT');
+    });
+  });
+
+  describe('GET /search', () => {
+    beforeAll(async () => {
+      await createPost({
+        title: 'Searchable',
+        content: 'Visible findable words %% hiddenword %% and more',
+        visibility: 'public'
+      });
+    });
+
+    const search = (q: string) => request(app)
+      .get('/search')
+      .query({ q })
+      .set('Accept', 'application/json')
+      .expect(200);
+
+    it('should find public posts with snippets', async () => {
+      const response = await search('findable');
+
+      expect(response.body.data.total).toBe(1);
+      expect(response.body.data.results[0].snippet).toContain('<mark>findable</mark>');
+      expect(response.body.data.results[0].snippet).not.toContain('hiddenword');
+    });
+
+    it('should not match words inside comments', async () => {
+      const response = await search('hiddenword');
+
+      expect(response.body.data.total).toBe(0);
+    });
+  });
+
+  describe('GET /:id/stats', () => {
+    it('should count the views of a post', async () => {
+      const { id, secret } = await createPost();
+      await request(app)
+        .get(`/${id}`)
+        .set('User-Agent', 'Mozilla/5.0 (X11; Linux x86_64) Firefox/128.0')
+        .set('Referer', 'https://news.example/item')
+        .expect(200);
+
+      const response = await withAuth(request(app).get(`/${id}/stats?days=7`))
+        .set('X-Post-Secret', secret)
+        .expect(200);
+
+      expect(response.headers['cache-control']).toBe('private, no-store');
+      expect(response.body.data).toMatchObject({
+        id,
+        total_views: 1,
+        referrers: [{ domain: 'news.example', views: 1 }]
+      });
+      expect(response.body.data.days).toHaveLength(7);
+    });
+
+    it('should need the post secret', async () => {
+      const { id } = await createPost();
+
+      await withAuth(request(app).get(`/${id}/stats`)).expect(400);
+      await withAuth(request(app).get(`/${id}/stats`)).set('X-Post-Secret', otherSecret).expect(401);
+    });
+  });
+
+  describe('Feeds', () => {
+    beforeAll(async () => {
+      await createPost({ title: 'Feed &amp; news', visibility: 'public' });
+      await createPost({ title: 'Hidden from feeds', visibility: 'unlisted' });
+    });
+
+    it('should list public posts in the RSS feed', async () => {
+      const response = await request(app)
+        .get('/feed.xml')
+        .expect(200);
+
+      expect(response.headers['content-type']).toMatch(/application\/rss\+xml/);
+      expect(response.text).toContain('<title>Feed &amp;amp; news</title>');
+      expect(response.text).not.toContain('Hidden from feeds');
+    });
+
+    it('should answer conditional requests with 304', async () => {
+      // The feed links to the host it was requested from, a different host gets a different feed
+      const getFeed = () => request(app).get('/atom.xml').set('Host', 'notes.test');
+      const response = await getFeed().expect(200);
+
+      expect(response.headers['content-type']).toMatch(/application\/atom\+xml/);
+      expect(response.headers.etag).toBeDefined();
+      expect(response.headers['last-modified']).toBeDefined();
+
+      await getFeed()
+        .set('If-None-Match', response.headers.etag)
+        .expect(304);
+      await getFeed()
+        .set('If-Modified-Since', response.headers['last-modified'])
+        .expect(304);
+    });
+  });
+
   describe('Error handling', () => {
     it('should handle database errors gracefully', async () => {
-      jest.spyOn(postModel, 'findById').mockRejectedValue(new Error('Database error'));
+      jest.spyOn(PostModel.prototype, 'findByIdOrSlug').mockRejectedValue(new Error('Database error'));
 
       const response = await request(app)
-        .get('/abc12345')
+        .get('/abc23456')
         .expect(500);
 
-      expect(response.body.success).toBe(false);
-      expect(response.body.error).toHaveProperty('code', 500);
+      expect(response.body.error).toHaveProperty('code', 'INTERNAL_ERROR');
     });
 
     it('should return 404 for unknown endpoints', async () => {
-      const response = await request(app)
+      await request(app)
         .get('/unknown-endpoint')
         .expect(404);
-
-      // Note: This might be handled by express default 404
     });
   });
 
@@ -258,9 +452,10 @@ describe('API Endpoints', () => {
     it('should include CORS headers', async () => {
       const response = await request(app)
         .get('/health')
+        .set('Origin', 'app://obsidian.md')
         .expect(200);
 
-      expect(response.header).toHaveProperty('access-control-allow-origin');
+      expect(response.header).toHaveProperty('access-control-allow-origin', 'app://obsidian.md');
     });
 
     it('should handle OPTIONS preflight requests', async () => {
@@ -271,4 +466,176 @@ describe('API Endpoints', () => {
       expect(response.header).toHaveProperty('access-control-allow-methods');
     });
   });
-});
\ No newline at end of file
+
+  describe('GET /admin/posts', () => {
+    it('should require an API token', async () => {
+      await request(app)
+        .get('/admin/posts')
+        .expect(401);
+    });
+
+    it('should list posts with their sizes', async () => {
+      const { id } = await createPost({ title: 'Listed by admin', visibility: 'private' });
+
+      const response = await withAuth(request(app).get('/admin/posts?q=Listed%20by%20admin'))
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ page: 1, total: 1, total_pages: 1 });
+      expect(response.body.data.posts).toEqual([expect.objectContaining({
+        id, title: 'Listed by admin', visibility: 'private', owner_name: null
+      })]);
+      expect(response.body.data.posts[0].size).toBeGreaterThan(0);
+      expect(response.body.data.posts[0]).not.toHaveProperty('secret');
+    });
+
+    it('should disable and enable posts', async () => {
+      const { id } = await createPost();
+
+      const disabled = await withAuth(request(app).post(`/admin/posts/${id}/disable`))
+        .send({ reason: 'Spam' })
+        .expect(200);
+      expect(disabled.body.data).toMatchObject({ id, disabled_reason: 'Spam' });
+      await request(app).get(`/${id}`).expect(451);
+
+      await withAuth(request(app).post(`/admin/posts/${id}/enable`)).expect(200);
+      await request(app).get(`/${id}`).expect(200);
+    });
+
+    it('should reject invalid paging and sorting', async () => {
+      const response = await withAuth(request(app).get('/admin/posts?per_page=500&sort=secret'))
+        .expect(400);
+
+      const fields = response.body.error.details.map((detail: { path: string }) => detail.path);
+      expect(fields).toEqual(['per_page', 'sort']);
+    });
+
+    it('should reject owner filters that are not user IDs', async () => {
+      const response = await withAuth(request(app).get('/admin/posts?owner_id=alice'))
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+    });
+  });
+
+  describe('GET /admin/stats', () => {
+    it('should count posts and storage', async () => {
+      const before = await withAuth(request(app).get('/admin/stats')).expect(200);
+      await createPost({ visibility: 'public' });
+
+      const response = await withAuth(request(app).get('/admin/stats')).expect(200);
+
+      expect(response.body.data.posts.total).toBe(before.body.data.posts.total + 1);
+      expect(response.body.data.posts.public).toBe(before.body.data.posts.public + 1);
+      expect(response.body.data.database_bytes).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Webhooks', () => {
+    let server: http.Server;
+    let url: string;
+    let received: Promise<{ headers: http.IncomingHttpHeaders; body: string }>;
+
+    beforeAll(async () => {
+      let receive: (delivery: { headers: http.IncomingHttpHeaders; body: string }) => void;
+      received = new Promise((resolve) => { receive = resolve; });
+
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => { body += chunk; });
+        req.on('end', () => {
+          receive({ headers: req.headers, body });
+          res.writeHead(200).end('ok');
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should deliver signed events to registered webhooks', async () => {
+      const created = await withAuth(request(app).post('/admin/webhooks'))
+        .send({ url, events: ['post.created'] })
+        .expect(201);
+      const { id, secret } = created.body.data;
+      expect(secret).toMatch(/^whsec_/);
+
+      const listed = await withAuth(request(app).get('/admin/webhooks')).expect(200);
+      expect(listed.body.data).toEqual([expect.objectContaining({ id, url, events: ['post.created'] })]);
+      expect(listed.body.data[0]).not.toHaveProperty('secret');
+
+      const post = await createPost({ title: 'Announced' });
+      const delivery = await received;
+
+      expect(delivery.headers['x-webhook-event']).toBe('post.created');
+      expect(delivery.headers['x-webhook-signature'])
+        .toBe(`sha256=${crypto.createHmac('sha256', secret).update(delivery.body).digest('hex')}`);
+      expect(JSON.parse(delivery.body).post).toMatchObject({ id: post.id, title: 'Announced' });
+
+      await withAuth(request(app).delete(`/admin/webhooks/${id}`)).expect(204);
+      await withAuth(request(app).delete(`/admin/webhooks/${id}`)).expect(404);
+    });
+
+    it('should reject URLs that are not http or https', async () => {
+      await withAuth(request(app).post('/admin/webhooks'))
+        .send({ url: 'ftp://example.com/hook' })
+        .expect(400);
+    });
+  });
+
+  describe('Dashboard', () => {
+    const sessionCookie = (response: request.Response): string | undefined =>
+      ([] as string[]).concat(response.headers['set-cookie'] || []).find((cookie) => cookie.startsWith('admin_session='));
+
+    it('should send visitors without a session to the login form', async () => {
+      await request(app)
+        .get('/admin/dashboard')
+        .expect(303)
+        .expect('Location', '/admin/dashboard/login');
+    });
+
+    it('should reject tokens that are not admin tokens', async () => {
+      const response = await request(app)
+        .post('/admin/dashboard/login')
+        .type('form')
+        .send({ token: 'not-the-token' })
+        .expect(401);
+
+      expect(sessionCookie(response)).toBeUndefined();
+    });
+
+    it('should keep a session from login to logout', async () => {
+      const agent = request.agent(app);
+
+      const login = await agent
+        .post('/admin/dashboard/login')
+        .type('form')
+        .send({ token: testApiToken })
+        .expect(303)
+        .expect('Location', '/admin/dashboard');
+
+      const cookie = sessionCookie(login) as string;
+      expect(cookie).toMatch(/HttpOnly/);
+      expect(cookie).toMatch(/SameSite=Strict/);
+      expect(cookie).not.toContain(testApiToken);
+
+      const page = await agent.get('/admin/dashboard').expect(200);
+      expect(page.headers['cache-control']).toBe('private, no-store');
+      expect(page.text).toContain('action="/admin/dashboard/logout"');
+
+      await agent
+        .post('/admin/dashboard/logout')
+        .expect(303)
+        .expect('Location', '/admin/dashboard/login');
+
+      // The session ends on the server, not only in the browser
+      await request(app)
+        .get('/admin/dashboard')
+        .set('Cookie', cookie.split(';')[0])
+        .expect(303)
+        .expect('Location', '/admin/dashboard/login');
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { defaultScopes, generateApiToken, hashApiToken, isUserToken, parseScopes } from '../utils/apiToken';
+
+describe('API tokens of user accounts', () => {
+  it('should generate unique, recognizable tokens', () => {
+    const first = generateApiToken();
+    const second = generateApiToken();
+
+    expect(first).toMatch(/^obs_[A-Za-z0-9_-]{43}$/);
+    expect(first).not.toBe(second);
+    expect(isUserToken(first)).toBe(true);
+  });
+
+  it('should not treat other bearer tokens as user tokens', () => {
+    expect(isUserToken('test-api-token-12345678901234567890')).toBe(false);
+    expect(isUserToken('obs_')).toBe(false);
+  });
+
+  it('should hash tokens consistently without exposing them', () => {
+    const token = generateApiToken();
+
+    expect(hashApiToken(token)).toBe(hashApiToken(token));
+    expect(hashApiToken(token)).toMatch(/^[a-f0-9]{64}$/);
+    expect(hashApiToken(token)).not.toContain(token.substring(4));
+  });
+});
+
+describe('Token scopes', () => {
+  it('should grant the admin scope to admins only by default', () => {
+    expect(defaultScopes('admin')).toEqual(['posts:create', 'posts:write', 'posts:delete', 'admin']);
+    expect(defaultScopes('user')).toEqual(['posts:create', 'posts:write', 'posts:delete']);
+  });
+
+  it('should parse stored scopes and drop unknown ones', () => {
+    expect(parseScopes('posts:create posts:delete', 'user')).toEqual(['posts:create', 'posts:delete']);
+    expect(parseScopes('posts:create everything', 'admin')).toEqual(['posts:create']);
+  });
+
+  it('should give tokens without stored scopes all rights of their user', () => {
+    expect(parseScopes(null, 'user')).toEqual(defaultScopes('user'));
+    expect(parseScopes(null, 'admin')).toEqual(defaultScopes('admin'));
+  });
+});
@@ -1,6 +1,6 @@
 import request from 'supertest';
 import express from 'express';
-import { requireApiToken, validateApiToken, createTokenHash } from '../middleware/auth';
+import { requireAdmin, requireApiToken, requireScope, validateApiToken, createTokenHash } from '../middleware/auth';
 
 describe('API Token Authentication', () => {
   let app: express.Application;
@@ -19,9 +19,30 @@ describe('API Token Authentication', () => {
       res.json({ 
         success: true, 
         message: 'Authentication successful',
-        tokenHash: req.auth?.tokenHash 
+        tokenHash: req.auth?.tokenHash,
+        user: req.auth?.user
       });
     });
+
+    // Test route for admins only
+    app.post('/test-admin', requireApiToken, requireAdmin, (req, res) => {
+      res.json({ success: true });
+    });
+
+    // Test routes authenticated as a regular user with a publish-only token
+    const asUser = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+      req.auth = { tokenValid: true, user: { id: 2, name: 'bob', role: 'user' }, scopes: ['posts:create'] };
+      next();
+    };
+    app.post('/test-non-admin', asUser, requireAdmin, (req, res) => {
+      res.json({ success: true });
+    });
+    app.post('/test-scope/create', asUser, requireScope('posts:create'), (req, res) => {
+      res.json({ success: true });
+    });
+    app.post('/test-scope/delete', asUser, requireScope('posts:delete'), (req, res) => {
+      res.json({ success: true });
+    });
     
     // Test route without authentication for comparison
     app.get('/test-no-auth', (req, res) => {
@@ -195,4 +216,49 @@ describe('API Token Authentication', () => {
       expect(response.body.tokenHash).toHaveLength(8);
     });
   });
-});
\ No newline at end of file
+
+  describe('Users', () => {
+    it('should authenticate the API_TOKEN as the bootstrap admin', async () => {
+      const response = await request(app)
+        .post('/test-auth')
+        .set('Authorization', `Bearer ${testToken}`)
+        .send({});
+
+      expect(response.status).toBe(200);
+      expect(response.body.user).toEqual({ id: null, name: 'admin', role: 'admin' });
+    });
+
+    it('should let admins through requireAdmin', async () => {
+      const response = await request(app)
+        .post('/test-admin')
+        .set('Authorization', `Bearer ${testToken}`)
+        .send({});
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should reject other users in requireAdmin', async () => {
+      const response = await request(app)
+        .post('/test-non-admin')
+        .send({});
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('ADMIN_REQUIRED');
+    });
+  });
+
+  describe('requireScope middleware', () => {
+    it('should accept tokens with the scope', async () => {
+      const response = await request(app).post('/test-scope/create').send({});
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should reject tokens without the scope', async () => {
+      const response = await request(app).post('/test-scope/delete').send({});
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('INSUFFICIENT_SCOPE');
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { contentETag, expectedRevisions, revisionETag } from '../utils/etag';
+
+describe('revisionETag', () => {
+  it('should quote the revision number', () => {
+    expect(revisionETag({ revision: 3 })).toBe('"3"');
+  });
+
+  it('should treat posts without a revision as revision 1', () => {
+    expect(revisionETag({})).toBe('"1"');
+  });
+});
+
+describe('expectedRevisions', () => {
+  it('should allow unconditional changes', () => {
+    expect(expectedRevisions(undefined, undefined)).toBeNull();
+    expect(expectedRevisions(undefined, '*')).toBeNull();
+  });
+
+  it('should read base_revision', () => {
+    expect(expectedRevisions(3, undefined)).toEqual([3]);
+  });
+
+  it('should read the revisions of If-Match ETags', () => {
+    expect(expectedRevisions(undefined, '"3"')).toEqual([3]);
+    expect(expectedRevisions(undefined, '"1", "3"')).toEqual([1, 3]);
+  });
+
+  it('should not match weak or foreign ETags', () => {
+    expect(expectedRevisions(undefined, 'W/"3"')).toEqual([]);
+    expect(expectedRevisions(undefined, '"abc"')).toEqual([]);
+  });
+
+  it('should prefer base_revision over If-Match', () => {
+    expect(expectedRevisions(2, '"3"')).toEqual([2]);
+  });
+});
+
+describe('contentETag', () => {
+  it('should change with the content', () => {
+    expect(contentETag('<rss/>')).toMatch(/^"[A-Za-z0-9_-]{27}"$/);
+    expect(contentETag('<rss/>')).toBe(contentETag('<rss/>'));
+    expect(contentETag('<rss/>')).not.toBe(contentETag('<feed/>'));
+  });
+});
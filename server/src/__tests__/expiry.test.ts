@@ -0,0 +1,80 @@
+import { ExpiredPostCleanup, isExpired, loadCleanupInterval } from '../utils/expiry';
+import { toSqliteDate } from '../utils/url';
+import { Database } from '../models/database';
+import { PostModel } from '../models/post';
+import { createPost } from '../__fixtures__/posts';
+
+describe('isExpired', () => {
+  const now = new Date('2024-06-01T12:00:00Z');
+
+  it('should never expire posts without an expiry', () => {
+    expect(isExpired(createPost({ expires_at: null }), now)).toBe(false);
+  });
+
+  it('should compare stored UTC times with the current time', () => {
+    expect(isExpired(createPost({ expires_at: '2024-06-01 11:59:59' }), now)).toBe(true);
+    expect(isExpired(createPost({ expires_at: '2024-06-01 12:00:00' }), now)).toBe(true);
+    expect(isExpired(createPost({ expires_at: '2024-06-01 12:00:01' }), now)).toBe(false);
+  });
+});
+
+describe('toSqliteDate', () => {
+  it('should format dates like SQLite datetime()', () => {
+    expect(toSqliteDate(new Date('2024-06-01T08:30:00+02:00'))).toBe('2024-06-01 06:30:00');
+  });
+});
+
+describe('loadCleanupInterval', () => {
+  it('should default to 10 minutes', () => {
+    expect(loadCleanupInterval({})).toBe(10 * 60 * 1000);
+  });
+
+  it('should read the interval in minutes from the environment', () => {
+    expect(loadCleanupInterval({ EXPIRED_CLEANUP_INTERVAL_MINUTES: '1' })).toBe(60 * 1000);
+    expect(loadCleanupInterval({ EXPIRED_CLEANUP_INTERVAL_MINUTES: '0' })).toBe(10 * 60 * 1000);
+  });
+});
+
+describe('ExpiredPostCleanup', () => {
+  const secret = '123e4567-e89b-42d3-a456-426614174000';
+  let db: Database;
+
+  beforeAll(async () => {
+    process.env.DB_PATH = ':memory:';
+    process.env.REVISION_MAX_AGE_DAYS = '30';
+    db = Database.getInstance();
+    await db.whenReady();
+  });
+
+  afterAll(() => {
+    delete process.env.REVISION_MAX_AGE_DAYS;
+  });
+
+  const addRevision = (postId: string, revision: number, createdAt: string) => db.run(
+    "INSERT INTO post_revisions (post_id, revision, title, content, created_at) VALUES (?, ?, 'Note', 'Text', datetime('now', ?))",
+    [postId, revision, createdAt]
+  );
+
+  it('should prune old revisions of all posts, keeping the newest of each', async () => {
+    const postModel = new PostModel();
+    for (const id of ['pruned01', 'pruned02']) {
+      await postModel.create({ id, secret, title: 'Note', content: 'Text' });
+    }
+    await addRevision('pruned01', 1, '-60 days');
+    await addRevision('pruned01', 2, '-40 days');
+    await addRevision('pruned02', 1, '-60 days');
+    await addRevision('pruned02', 2, '-1 days');
+    await addRevision('pruned02', 3, '-0 days');
+
+    await new ExpiredPostCleanup().run();
+
+    const remaining = await db.all<{ post_id: string; revision: number }>(
+      'SELECT post_id, revision FROM post_revisions ORDER BY post_id, revision'
+    );
+    expect(remaining).toEqual([
+      { post_id: 'pruned01', revision: 2 },
+      { post_id: 'pruned02', revision: 2 },
+      { post_id: 'pruned02', revision: 3 }
+    ]);
+  });
+});
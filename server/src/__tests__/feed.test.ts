@@ -0,0 +1,147 @@
+import { Post } from 'shared/types';
+import { Feed, FeedRenderer, loadFeedContent, renderAtomFeed, renderRssFeed } from '../utils/feed';
+import { createPost } from '../__fixtures__/posts';
+
+const createFeedPost = (overrides: Partial<Post> = {}): Post => createPost({
+  content: '# Intro\n\nSee ![diagram](assets/diagram.png) and [the end](#end).',
+  updated_at: '2024-01-02 08:30:00',
+  ...overrides
+});
+
+const feed: Feed = {
+  title: 'Notes & more',
+  lang: 'en',
+  siteUrl: 'https://example.com/',
+  feedUrl: 'https://example.com/feed.xml?tag=a&b',
+  updated: '2024-01-02T08:30:00.000Z',
+  entries: [{
+    id: 'https://example.com/abcdefgh',
+    url: 'https://example.com/note',
+    title: 'A <b> note\u0000',
+    author: 'Ann',
+    tags: ['x&y'],
+    published: '2024-01-01T00:00:00.000Z',
+    updated: '2024-01-02T08:30:00.000Z',
+    summary: 'Short',
+    content: '<p>Hello</p>'
+  }]
+};
+
+describe('loadFeedContent', () => {
+  it('should default to full posts', () => {
+    expect(loadFeedContent({})).toBe('full');
+    expect(loadFeedContent({ FEED_CONTENT: 'bogus' })).toBe('full');
+  });
+
+  it('should read summary', () => {
+    expect(loadFeedContent({ FEED_CONTENT: ' Summary ' })).toBe('summary');
+  });
+});
+
+describe('renderRssFeed', () => {
+  it('should render the channel and its items', () => {
+    const xml = renderRssFeed(feed);
+
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<rss version="2.0"/);
+    expect(xml).toContain('<title>Notes &amp; more</title>');
+    expect(xml).toContain('<atom:link href="https://example.com/feed.xml?tag=a&amp;b" rel="self"');
+    expect(xml).toContain('<lastBuildDate>Tue, 02 Jan 2024 08:30:00 GMT</lastBuildDate>');
+    expect(xml).toContain('<guid isPermaLink="true">https://example.com/abcdefgh</guid>');
+    expect(xml).toContain('<pubDate>Mon, 01 Jan 2024 00:00:00 GMT</pubDate>');
+    expect(xml).toContain('<dc:creator>Ann</dc:creator>');
+    expect(xml).toContain('<category>x&amp;y</category>');
+    expect(xml).toContain('<content:encoded>&lt;p&gt;Hello&lt;/p&gt;</content:encoded>');
+  });
+
+  it('should escape text and drop characters XML does not allow', () => {
+    expect(renderRssFeed(feed)).toContain('<title>A &lt;b&gt; note</title>');
+
+    const summary = 'Tab\tline\r\nend\u0008\u007F\u0085\uFFFE\uFFFF';
+    const xml = renderRssFeed({ ...feed, entries: [{ ...feed.entries[0], summary }] });
+    expect(xml).toContain('<description>Tab\tline\r\nend</description>');
+  });
+});
+
+describe('renderAtomFeed', () => {
+  it('should render the feed and its entries', () => {
+    const xml = renderAtomFeed(feed);
+
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">');
+    expect(xml).toContain('<id>https://example.com/feed.xml?tag=a&amp;b</id>');
+    expect(xml).toContain('<updated>2024-01-02T08:30:00.000Z</updated>');
+    expect(xml).toContain('<author><name>Notes &amp; more</name></author>');
+    expect(xml).toContain('<link rel="alternate" type="text/html" href="https://example.com/note"/>');
+    expect(xml).toContain('<published>2024-01-01T00:00:00.000Z</published>');
+    expect(xml).toContain('<category term="x&amp;y"/>');
+    expect(xml).toContain('<content type="html">&lt;p&gt;Hello&lt;/p&gt;</content>');
+  });
+
+  it('should leave out the content of summary feeds', () => {
+    const xml = renderAtomFeed({ ...feed, entries: [{ ...feed.entries[0], content: undefined }] });
+
+    expect(xml).toContain('<summary>Short</summary>');
+    expect(xml).not.toContain('<content');
+  });
+});
+
+describe('FeedRenderer', () => {
+  it('should render posts with absolute URLs', () => {
+    const renderer = new FeedRenderer({ siteTitle: 'My notes', feedContent: 'full' });
+    const xml = renderer.render([createFeedPost({ slug: 'note' })], { format: 'atom', baseUrl: 'https://example.com' });
+
+    expect(xml).toContain('<title>My notes</title>');
+    expect(xml).toContain('<id>https://example.com/abcdefgh</id>');
+    expect(xml).toContain('href="https://example.com/note"');
+    expect(xml).toContain('<updated>2024-01-02T08:30:00.000Z</updated>');
+    expect(xml).toContain('src=&quot;https://example.com/abcdefgh/assets/diagram.png&quot;');
+    expect(xml).toContain('href=&quot;https://example.com/note#end&quot;');
+    expect(xml).not.toContain('heading-anchor');
+  });
+
+  it('should use the frontmatter title, date, author and tags', () => {
+    const renderer = new FeedRenderer({ feedContent: 'full' });
+    const metadata = JSON.stringify({
+      title: 'From frontmatter', date: '2023-06-01T00:00:00.000Z', author: 'Ann', tags: ['work']
+    });
+    const xml = renderer.render([createFeedPost({ metadata })], { format: 'rss', baseUrl: 'https://example.com' });
+
+    expect(xml).toContain('<title>From frontmatter</title>');
+    expect(xml).toContain('<pubDate>Thu, 01 Jun 2023 00:00:00 GMT</pubDate>');
+    expect(xml).toContain('<dc:creator>Ann</dc:creator>');
+    expect(xml).toContain('<category>work</category>');
+  });
+
+  it('should escape stored titles once', () => {
+    // Titles are stored HTML-escaped
+    const xml = new FeedRenderer().render([createFeedPost({ title: 'A &amp; B&#x27;s &lt;notes&gt;' })], { format: 'rss' });
+
+    expect(xml).toContain('<title>A &amp; B&#39;s &lt;notes&gt;</title>');
+  });
+
+  it('should only include summaries when configured', () => {
+    const renderer = new FeedRenderer({ feedContent: 'summary' });
+    const xml = renderer.render([createFeedPost()], { format: 'rss', baseUrl: 'https://example.com' });
+
+    expect(xml).toContain('<description>Intro See and the end.</description>');
+    expect(xml).not.toContain('<content:encoded>');
+  });
+
+  it('should name the tag of tag feeds', () => {
+    const renderer = new FeedRenderer({ siteTitle: 'My notes' });
+    const xml = renderer.render([], { format: 'rss', tag: 'c++', baseUrl: 'https://example.com' });
+
+    expect(xml).toContain('<title>My notes - #c++</title>');
+    expect(xml).toContain('href="https://example.com/feed.xml?tag=c%2B%2B"');
+  });
+
+  it('should date an empty feed now', () => {
+    jest.useFakeTimers({ now: new Date('2024-05-01T12:00:00Z') });
+    try {
+      const xml = new FeedRenderer().render([], { format: 'atom', baseUrl: 'https://example.com' });
+
+      expect(xml).toContain('<updated>2024-05-01T12:00:00.000Z</updated>');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,114 @@
+import { parseFrontmatter } from '../utils/frontmatter';
+import { MarkdownRenderer } from '../utils/markdown';
+import { Post } from 'shared/types';
+import { createPost } from '../__fixtures__/posts';
+
+describe('parseFrontmatter', () => {
+  it('should strip frontmatter from the body', () => {
+    const { metadata, body } = parseFrontmatter('---\ntitle: Hello\n---\n# Content\n');
+
+    expect(metadata.title).toBe('Hello');
+    expect(body).toBe('# Content\n');
+  });
+
+  it('should return notes without frontmatter unchanged', () => {
+    const content = '# Title\n\n---\n\nkey: value\n---\n';
+    const { metadata, body } = parseFrontmatter(content);
+
+    expect(metadata).toEqual({});
+    expect(body).toBe(content);
+  });
+
+  it('should keep invalid YAML in the body', () => {
+    const content = '---\ntitle: [unclosed\n---\nText';
+    const { metadata, body } = parseFrontmatter(content);
+
+    expect(metadata).toEqual({});
+    expect(body).toBe(content);
+  });
+
+  it('should handle Windows line endings and empty frontmatter', () => {
+    expect(parseFrontmatter('---\r\ntitle: Hi\r\n---\r\nText').metadata.title).toBe('Hi');
+    expect(parseFrontmatter('---\n---\nText')).toEqual({ metadata: {}, body: 'Text' });
+  });
+
+  it('should normalize tags from lists and strings', () => {
+    expect(parseFrontmatter('---\ntags:\n  - "#one"\n  - two\n---\n').metadata.tags).toEqual(['one', 'two']);
+    expect(parseFrontmatter('---\ntags: one, two three\n---\n').metadata.tags).toEqual(['one', 'two', 'three']);
+    expect(parseFrontmatter('---\ntags: []\n---\n').metadata.tags).toBeUndefined();
+  });
+
+  it('should normalize dates, authors and languages', () => {
+    const { metadata } = parseFrontmatter(
+      '---\ndate: 2024-03-01\nauthor: [Ann, Bob]\nlang: en-US\n---\n'
+    );
+
+    expect(metadata.date).toBe('2024-03-01T00:00:00.000Z');
+    expect(metadata.author).toBe('Ann, Bob');
+    expect(metadata.lang).toBe('en-US');
+  });
+
+  it('should drop invalid well-known values and keep other keys', () => {
+    const { metadata } = parseFrontmatter(
+      '---\ndate: not a date\nlang: "\\"><script>"\ncssclass: wide\n---\n'
+    );
+
+    expect(metadata.date).toBeUndefined();
+    expect(metadata.lang).toBeUndefined();
+    expect(metadata.cssclass).toBe('wide');
+  });
+
+  it('should accept the known visibility levels only', () => {
+    expect(parseFrontmatter('---\nvisibility: Public\n---\n').metadata.visibility).toBe('public');
+    expect(parseFrontmatter('---\nvisibility: private\n---\n').metadata.visibility).toBe('private');
+    expect(parseFrontmatter('---\nvisibility: everyone\n---\n').metadata.visibility).toBeUndefined();
+  });
+
+  it('should lowercase the slug', () => {
+    expect(parseFrontmatter('---\nslug: Onboarding-Guide \n---\n').metadata.slug).toBe('onboarding-guide');
+  });
+});
+
+describe('MarkdownRenderer.renderToHtml with metadata', () => {
+  const renderer = new MarkdownRenderer();
+
+  const createPostWithMetadata = (metadata: object | null): Post => createPost({
+    title: 'Stored title',
+    content: 'Body text costs $5 and $& more',
+    metadata: metadata ? JSON.stringify(metadata) : null,
+    updated_at: '2024-01-02 00:00:00'
+  });
+
+  it('should use frontmatter to fill the template', async () => {
+    const html = await renderer.renderToHtml(createPostWithMetadata({
+      title: 'Front <title>',
+      description: 'A summary',
+      tags: ['notes'],
+      author: 'Ann',
+      lang: 'en'
+    }));
+
+    expect(html).toContain('<html lang="en">');
+    expect(html).toContain('<title>Front &lt;title&gt;</title>');
+    expect(html).toContain('<meta name="description" content="A summary">');
+    expect(html).toContain('<li>#notes</li>');
+    expect(html).toContain('Ann');
+    expect(html).not.toContain('Stored title');
+  });
+
+  it('should fall back to the post fields without frontmatter', async () => {
+    const html = await renderer.renderToHtml(createPostWithMetadata(null));
+
+    expect(html).toContain('<html lang="zh-CN">');
+    expect(html).toContain('<title>Stored title</title>');
+    expect(html).toContain('content="Body text costs $5 and $&amp; more"');
+    expect(html).not.toContain('{{author}}');
+    expect(html).not.toContain('{{tags}}');
+  });
+
+  it('should keep dollar signs in the content literal', async () => {
+    const html = await renderer.renderToHtml(createPostWithMetadata(null));
+
+    expect(html).toContain('Body text costs $5 and $&amp; more');
+  });
+});
@@ -148,4 +148,37 @@ describe('IDGenerator', () => {
       expect(IDGenerator.compareSecrets(secret1, secret3)).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('hashSecret', () => {
+    const secret = '123e4567-e89b-42d3-a456-426614174000';
+
+    it('should not contain the secret', () => {
+      const hash = IDGenerator.hashSecret(secret);
+      expect(hash).not.toContain(secret);
+      expect(IDGenerator.isHashedSecret(hash)).toBe(true);
+      expect(IDGenerator.isHashedSecret(secret)).toBe(false);
+    });
+
+    it('should use a fresh salt for each hash', () => {
+      expect(IDGenerator.hashSecret(secret)).not.toBe(IDGenerator.hashSecret(secret));
+    });
+  });
+
+  describe('verifySecret', () => {
+    const secret = '123e4567-e89b-42d3-a456-426614174000';
+
+    it('should accept the secret a hash was made from', () => {
+      expect(IDGenerator.verifySecret(secret, IDGenerator.hashSecret(secret))).toBe(true);
+    });
+
+    it('should reject other secrets', () => {
+      const other = '987e4567-e89b-42d3-a456-426614174000';
+      expect(IDGenerator.verifySecret(other, IDGenerator.hashSecret(secret))).toBe(false);
+    });
+
+    it('should accept plaintext secrets stored before hashing', () => {
+      expect(IDGenerator.verifySecret(secret, secret)).toBe(true);
+      expect(IDGenerator.verifySecret('wrong', secret)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,303 @@
+import { MarkdownRenderer } from '../utils/markdown';
+import { splitHighlightedLines } from '../utils/highlight';
+import { buildToc, slugify } from '../utils/headings';
+import { RenderEnv } from '../utils/markdownPlugins';
+import { Post } from 'shared/types';
+import { createPost } from '../__fixtures__/posts';
+
+describe('MarkdownRenderer', () => {
+  let renderer: MarkdownRenderer;
+
+  beforeEach(() => {
+    renderer = new MarkdownRenderer();
+  });
+
+  describe('wikilinks', () => {
+    it('should render unresolved wikilinks as styled text', () => {
+      const html = renderer.render('See [[Other Note]] for details');
+
+      expect(html).toContain('<span class="wikilink wikilink-unresolved" title="Other Note">Other Note</span>');
+      expect(html).not.toContain('[[');
+    });
+
+    it('should use the alias as display text', () => {
+      const html = renderer.render('[[Other Note|the other one]]');
+
+      expect(html).toContain('>the other one</span>');
+    });
+
+    it('should show heading links like Obsidian does', () => {
+      const html = renderer.render('[[Other Note#Setup]]');
+
+      expect(html).toContain('>Other Note &gt; Setup</span>');
+    });
+
+    it('should escape wikilink text', () => {
+      const html = renderer.render('[[<script>alert(1)</script>]]');
+
+      expect(html).not.toContain('<script>');
+    });
+
+    it('should leave wikilinks in code untouched', () => {
+      const html = renderer.render('`[[Other Note]]`');
+
+      expect(html).toContain('<code>[[Other Note]]</code>');
+    });
+
+    it('should not turn published links into spans', () => {
+      const html = renderer.render('[Other Note](/abc23456)');
+
+      expect(html).toContain('<a href="/abc23456">Other Note</a>');
+    });
+  });
+
+  describe('attachments', () => {
+    it('should resolve asset paths against the post URL', () => {
+      const html = renderer.render('![diagram](assets/diagram.png)', { postId: 'abc23456' });
+
+      expect(html).toContain('src="/abc23456/assets/diagram.png"');
+    });
+
+    it('should resolve asset links against the post URL', () => {
+      const html = renderer.render('[slides](assets/slides.pdf)', { postId: 'abc23456' });
+
+      expect(html).toContain('href="/abc23456/assets/slides.pdf"');
+    });
+
+    it('should leave other image paths alone', () => {
+      const html = renderer.render('![logo](https://example.com/logo.png)', { postId: 'abc23456' });
+
+      expect(html).toContain('src="https://example.com/logo.png"');
+    });
+
+    it('should apply Obsidian image sizes', () => {
+      const html = renderer.render('![diagram|300x200](assets/diagram.png)', { postId: 'abc23456' });
+
+      expect(html).toContain('alt="diagram"');
+      expect(html).toContain('width="300"');
+      expect(html).toContain('height="200"');
+    });
+  });
+
+  describe('Obsidian syntax', () => {
+    it('should render callouts with a title', () => {
+      const html = renderer.render('> [!warning] Be careful\n> Details here');
+
+      expect(html).toContain('<div class="callout" data-callout="warning">');
+      expect(html).toContain('<div class="callout-title">Be careful</div>');
+      expect(html).toContain('<p>Details here</p>');
+      expect(html).not.toContain('<blockquote>');
+    });
+
+    it('should default the callout title to its type', () => {
+      const html = renderer.render('> [!note]\n> Body');
+
+      expect(html).toContain('<div class="callout-title">Note</div>');
+    });
+
+    it('should render foldable callouts as details', () => {
+      expect(renderer.render('> [!tip]- Folded\n> Body')).toContain('<details class="callout" data-callout="tip">');
+      expect(renderer.render('> [!tip]+ Open\n> Body')).toContain('<details class="callout" data-callout="tip" open="">');
+    });
+
+    it('should keep plain blockquotes', () => {
+      expect(renderer.render('> quote')).toContain('<blockquote>');
+    });
+
+    it('should render highlights', () => {
+      expect(renderer.render('some ==important== text')).toContain('<mark>important</mark>');
+      expect(renderer.render('a == b')).not.toContain('<mark>');
+    });
+
+    it('should never output comments', () => {
+      const html = renderer.render('visible %%inline secret%% text\n\n%%\nblock\n\nsecret\n%%\nafter\n\n%% unclosed\nhidden');
+
+      expect(html).toContain('visible');
+      expect(html).toContain('after');
+      expect(html).not.toMatch(/secret|hidden|%%/);
+    });
+
+    it('should keep comment markers inside code', () => {
+      const html = renderer.render('`%%code%%`\n\n```\n%% fenced %%\n```');
+
+      expect(html).toContain('<code>%%code%%</code>');
+      expect(html).toContain('%% fenced %%');
+    });
+
+    it('should render task lists', () => {
+      const html = renderer.render('- [ ] todo\n- [x] done\n- normal');
+
+      expect(html).toContain('<ul class="contains-task-list">');
+      expect(html).toContain('<li class="task-list-item"><input type="checkbox" class="task-list-item-checkbox" disabled=""> todo</li>');
+      expect(html).toContain('<input type="checkbox" class="task-list-item-checkbox" disabled="" checked=""> done');
+      expect(html).toContain('<li>normal</li>');
+    });
+  });
+
+  describe('code highlighting', () => {
+    it('should highlight fenced code with a known language', () => {
+      const html = renderer.render('```ts\nconst answer = 42;\n```');
+
+      expect(html).toContain('<pre class="hljs"><code class="hljs language-ts">');
+      expect(html).toContain('<span class="hljs-keyword">const</span>');
+    });
+
+    it('should detect the language when none is given', () => {
+      const html = renderer.render('```\nSELECT id, title FROM posts WHERE id = 1;\n```');
+
+      expect(html).toContain('language-sql');
+    });
+
+    it('should escape code that is not highlighted', () => {
+      const html = renderer.render('```text\n<b>not bold</b>\n```');
+
+      expect(html).toContain('&lt;b&gt;not bold&lt;/b&gt;');
+    });
+
+    it('should add line numbers when requested in the info string', () => {
+      const html = renderer.render('```ts linenums\nconst a = 1;\nconst b = 2;\n```');
+
+      expect(html).toContain('<pre class="hljs line-numbers">');
+      expect(html.match(/class="code-line"/g)).toHaveLength(2);
+    });
+
+    it('should add line numbers to every block when enabled', () => {
+      const numbered = new MarkdownRenderer({ lineNumbers: true });
+
+      expect(numbered.render('```ts\nconst a = 1;\n```')).toContain('line-numbers');
+      expect(numbered.render('```ts nolinenums\nconst a = 1;\n```')).not.toContain('line-numbers');
+    });
+
+    it('should reopen spans that cross line breaks', () => {
+      const lines = splitHighlightedLines('<span class="hljs-comment">/* a\nb */</span>');
+
+      expect(lines).toEqual([
+        '<span class="hljs-comment">/* a</span>',
+        '<span class="hljs-comment">b */</span>'
+      ]);
+    });
+  });
+
+  describe('math', () => {
+    it('should render inline math', () => {
+      const html = renderer.render('Euler: $e^{i\\pi}+1=0$');
+
+      expect(html).toContain('<span class="katex">');
+      expect(html).toContain('<math');
+      expect(html).not.toContain('$e^');
+    });
+
+    it('should render block math', () => {
+      const html = renderer.render('$$\n\\int_0^1 x\\,dx\n$$');
+
+      expect(html).toContain('<span class="katex-display">');
+    });
+
+    it('should leave dollar amounts alone', () => {
+      expect(renderer.render('costs $5 and $10')).toContain('costs $5 and $10');
+    });
+
+    it('should render broken TeX as an error box', () => {
+      const html = renderer.render('$$\n\\frac{1\n$$\n\nafter');
+
+      expect(html).toContain('<div class="math-error"><code>\\frac{1</code>');
+      expect(html).toContain('<p>after</p>');
+    });
+  });
+
+  describe('page meta tags', () => {
+    const createSharedPost = (content: string): Post => createPost({
+      title: 'Shared note',
+      content,
+      created_at: '2024-01-15 10:30:00',
+      updated_at: '2024-01-16 08:00:00'
+    });
+
+    it('should emit Open Graph, Twitter and canonical tags', async () => {
+      const html = await renderer.renderToHtml(
+        createSharedPost('# Intro\n\nFirst *paragraph* & more.'),
+        { baseUrl: 'https://share.example' }
+      );
+
+      expect(html).toContain('<link rel="canonical" href="https://share.example/abcdefgh">');
+      expect(html).toContain('<meta property="og:type" content="article">');
+      expect(html).toContain('<meta property="og:title" content="Shared note">');
+      expect(html).toContain('<meta property="og:description" content="Intro First paragraph &amp; more.">');
+      expect(html).toContain('<meta property="article:published_time" content="2024-01-15T10:30:00.000Z">');
+      expect(html).toContain('<meta property="article:modified_time" content="2024-01-16T08:00:00.000Z">');
+      expect(html).toContain('<meta name="twitter:card" content="summary">');
+      expect(html).not.toContain('og:image');
+    });
+
+    it('should use the first image as og:image', async () => {
+      const html = await renderer.renderToHtml(
+        createSharedPost('Text\n\n![cover](assets/cover.png)\n\n![second](https://cdn.example/b.png)'),
+        { baseUrl: 'https://share.example' }
+      );
+
+      expect(html).toContain('<meta property="og:image" content="https://share.example/abcdefgh/assets/cover.png">');
+      expect(html).toContain('<meta name="twitter:card" content="summary_large_image">');
+    });
+
+    it('should ignore images that cannot be shared', async () => {
+      const html = await renderer.renderToHtml(createSharedPost('![x](data:image/png;base64,AAAA)'), { baseUrl: 'https://share.example' });
+
+      expect(html).not.toContain('og:image');
+    });
+  });
+
+  describe('headings', () => {
+    it('should give headings slug ids and permalinks', () => {
+      const html = renderer.render('## Hello, World!');
+
+      expect(html).toContain('<h2 id="hello-world">Hello, World!<a class="heading-anchor" href="#hello-world" aria-hidden="true">#</a></h2>');
+    });
+
+    it('should keep non-ASCII characters in slugs', () => {
+      expect(slugify('安装步骤 (Windows)')).toBe('安装步骤-windows');
+      expect(slugify('Café  au lait')).toBe('café-au-lait');
+      expect(renderer.render('# 你好，世界')).toContain('id="你好世界"');
+    });
+
+    it('should make duplicate slugs unique', () => {
+      const html = renderer.render('## Setup\n\n## Setup\n\n## Setup-1\n\n## 🎉');
+
+      expect(html).toContain('id="setup"');
+      expect(html).toContain('id="setup-1"');
+      expect(html).toContain('id="setup-1-1"');
+      expect(html).toContain('id="section"');
+    });
+
+    it('should collect headings for the table of contents', () => {
+      const env: RenderEnv = {};
+      renderer.render('## A\n\n### B\n\n#### C\n\n## `D`', env);
+
+      expect(env.headings?.map((heading) => heading.slug)).toEqual(['a', 'b', 'c', 'd']);
+      expect(buildToc(env.headings || [], 3)).toEqual([
+        { text: 'A', slug: 'a', children: [{ text: 'B', slug: 'b', children: [] }] },
+        { text: 'D', slug: 'd', children: [] }
+      ]);
+    });
+
+    it('should render the table of contents when enabled in frontmatter', async () => {
+      const post: Post = {
+        id: 'abcdefgh',
+        secret: 'secret',
+        title: 'Guide',
+        content: '## Install\n\n### Linux\n\n## Usage',
+        metadata: JSON.stringify({ toc: true, toc_depth: 2, toc_position: 'sidebar' }),
+        created_at: '2024-01-15 10:30:00',
+        updated_at: '2024-01-16 08:00:00'
+      };
+
+      const html = await renderer.renderToHtml(post);
+
+      expect(html).toContain('<nav class="toc toc-sidebar" aria-label="目录">');
+      expect(html).toContain('<a href="#install">Install</a>');
+      expect(html).not.toContain('<a href="#linux">');
+
+      const withoutToc = await renderer.renderToHtml({ ...post, metadata: null });
+      expect(withoutToc).not.toContain('<nav class="toc');
+    });
+  });
+});
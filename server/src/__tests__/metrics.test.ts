@@ -0,0 +1,38 @@
+import { getServerMetrics, recordLogEntry, recordRateLimitHit, resetServerMetrics } from '../utils/metrics';
+
+describe('server metrics', () => {
+  beforeEach(() => {
+    resetServerMetrics(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  it('should count errors and warnings only', () => {
+    recordLogEntry('error');
+    recordLogEntry('warn');
+    recordLogEntry('warn');
+    recordLogEntry('info');
+
+    const metrics = getServerMetrics(new Date('2024-01-01T00:01:30Z'));
+
+    expect(metrics.errors).toBe(1);
+    expect(metrics.warnings).toBe(2);
+    expect(metrics.uptime_seconds).toBe(90);
+    expect(metrics.started_at).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('should count rate limit hits by limiter', () => {
+    recordRateLimitHit('public');
+    recordRateLimitHit('public');
+    recordRateLimitHit('assets');
+
+    expect(getServerMetrics().rate_limit_hits).toEqual({ public: 2, assets: 1 });
+  });
+
+  it('should start from zero after a reset', () => {
+    recordLogEntry('error');
+    recordRateLimitHit('api');
+
+    resetServerMetrics();
+
+    expect(getServerMetrics()).toMatchObject({ errors: 0, warnings: 0, rate_limit_hits: {} });
+  });
+});
@@ -0,0 +1,64 @@
+import request from 'supertest';
+import express from 'express';
+import { hashPassword, passwordFingerprint, verifyPassword } from '../utils/password';
+import { limitPasswordAttempts } from '../middleware/postPassword';
+
+describe('hashPassword', () => {
+  it('should verify the original password only', async () => {
+    const hash = await hashPassword('correct horse');
+
+    expect(hash).toMatch(/^scrypt:[^:]+:[^:]+$/);
+    expect(hash).not.toContain('correct horse');
+    expect(await verifyPassword('correct horse', hash)).toBe(true);
+    expect(await verifyPassword('correct horse ', hash)).toBe(false);
+    expect(await verifyPassword('', hash)).toBe(false);
+  });
+
+  it('should use a new salt for every hash', async () => {
+    const [first, second] = await Promise.all([hashPassword('same'), hashPassword('same')]);
+
+    expect(first).not.toBe(second);
+    expect(await verifyPassword('same', second)).toBe(true);
+  });
+
+  it('should reject malformed hashes', async () => {
+    expect(await verifyPassword('x', 'plain-text')).toBe(false);
+    expect(await verifyPassword('x', 'scrypt:c2FsdA==:c2hvcnQ=')).toBe(false);
+  });
+});
+
+describe('passwordFingerprint', () => {
+  it('should change when the password hash changes', async () => {
+    const hash = await hashPassword('one');
+
+    expect(passwordFingerprint(hash)).toBe(passwordFingerprint(hash));
+    expect(passwordFingerprint(hash)).not.toBe(passwordFingerprint(await hashPassword('one')));
+    expect(passwordFingerprint(hash)).toHaveLength(16);
+  });
+});
+
+describe('limitPasswordAttempts', () => {
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+  app.post('/:id/unlock', limitPasswordAttempts, (req, res) => {
+    res.status(401).send('wrong password');
+  });
+
+  it('should show the unlock form with an error after too many failed attempts', async () => {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await request(app).post('/abcdefgh/unlock').type('form').send({ password: 'guess' }).expect(401);
+    }
+
+    const response = await request(app).post('/abcdefgh/unlock').type('form').send({ password: 'guess' });
+
+    expect(response.status).toBe(429);
+    expect(response.header['content-type']).toMatch(/text\/html/);
+    expect(response.text).toContain('<form method="post" action="/abcdefgh/unlock">');
+    expect(response.text).toContain('尝试次数过多');
+
+    const json = await request(app).post('/abcdefgh/unlock').set('Accept', 'application/json')
+      .type('form').send({ password: 'guess' });
+    expect(json.status).toBe(429);
+    expect(json.body.error.code).toBe('PASSWORD_RATE_LIMIT_EXCEEDED');
+  });
+});
@@ -0,0 +1,59 @@
+import { Database } from '../models/database';
+import { PostModel } from '../models/post';
+import { RevisionModel } from '../models/revision';
+
+// A fresh in-memory database for this file
+process.env.DB_PATH = ':memory:';
+
+describe('PostModel', () => {
+  const secret = '123e4567-e89b-42d3-a456-426614174000';
+  let postModel: PostModel;
+
+  beforeAll(async () => {
+    postModel = new PostModel();
+    await Database.getInstance().whenReady();
+  });
+
+  describe('update', () => {
+    const update = (id: string, theme?: string | null) =>
+      postModel.update(id, secret, { title: 'Note', content: `Theme ${theme}`, theme });
+
+    beforeEach(async () => {
+      await postModel.create({ id: 'themed01', secret, title: 'Note', content: 'Text', theme: 'dark' });
+    });
+
+    afterEach(async () => {
+      await postModel.delete('themed01', secret);
+      await new RevisionModel().deleteByPost('themed01');
+    });
+
+    it('should keep the theme when none is given', async () => {
+      await expect(update('themed01')).resolves.toBe('ok');
+
+      expect((await postModel.findById('themed01'))?.theme).toBe('dark');
+    });
+
+    it('should replace the theme', async () => {
+      await update('themed01', 'print');
+
+      expect((await postModel.findById('themed01'))?.theme).toBe('print');
+    });
+
+    it('should remove the theme when it is null', async () => {
+      await update('themed01', null);
+
+      expect((await postModel.findById('themed01'))?.theme).toBeNull();
+    });
+
+    it('should keep the replaced version with the time it was published', async () => {
+      await Database.getInstance().run(
+        "UPDATE posts SET updated_at = '2024-01-02 03:04:05' WHERE id = 'themed01'"
+      );
+
+      await update('themed01', 'print');
+
+      const [latest] = await new RevisionModel().listByPost('themed01');
+      expect(latest.created_at).toBe('2024-01-02 03:04:05');
+    });
+  });
+});
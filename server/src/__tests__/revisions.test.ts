@@ -0,0 +1,46 @@
+import { loadRevisionRetention } from '../models/revision';
+import { unifiedDiff } from '../utils/diff';
+
+describe('loadRevisionRetention', () => {
+  it('should keep the last 50 revisions of any age by default', () => {
+    expect(loadRevisionRetention({})).toEqual({ maxCount: 50, maxAgeDays: 0 });
+  });
+
+  it('should read the limits from the environment', () => {
+    const retention = loadRevisionRetention({ REVISION_MAX_COUNT: '10', REVISION_MAX_AGE_DAYS: '30' });
+
+    expect(retention).toEqual({ maxCount: 10, maxAgeDays: 30 });
+  });
+
+  it('should allow 0 for unlimited and ignore invalid values', () => {
+    expect(loadRevisionRetention({ REVISION_MAX_COUNT: '0' }).maxCount).toBe(0);
+    expect(loadRevisionRetention({ REVISION_MAX_COUNT: '-5' }).maxCount).toBe(50);
+    expect(loadRevisionRetention({ REVISION_MAX_AGE_DAYS: 'week' }).maxAgeDays).toBe(0);
+  });
+});
+
+describe('unifiedDiff', () => {
+  it('should label the versions in the header', () => {
+    const diff = unifiedDiff(
+      { label: 'revision 1', content: 'one\ntwo\nthree\n' },
+      { label: 'current', content: 'one\n2\nthree\n' }
+    );
+
+    expect(diff).toBe([
+      '--- revision 1',
+      '+++ current',
+      '@@ -1,3 +1,3 @@',
+      ' one',
+      '-two',
+      '+2',
+      ' three',
+      ''
+    ].join('\n'));
+  });
+
+  it('should have no hunks for identical content', () => {
+    const diff = unifiedDiff({ label: 'revision 2', content: 'same' }, { label: 'current', content: 'same' });
+
+    expect(diff).not.toContain('@@');
+  });
+});
@@ -0,0 +1,115 @@
+import { DEFAULT_SANITIZE_POLICY, HtmlSanitizer, loadSanitizePolicy } from '../utils/sanitize';
+import { MarkdownRenderer } from '../utils/markdown';
+import { renderMath } from '../utils/math';
+
+describe('HtmlSanitizer', () => {
+  const sanitizer = new HtmlSanitizer();
+
+  it('should remove scripts, iframes and event handlers', () => {
+    const html = sanitizer.sanitize(
+      '<p onclick="steal()">Hi<script>alert(1)</script></p><iframe src="https://evil.example"></iframe><img src="x.png" onerror="alert(1)">'
+    );
+
+    expect(html).toBe('<p>Hi</p><img src="x.png">');
+  });
+
+  it('should remove dangerous URL schemes', () => {
+    const html = sanitizer.sanitize(
+      '<a href="javascript:alert(1)">a</a><a href=" JaVaScRiPt:alert(1)">b</a><a href="vbscript:x">c</a>'
+    );
+
+    expect(html).toBe('<a>a</a><a>b</a><a>c</a>');
+  });
+
+  it('should keep relative, http and mailto links', () => {
+    const html = sanitizer.sanitize(
+      '<a href="/abcdefgh">a</a><a href="#top">b</a><a href="https://example.com">c</a><a href="mailto:a@b.c">d</a>'
+    );
+
+    expect(html).toContain('href="/abcdefgh"');
+    expect(html).toContain('href="#top"');
+    expect(html).toContain('href="https://example.com"');
+    expect(html).toContain('href="mailto:a@b.c"');
+  });
+
+  it('should keep allowed formatting tags', () => {
+    const html = '<details open=""><summary>More</summary><kbd>Ctrl</kbd> x<sup>2</sup> H<sub>2</sub>O</details>';
+
+    expect(sanitizer.sanitize(html)).toBe(html);
+  });
+
+  it('should protect links that open a new tab', () => {
+    expect(sanitizer.sanitize('<a href="https://example.com" target="_blank">x</a>'))
+      .toBe('<a href="https://example.com" target="_blank" rel="noopener noreferrer">x</a>');
+  });
+
+  it('should only keep allowed style declarations', () => {
+    const html = sanitizer.sanitize(
+      '<span style="color: red; position: fixed; background-image: url(https://t.example/x.png)">a</span>' +
+      '<span style="width: expression(alert(1))">b</span>'
+    );
+
+    expect(html).toBe('<span style="color: red">a</span><span>b</span>');
+  });
+
+  it('should remove forms and style elements', () => {
+    expect(sanitizer.sanitize('<style>body{display:none}</style><form action="/x"><button>Go</button></form>'))
+      .toBe('Go');
+  });
+
+  it('should keep KaTeX output intact', () => {
+    const count = (html: string, pattern: RegExp) => (html.match(pattern) || []).length;
+
+    for (const tex of ['\\sqrt{x^2} + \\frac{a}{b}', '\\xrightarrow{f} \\cancel{x} \\color{red}{y}']) {
+      const html = renderMath(tex, true);
+      const sanitized = sanitizer.sanitize(html);
+
+      expect(sanitized).toContain('<math xmlns="http://www.w3.org/1998/Math/MathML" display="block">');
+      for (const pattern of [/<[a-z]+/g, /style="/g, /class="/g, /<path d="/g, /viewBox="/g]) {
+        expect(count(sanitized, pattern)).toBe(count(html, pattern));
+      }
+    }
+  });
+});
+
+describe('loadSanitizePolicy', () => {
+  it('should use the defaults without configuration', () => {
+    expect(loadSanitizePolicy({})).toEqual(DEFAULT_SANITIZE_POLICY);
+  });
+
+  it('should extend and restrict the defaults from the environment', () => {
+    const policy = loadSanitizePolicy({
+      SANITIZE_ALLOW_TAGS: 'iframe',
+      SANITIZE_ALLOW_ATTRIBUTES: 'allowfullscreen',
+      SANITIZE_FORBID_TAGS: 'img, video',
+      SANITIZE_URL_SCHEMES: 'https'
+    });
+    const sanitizer = new HtmlSanitizer(policy);
+
+    expect(sanitizer.sanitize('<iframe src="https://video.example/1" allowfullscreen=""></iframe>'))
+      .toBe('<iframe src="https://video.example/1" allowfullscreen=""></iframe>');
+    expect(sanitizer.sanitize('<img src="a.png"><a href="http://example.com">x</a>'))
+      .toBe('<a>x</a>');
+  });
+});
+
+describe('MarkdownRenderer sanitization', () => {
+  const renderer = new MarkdownRenderer();
+
+  it('should sanitize raw HTML in notes', () => {
+    const html = renderer.render('Hello <img src="a.png" onerror="alert(1)"> <script>alert(1)</script>\n\n<iframe src="https://x"></iframe>');
+
+    expect(html).not.toContain('onerror');
+    expect(html).not.toContain('<script');
+    expect(html).not.toContain('<iframe');
+  });
+
+  it('should keep rendered Obsidian syntax', () => {
+    const html = renderer.render('> [!note] Title\n> ==marked== [[Missing]]\n\n- [x] done');
+
+    expect(html).toContain('<div class="callout" data-callout="note">');
+    expect(html).toContain('<mark>marked</mark>');
+    expect(html).toContain('<span class="wikilink wikilink-unresolved" title="Missing">Missing</span>');
+    expect(html).toContain('checked=""');
+  });
+});
@@ -0,0 +1,53 @@
+import { buildSnippet, parseSearchQuery } from '../utils/search';
+
+describe('parseSearchQuery', () => {
+  it('should match terms of 3 or more characters with the index', () => {
+    expect(parseSearchQuery('  sqlite   全文搜索 ')).toEqual({
+      terms: ['sqlite', '全文搜索'],
+      match: '"sqlite" "全文搜索"',
+      like: []
+    });
+  });
+
+  it('should fall back to LIKE for shorter terms', () => {
+    const terms = parseSearchQuery('笔记 fts5 a%');
+
+    expect(terms.match).toBe('"fts5"');
+    expect(terms.like).toEqual(['%笔记%', '%a\\%%']);
+  });
+
+  it('should keep quotes and FTS5 syntax out of the query', () => {
+    const terms = parseSearchQuery('"foo" OR bar* NEAR(x)');
+
+    expect(terms.match).toBe('"foo" "bar*" "NEAR(x)"');
+    expect(terms.like).toEqual(['%OR%']);
+  });
+
+  it('should return no terms for a blank query', () => {
+    expect(parseSearchQuery('  " ').terms).toEqual([]);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('should highlight the terms', () => {
+    expect(buildSnippet('Full text search\nin SQLite', ['sqlite', 'text']))
+      .toBe('Full <mark>text</mark> search in <mark>SQLite</mark>');
+  });
+
+  it('should escape the content', () => {
+    expect(buildSnippet('<script>alert(1)</script>', ['alert']))
+      .toBe('&lt;script&gt;<mark>alert</mark>(1)&lt;/script&gt;');
+  });
+
+  it('should cut long content around the first match', () => {
+    const snippet = buildSnippet(`${'a '.repeat(100)}needle${' b'.repeat(100)}`, ['needle']);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('<mark>needle</mark>');
+  });
+
+  it('should start at the beginning when the content does not match', () => {
+    expect(buildSnippet('Only the title matched', ['missing'])).toBe('Only the title matched');
+  });
+});
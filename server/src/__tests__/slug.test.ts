@@ -0,0 +1,43 @@
+import { getPostPath, isReservedSlug, isValidPostKey, isValidSlug } from '../utils/slug';
+
+describe('isValidSlug', () => {
+  it('should accept lowercase words joined by hyphens', () => {
+    expect(isValidSlug('onboarding-guide')).toBe(true);
+    expect(isValidSlug('release-2024')).toBe(true);
+    expect(isValidSlug('abc')).toBe(true);
+  });
+
+  it('should reject other characters, hyphen runs and bad lengths', () => {
+    expect(isValidSlug('Onboarding')).toBe(false);
+    expect(isValidSlug('with space')).toBe(false);
+    expect(isValidSlug('double--hyphen')).toBe(false);
+    expect(isValidSlug('-leading')).toBe(false);
+    expect(isValidSlug('trailing-')).toBe(false);
+    expect(isValidSlug('入门指南')).toBe(false);
+    expect(isValidSlug('ab')).toBe(false);
+    expect(isValidSlug('a'.repeat(65))).toBe(false);
+  });
+});
+
+describe('isReservedSlug', () => {
+  it('should reserve the server routes', () => {
+    expect(isReservedSlug('health')).toBe(true);
+    expect(isReservedSlug('static')).toBe(true);
+    expect(isReservedSlug('onboarding-guide')).toBe(false);
+  });
+});
+
+describe('isValidPostKey', () => {
+  it('should accept post IDs and slugs', () => {
+    expect(isValidPostKey('Ab3dEf7h')).toBe(true);
+    expect(isValidPostKey('onboarding-guide')).toBe(true);
+    expect(isValidPostKey('../etc')).toBe(false);
+  });
+});
+
+describe('getPostPath', () => {
+  it('should prefer the slug over the ID', () => {
+    expect(getPostPath({ id: 'Ab3dEf7h', slug: 'onboarding-guide' })).toBe('/onboarding-guide');
+    expect(getPostPath({ id: 'Ab3dEf7h', slug: null })).toBe('/Ab3dEf7h');
+  });
+});
@@ -0,0 +1,244 @@
+import { ThemeRegistry, isValidThemeName } from '../utils/templates';
+import { MarkdownRenderer } from '../utils/markdown';
+import { PageRenderer } from '../utils/pages';
+import { DashboardRenderer } from '../utils/dashboard';
+import { AdminPostInfo, Post, StorageStats } from 'shared/types';
+import { createPost } from '../__fixtures__/posts';
+
+const createThemedPost = (overrides: Partial<Post> = {}): Post => createPost({
+  title: 'Themed note',
+  content: '```\nline 1\nline 2\n```',
+  ...overrides
+});
+
+describe('ThemeRegistry', () => {
+  const registry = new ThemeRegistry();
+
+  it('should list the bundled themes', async () => {
+    expect(await registry.listThemes()).toEqual(expect.arrayContaining(['dark', 'default', 'print']));
+  });
+
+  it('should only accept plain theme names', async () => {
+    expect(isValidThemeName('print')).toBe(true);
+    expect(isValidThemeName('../partials')).toBe(false);
+    expect(await registry.hasTheme('../partials')).toBe(false);
+    expect(await registry.hasTheme('missing')).toBe(false);
+    await expect(registry.getTemplate('../partials')).rejects.toThrow('Invalid theme name');
+  });
+
+  it('should escape variables by default', () => {
+    const template = registry.compile('<h1>{{title}}</h1>{{{content}}}');
+
+    expect(template({ title: '<script>x</script>', content: '<p>ok</p>' } as never))
+      .toBe('<h1>&lt;script&gt;x&lt;/script&gt;</h1><p>ok</p>');
+  });
+});
+
+describe('MarkdownRenderer themes', () => {
+  it('should render the default theme', async () => {
+    const html = await new MarkdownRenderer().renderToHtml(createThemedPost());
+
+    expect(html).toContain('@media (prefers-color-scheme: dark)');
+    expect(html).toContain('<h1>Themed note</h1>');
+  });
+
+  it('should render the theme stored with the post', async () => {
+    const renderer = new MarkdownRenderer();
+
+    expect(await renderer.renderToHtml(createThemedPost({ theme: 'dark' }))).toContain('<meta name="color-scheme" content="dark">');
+    expect(await renderer.renderToHtml(createThemedPost({ theme: 'print' }))).toContain('@page');
+  });
+
+  it('should use the configured default theme', async () => {
+    const html = await new MarkdownRenderer({ defaultTheme: 'print' }).renderToHtml(createThemedPost());
+
+    expect(html).toContain('@page');
+  });
+
+  it('should fall back to the default theme for unknown themes', async () => {
+    const html = await new MarkdownRenderer().renderToHtml(createThemedPost({ theme: 'missing' }));
+
+    expect(html).toContain('@media (prefers-color-scheme: dark)');
+  });
+
+  it('should fall back to the built-in template when themes cannot be loaded', async () => {
+    const renderer = new MarkdownRenderer({ themes: new ThemeRegistry('/nonexistent') });
+    const html = await renderer.renderToHtml(createThemedPost({ title: 'A & B' }));
+
+    expect(html).toContain('<title>A &amp; B</title>');
+    expect(html).toContain('<div class="content">');
+  });
+
+  it('should not indent code blocks in the content', async () => {
+    const html = await new MarkdownRenderer().renderToHtml(createThemedPost());
+
+    expect(html).toContain('line 1\nline 2\n</code></pre>');
+  });
+});
+
+describe('PageRenderer', () => {
+  it('should render the status page template', async () => {
+    const html = await new PageRenderer().renderStatusPage({ status: 410, title: 'Gone', message: 'A < B' });
+
+    expect(html).toContain('<meta name="robots" content="noindex">');
+    expect(html).toContain('<h1>Gone</h1>');
+    expect(html).toContain('<p>A &lt; B</p>');
+  });
+
+  it('should fall back to a plain page when templates cannot be loaded', async () => {
+    const renderer = new PageRenderer({ themes: new ThemeRegistry('/nonexistent') });
+    const html = await renderer.renderStatusPage({ status: 410, title: 'Gone', message: 'A < B' });
+
+    expect(html).toContain('<h1>Gone</h1><p>A &lt; B</p>');
+  });
+
+  it('should render the unlock form', async () => {
+    const renderer = new PageRenderer();
+    const html = await renderer.renderUnlockPage({ action: '/abcdefgh/unlock', error: 'Wrong password' });
+
+    expect(html).toContain('<form method="post" action="/abcdefgh/unlock">');
+    expect(html).toContain('type="password" name="password"');
+    expect(html).toContain('Wrong password');
+    expect(await renderer.renderUnlockPage({ action: '/abcdefgh/unlock' })).not.toContain('unlock-error"');
+  });
+
+  it('should list posts on the index page', async () => {
+    const renderer = new PageRenderer({ siteTitle: 'My notes' });
+    const html = await renderer.renderIndexPage([
+      createPost({ id: 'publicaa', title: 'Open', content: 'Visible excerpt' }),
+      createPost({ id: 'lockedaa', title: 'Closed', content: 'Hidden excerpt', password_hash: 'scrypt:a:b' })
+    ], { page: 1, totalPages: 1, baseUrl: 'https://example.com' });
+
+    expect(html).toContain('<title>My notes</title>');
+    expect(html).toContain('<link rel="canonical" href="https://example.com/">');
+    expect(html).toContain('<link rel="alternate" type="application/rss+xml" title="My notes" href="https://example.com/feed.xml">');
+    expect(html).toContain('<a href="/publicaa">Open</a>');
+    expect(html).toContain('Visible excerpt');
+    expect(html).toContain('<a href="/lockedaa">🔒 Closed</a>');
+    expect(html).not.toContain('Hidden excerpt');
+    expect(html).not.toContain('class="pagination"');
+  });
+
+  it('should link to the neighbouring index pages', async () => {
+    const html = await new PageRenderer().renderIndexPage([createPost()], { page: 2, totalPages: 3 });
+
+    expect(html).toContain('<a href="/">← 上一页</a>');
+    // Handlebars escapes "=" in attribute values, which browsers decode
+    expect(html).toContain('<a href="/?page&#x3D;3">下一页 →</a>');
+    expect(html).toContain('第 2 / 3 页');
+  });
+
+  it('should show search results with their snippets', async () => {
+    const html = await new PageRenderer({ siteTitle: 'My notes' }).renderSearchPage('a<b', [
+      { post: createPost({ id: 'matchaaa', title: 'Match' }), snippet: 'x <mark>a&lt;b</mark>' }
+    ], { page: 1, totalPages: 2, total: 21 });
+
+    expect(html).toContain('<title>搜索：a&lt;b - My notes</title>');
+    expect(html).toContain('name="q" value="a&lt;b"');
+    expect(html).toContain('<a href="/matchaaa">Match</a>');
+    expect(html).toContain('<p>x <mark>a&lt;b</mark></p>');
+    expect(html).toContain('找到 21 篇笔记');
+    expect(html).toContain('<a href="/search?q&#x3D;a%3Cb&amp;page&#x3D;2">下一页 →</a>');
+  });
+
+  it('should put a search box on the index page', async () => {
+    const html = await new PageRenderer().renderIndexPage([], { page: 1, totalPages: 1 });
+
+    expect(html).toContain('<form class="search-form" action="/search" method="get" role="search">');
+  });
+});
+
+describe('DashboardRenderer', () => {
+  it('should render the dashboard login form', async () => {
+    const renderer = new DashboardRenderer();
+    const html = await renderer.renderLoginPage('Token rejected');
+
+    expect(html).toContain('<form method="post" action="/admin/dashboard/login">');
+    expect(html).toContain('type="password" name="token"');
+    expect(html).toContain('Token rejected');
+    expect(html).not.toContain('<script');
+  });
+
+  const stats: StorageStats = {
+    posts: {
+      total: 3, public: 1, unlisted: 1, private: 1, password_protected: 0,
+      expiring: 0, disabled: 1, content_bytes: 2048
+    },
+    assets: { count: 2, bytes: 3 * 1024 * 1024 },
+    revisions: { count: 0, bytes: 0 },
+    expired_posts: 0,
+    database_bytes: 5000
+  };
+
+  const createAdminPost = (overrides: Partial<AdminPostInfo> = {}): AdminPostInfo => ({
+    id: 'abcdefgh',
+    slug: null,
+    title: 'Listed note',
+    visibility: 'public',
+    owner_id: null,
+    owner_name: null,
+    size: 100,
+    asset_count: 0,
+    asset_size: 0,
+    revision: 1,
+    revision_count: 0,
+    password_protected: false,
+    expires_at: null,
+    disabled_at: null,
+    disabled_reason: null,
+    created_at: '2024-01-01 00:00:00',
+    updated_at: '2024-01-01 00:00:00',
+    ...overrides
+  });
+
+  const render = (posts: AdminPostInfo[], page = 1, totalPages = 1) => new DashboardRenderer().renderDashboardPage({
+    user: 'alice',
+    notice: 'Done',
+    stats,
+    metrics: {
+      started_at: '2024-01-01T00:00:00.000Z',
+      uptime_seconds: 90061,
+      errors: 4,
+      warnings: 7,
+      rate_limit_hits: { public: 12 }
+    },
+    posts,
+    query: 'a<b',
+    total: posts.length
+  }, { page, totalPages });
+
+  it('should show storage and server figures', async () => {
+    const html = await render([]);
+
+    expect(html).toContain('<dt>正文</dt><dd>2.0 KB</dd>');
+    expect(html).toContain('<dt>附件</dt><dd>2 个，3.0 MB</dd>');
+    expect(html).toContain('<dt>数据库</dt><dd>4.9 KB</dd>');
+    expect(html).toContain('<dt>运行时间</dt><dd>1 天 1 小时</dd>');
+    expect(html).toContain('<dt>错误日志</dt><dd>4</dd>');
+    expect(html).toContain('<dt>限流（public）</dt><dd>12</dd>');
+    expect(html).toContain('<p class="dashboard-notice" role="status">Done</p>');
+    expect(html).toContain('name="q" value="a&lt;b"');
+  });
+
+  it('should offer to disable, enable and delete posts without scripts', async () => {
+    const html = await render([
+      createAdminPost({ id: 'activeaa', title: '<i>Active</i>' }),
+      createAdminPost({ id: 'disabled', disabled_at: '2024-01-02 00:00:00', disabled_reason: 'Spam' })
+    ]);
+
+    expect(html).toContain('&lt;i&gt;Active&lt;/i&gt;');
+    expect(html).toContain('action="/admin/dashboard/posts/activeaa/disable"');
+    expect(html).toContain('action="/admin/dashboard/posts/disabled/enable"');
+    expect(html).toContain('已停用：Spam');
+    expect(html).toContain('action="/admin/dashboard/posts/activeaa/delete"');
+    expect(html).toContain('name="confirm" value="yes" required');
+    expect(html).not.toContain('<script');
+  });
+
+  it('should keep the filter in the page links', async () => {
+    const html = await render([createAdminPost()], 2, 3);
+
+    expect(html).toContain('<a href="/admin/dashboard?page&#x3D;3&amp;q&#x3D;a%3Cb">下一页 →</a>');
+    expect(html).toContain('<input type="hidden" name="page" value="2">');
+  });
+});
@@ -0,0 +1,48 @@
+import express from 'express';
+import request from 'supertest';
+import { getBaseUrl, loadTrustProxy } from '../utils/url';
+
+describe('loadTrustProxy', () => {
+  it('should trust no proxy by default', () => {
+    expect(loadTrustProxy({})).toBe(false);
+    expect(loadTrustProxy({ TRUST_PROXY: ' ' })).toBe(false);
+    expect(loadTrustProxy({ TRUST_PROXY: 'false' })).toBe(false);
+  });
+
+  it('should read hop counts, true and address lists', () => {
+    expect(loadTrustProxy({ TRUST_PROXY: '1' })).toBe(1);
+    expect(loadTrustProxy({ TRUST_PROXY: 'TRUE' })).toBe(true);
+    expect(loadTrustProxy({ TRUST_PROXY: ' loopback, 172.20.0.0/16 ' })).toBe('loopback, 172.20.0.0/16');
+  });
+});
+
+describe('requests behind a proxy', () => {
+  const createApp = (trustProxy: boolean | number | string): express.Express => {
+    const app = express();
+    app.set('trust proxy', trustProxy);
+    app.get('/', (req, res) => {
+      res.json({ ip: req.ip, secure: req.secure, baseUrl: getBaseUrl(req) });
+    });
+    return app;
+  };
+
+  const forwarded = (app: express.Express) => request(app)
+    .get('/')
+    .set('Host', 'notes.test')
+    .set('X-Forwarded-For', '198.51.100.7, 203.0.113.1')
+    .set('X-Forwarded-Proto', 'https');
+
+  it('should use the forwarded client IP and protocol of trusted proxies', async () => {
+    const response = await forwarded(createApp(loadTrustProxy({ TRUST_PROXY: '1' })));
+
+    expect(response.body).toEqual({ ip: '203.0.113.1', secure: true, baseUrl: 'https://notes.test' });
+  });
+
+  it('should ignore forwarded headers without TRUST_PROXY', async () => {
+    const response = await forwarded(createApp(loadTrustProxy({})));
+
+    expect(response.body.ip).not.toBe('203.0.113.1');
+    expect(response.body.secure).toBe(false);
+    expect(response.body.baseUrl).toBe('http://notes.test');
+  });
+});
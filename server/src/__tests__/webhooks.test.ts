@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  generateWebhookSecret,
+  isWebhookEvent,
+  parseEvents,
+  postJson,
+  retryDelay,
+  signPayload,
+  WEBHOOK_EVENTS
+} from '../utils/webhooks';
+
+describe('parseEvents', () => {
+  it('should subscribe to all events when none are stored', () => {
+    expect(parseEvents(null)).toEqual(WEBHOOK_EVENTS);
+  });
+
+  it('should read the stored events and drop unknown ones', () => {
+    expect(parseEvents('post.deleted post.created post.moved')).toEqual(['post.created', 'post.deleted']);
+  });
+});
+
+describe('isWebhookEvent', () => {
+  it('should only accept known events', () => {
+    expect(isWebhookEvent('post.updated')).toBe(true);
+    expect(isWebhookEvent('post.moved')).toBe(false);
+    expect(isWebhookEvent(undefined)).toBe(false);
+  });
+});
+
+describe('generateWebhookSecret', () => {
+  it('should generate different prefixed secrets', () => {
+    const secret = generateWebhookSecret();
+
+    expect(secret).toMatch(/^whsec_[A-Za-z0-9_-]{43}$/);
+    expect(generateWebhookSecret()).not.toBe(secret);
+  });
+});
+
+describe('signPayload', () => {
+  it('should sign the body with HMAC-SHA256', () => {
+    const body = '{"event":"post.created"}';
+    const expected = crypto.createHmac('sha256', 'whsec_test').update(body).digest('hex');
+
+    expect(signPayload(body, 'whsec_test')).toBe(`sha256=${expected}`);
+  });
+
+  it('should depend on the secret', () => {
+    expect(signPayload('{}', 'whsec_a')).not.toBe(signPayload('{}', 'whsec_b'));
+  });
+});
+
+describe('retryDelay', () => {
+  it('should double the delay after every failed attempt', () => {
+    expect(retryDelay(1)).toBe(60 * 1000);
+    expect(retryDelay(2)).toBe(2 * 60 * 1000);
+    expect(retryDelay(5)).toBe(16 * 60 * 1000);
+  });
+
+  it('should not exceed 6 hours', () => {
+    expect(retryDelay(20)).toBe(6 * 60 * 60 * 1000);
+  });
+});
+
+describe('postJson', () => {
+  let server: http.Server;
+  let url: string;
+  let received: { headers: http.IncomingHttpHeaders; body: string } | null;
+  let status: number;
+  let delay: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        received = { headers: req.headers, body };
+        setTimeout(() => res.writeHead(status).end('ok'), delay);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = null;
+    status = 200;
+    delay = 0;
+  });
+
+  it('should send the body as JSON with the given headers', async () => {
+    const result = await postJson(url, '{"a":1}', { 'X-Webhook-Event': 'post.created' }, 1000);
+
+    expect(result).toBe(200);
+    expect(received?.body).toBe('{"a":1}');
+    expect(received?.headers['content-type']).toBe('application/json');
+    expect(received?.headers['x-webhook-event']).toBe('post.created');
+  });
+
+  it('should resolve with error statuses', async () => {
+    status = 500;
+
+    await expect(postJson(url, '{}', {}, 1000)).resolves.toBe(500);
+  });
+
+  it('should reject when there is no response in time', async () => {
+    delay = 500;
+
+    await expect(postJson(url, '{}', {}, 50)).rejects.toThrow('No response within 50ms');
+  });
+});
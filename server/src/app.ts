@@ -1,12 +1,26 @@
 import express from 'express';
 import cors from 'cors';
+import cookieParser from 'cookie-parser';
 import helmet from 'helmet';
 import path from 'path';
 import { postsRouter } from './routes/posts';
+import { homeRouter } from './routes/home';
+import { searchRouter } from './routes/search';
+import { feedRouter } from './routes/feed';
+import { assetsRouter } from './routes/assets';
+import { revisionsRouter } from './routes/revisions';
+import { statsRouter } from './routes/stats';
+import { adminRouter } from './routes/admin';
+import { dashboardRouter } from './routes/dashboard';
 import { errorHandler } from './middleware/errorHandler';
+import { loadCookieSecret } from './middleware/postPassword';
 import { logger, loggerMiddleware } from './middleware/logger';
-import { publicRateLimiter, apiRateLimiter } from './middleware/rateLimiter';
+import { publicRateLimiter, apiRateLimiter, assetRateLimiter } from './middleware/rateLimiter';
 import { Database } from './models/database';
+import { KATEX_ASSETS_DIR } from './utils/math';
+import { ExpiredPostCleanup } from './utils/expiry';
+import { WebhookDispatcher } from './utils/webhookDispatcher';
+import { loadTrustProxy } from './utils/url';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -14,6 +28,10 @@ const PORT = process.env.PORT || 3000;
 // Initialize database
 const db = Database.getInstance();
 
+// Behind a reverse proxy, take the client IP and protocol from X-Forwarded-*
+// (rate limits, view counts, secure cookies and derived URLs depend on them)
+app.set('trust proxy', loadTrustProxy());
+
 // Security middleware
 app.use(helmet({
   contentSecurityPolicy: {
@@ -44,16 +62,22 @@ app.use(cors({
     'Cache-Control',
     'X-Real-IP',
     'X-Forwarded-For',
-    'X-Forwarded-Proto'
+    'X-Forwarded-Proto',
+    'X-Post-Secret',
+    'X-Post-Password',
+    'If-Match'
   ],
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  exposedHeaders: ['Content-Length', 'X-Kuma-Revision']
+  exposedHeaders: ['Content-Length', 'X-Kuma-Revision', 'ETag']
 }));
 
 // Body parsing middleware
 app.use(express.json({ limit: '1mb' }));
 app.use(express.urlencoded({ extended: true }));
 
+// Signed cookies remember unlocked password-protected posts
+app.use(cookieParser(loadCookieSecret()));
+
 // Logging middleware
 app.use(loggerMiddleware);
 
@@ -66,16 +90,25 @@ app.get('/health', (req, res) => {
   });
 });
 
+// Static assets for rendered pages (KaTeX stylesheet and fonts), served from our own origin
+app.use('/static/katex', express.static(KATEX_ASSETS_DIR, { maxAge: '30d', immutable: true }));
+
 // Rate limiting middleware
 // Apply public rate limiting to all GET requests (reading posts)
+// Embedded assets are counted separately so a page with many images is not throttled
 app.use('/:id', (req, res, next) => {
-  if (req.method === 'GET') {
-    publicRateLimiter(req, res, next);
-  } else {
+  if (req.method !== 'GET') {
     next();
+  } else if (req.path.startsWith('/assets/')) {
+    assetRateLimiter(req, res, next);
+  } else {
+    publicRateLimiter(req, res, next);
   }
 });
 
+// The home page counts as reading posts
+app.get('/', publicRateLimiter);
+
 // Apply API rate limiting to authenticated routes
 app.use('/', (req, res, next) => {
   if (['POST', 'PUT', 'DELETE'].includes(req.method)) {
@@ -86,6 +119,14 @@ app.use('/', (req, res, next) => {
 });
 
 // API routes
+app.use('/admin/dashboard', dashboardRouter);
+app.use('/admin', adminRouter);
+app.use('/', homeRouter);
+app.use('/', searchRouter);
+app.use('/', feedRouter);
+app.use('/', assetsRouter);
+app.use('/', revisionsRouter);
+app.use('/', statsRouter);
 app.use('/', postsRouter);
 
 // Error handling middleware (must be last)
@@ -99,9 +140,19 @@ const server = app.listen(PORT, () => {
   });
 });
 
+// Delete expired posts in the background
+const expiredPostCleanup = new ExpiredPostCleanup();
+expiredPostCleanup.start();
+
+// Send queued webhook deliveries and retry failed ones
+const webhookDispatcher = WebhookDispatcher.getInstance();
+webhookDispatcher.start();
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  expiredPostCleanup.stop();
+  webhookDispatcher.stop();
   server.close(() => {
     db.close();
     process.exit(0);
@@ -110,6 +161,8 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
+  expiredPostCleanup.stop();
+  webhookDispatcher.stop();
   server.close(() => {
     db.close();
     process.exit(0);
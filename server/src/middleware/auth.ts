@@ -1,30 +1,98 @@
 import { Request, Response, NextFunction } from 'express';
 import { logger } from './logger';
 import crypto from 'crypto';
+import { ApiTokenModel } from '../models/apiToken';
+import { hashApiToken, isUserToken, TOKEN_SCOPES } from '../utils/apiToken';
+import { Post, TokenScope, UserRole } from 'shared/types';
 
-// Extend Express Request interface to include auth info
+// The user a request is authenticated as
+export interface AuthUser {
+  id: number | null;  // null for the bootstrap API_TOKEN
+  name: string;
+  role: UserRole;
+}
+
+// Extend Express Request interface to include auth info and the authorized post
 declare global {
   namespace Express {
     interface Request {
       auth?: {
         tokenValid: boolean;
         tokenHash?: string;
+        tokenId?: number | null;  // Token record, null for the bootstrap API_TOKEN
+        user?: AuthUser;
+        scopes?: TokenScope[];
       };
+      post?: Post;
     }
   }
 }
 
+// A valid bearer token: who it belongs to and what it may do
+export interface AuthResult {
+  tokenId: number | null;
+  user: AuthUser;
+  scopes: TokenScope[];
+}
+
+// The env API_TOKEN is an admin without a user record, so it can create the first users
+const BOOTSTRAP_USER: AuthUser = { id: null, name: 'admin', role: 'admin' };
+
+// Created on first use, so the env API_TOKEN works without opening the database
+let apiTokenModel: ApiTokenModel | null = null;
+const getApiTokenModel = (): ApiTokenModel => {
+  if (!apiTokenModel) {
+    apiTokenModel = new ApiTokenModel();
+  }
+  return apiTokenModel;
+};
+
+/**
+ * Check a bearer token: a user account token, or the env API_TOKEN with every scope
+ *
+ * Revoked and expired account tokens are rejected.
+ */
+export async function authenticateToken(token: string): Promise<AuthResult | null> {
+  if (isUserToken(token)) {
+    const result = await getApiTokenModel().authenticate(token);
+    return result ? { tokenId: result.id, user: result.user, scopes: result.scopes } : null;
+  }
+  return validateApiToken(token) ? { tokenId: null, user: BOOTSTRAP_USER, scopes: [...TOKEN_SCOPES] } : null;
+}
+
+/**
+ * Like authenticateToken, by the hash of the token (see hashApiToken)
+ *
+ * For sessions that keep the hash instead of the token itself.
+ */
+export async function authenticateTokenHash(tokenHash: string): Promise<AuthResult | null> {
+  const result = await getApiTokenModel().authenticateHash(tokenHash);
+  if (result) {
+    return { tokenId: result.id, user: result.user, scopes: result.scopes };
+  }
+
+  // The env API_TOKEN may have changed since the hash was taken
+  const apiToken = process.env.API_TOKEN;
+  const matchesApiToken = !!apiToken && crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(hashApiToken(apiToken)).digest(),
+    crypto.createHash('sha256').update(tokenHash).digest()
+  );
+  return matchesApiToken ? { tokenId: null, user: BOOTSTRAP_USER, scopes: [...TOKEN_SCOPES] } : null;
+}
+
 /**
  * API Token Authentication Middleware
  * 
- * Validates the Authorization header against the configured API_TOKEN environment variable.
+ * Validates the Authorization header against the tokens of user accounts, or
+ * the configured API_TOKEN environment variable for the bootstrap admin.
  * Implements security best practices including timing attack prevention and secure logging.
  */
-export function requireApiToken(req: Request, res: Response, next: NextFunction) {
+export async function requireApiToken(req: Request, res: Response, next: NextFunction) {
   const apiToken = process.env.API_TOKEN;
-  
-  // Check if API_TOKEN is configured
-  if (!apiToken) {
+  const tokenMatch = req.headers.authorization?.match(/^Bearer\s+(.+)$/);
+
+  // Check if API_TOKEN is configured, user account tokens work without it
+  if (!apiToken && !(tokenMatch && isUserToken(tokenMatch[1]))) {
     logger.error('API_TOKEN environment variable not configured');
     return res.status(500).json({
       error: {
@@ -53,7 +121,6 @@ export function requireApiToken(req: Request, res: Response, next: NextFunction)
   }
 
   // Parse Bearer token
-  const tokenMatch = authHeader.match(/^Bearer\s+(.+)$/);
   if (!tokenMatch) {
     logger.warn('Invalid Authorization header format', {
       ip: req.ip,
@@ -72,21 +139,14 @@ export function requireApiToken(req: Request, res: Response, next: NextFunction)
 
   const providedToken = tokenMatch[1];
 
-  // Constant-time comparison to prevent timing attacks
-  const providedTokenBuffer = Buffer.from(providedToken, 'utf8');
-  const expectedTokenBuffer = Buffer.from(apiToken, 'utf8');
-  
-  let isValid = providedTokenBuffer.length === expectedTokenBuffer.length;
-  
-  // Compare all bytes even if lengths differ to prevent timing attacks
-  const maxLength = Math.max(providedTokenBuffer.length, expectedTokenBuffer.length);
-  for (let i = 0; i < maxLength; i++) {
-    const a = i < providedTokenBuffer.length ? providedTokenBuffer[i] : 0;
-    const b = i < expectedTokenBuffer.length ? expectedTokenBuffer[i] : 0;
-    isValid = isValid && (a === b);
+  let result: AuthResult | null;
+  try {
+    result = await authenticateToken(providedToken);
+  } catch (error) {
+    return next(error);
   }
 
-  if (!isValid) {
+  if (!result) {
     // Create hash for logging (never log actual tokens)
     const tokenHash = crypto.createHash('sha256')
       .update(providedToken)
@@ -116,9 +176,13 @@ export function requireApiToken(req: Request, res: Response, next: NextFunction)
     .digest('hex')
     .substring(0, 8);
 
+  const { tokenId, user, scopes } = result;
   req.auth = {
     tokenValid: true,
-    tokenHash: validTokenHash
+    tokenHash: validTokenHash,
+    tokenId,
+    user,
+    scopes
   };
 
   logger.info('API authentication successful', {
@@ -127,12 +191,67 @@ export function requireApiToken(req: Request, res: Response, next: NextFunction)
     endpoint: req.path,
     method: req.method,
     tokenHash: validTokenHash,
+    user: user.name,
     authResult: 'success'
   });
 
   next();
 }
 
+/**
+ * Scope Middleware Factory
+ *
+ * Use after requireApiToken. Rejects tokens that were not granted the scope.
+ */
+export function requireScope(scope: TokenScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.auth?.scopes?.includes(scope)) {
+      logger.warn('API token lacks the required scope', {
+        ip: req.ip,
+        endpoint: req.path,
+        method: req.method,
+        user: req.auth?.user?.name,
+        scope
+      });
+
+      return res.status(403).json({
+        error: {
+          message: `Token does not have the ${scope} scope`,
+          code: 'INSUFFICIENT_SCOPE'
+        }
+      });
+    }
+
+    next();
+  };
+}
+
+/**
+ * Admin Middleware
+ *
+ * Use after requireApiToken. Only admins (including the env API_TOKEN) using
+ * a token with the admin scope may pass.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (req.auth?.user?.role !== 'admin' || !req.auth.scopes?.includes('admin')) {
+    logger.warn('Admin endpoint requested by non-admin user', {
+      ip: req.ip,
+      endpoint: req.path,
+      method: req.method,
+      user: req.auth?.user?.name
+    });
+
+    return res.status(403).json({
+      error: {
+        message: 'Admin access required',
+        code: 'ADMIN_REQUIRED'
+      }
+    });
+  }
+
+  next();
+}
+
 /**
  * Optional API Token Middleware
  * 
@@ -165,20 +284,11 @@ export function validateApiToken(token: string): boolean {
     return false;
   }
 
-  // Constant-time comparison
-  const providedBuffer = Buffer.from(token, 'utf8');
-  const expectedBuffer = Buffer.from(apiToken, 'utf8');
-  
-  if (providedBuffer.length !== expectedBuffer.length) {
-    return false;
-  }
-
-  let isValid = true;
-  for (let i = 0; i < providedBuffer.length; i++) {
-    isValid = isValid && (providedBuffer[i] === expectedBuffer[i]);
-  }
+  // Constant-time comparison of equal-length digests, so the token length does not leak either
+  const providedDigest = crypto.createHash('sha256').update(token).digest();
+  const expectedDigest = crypto.createHash('sha256').update(apiToken).digest();
 
-  return isValid;
+  return crypto.timingSafeEqual(providedDigest, expectedDigest);
 }
 
 /**
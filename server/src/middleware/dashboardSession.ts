@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from 'express';
+import { authenticateTokenHash, AuthResult } from './auth';
+import { logger } from './logger';
+import { DashboardSessionModel } from '../models/dashboardSession';
+import { hashApiToken } from '../utils/apiToken';
+
+export const DASHBOARD_PATH = '/admin/dashboard';
+
+const SESSION_COOKIE = 'admin_session';
+const SESSION_MAX_AGE = 12 * 60 * 60 * 1000; // 12 hours
+
+const sessionModel = new DashboardSessionModel();
+
+/**
+ * Whether a token may open the dashboard: an admin with the admin scope, like requireAdmin
+ */
+export function isDashboardAdmin(result: AuthResult | null): result is AuthResult {
+  return !!result && result.user.role === 'admin' && result.scopes.includes('admin');
+}
+
+/**
+ * Start a session after the login form, its ID goes in a signed cookie only sent to the dashboard
+ *
+ * The admin token itself stays out of the browser. SameSite=Strict keeps
+ * other sites from posting the dashboard forms.
+ */
+export async function startSession(req: Request, res: Response, token: string): Promise<void> {
+  const id = await sessionModel.create(hashApiToken(token), SESSION_MAX_AGE);
+  res.cookie(SESSION_COOKIE, id, {
+    signed: true,
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: req.secure,
+    path: DASHBOARD_PATH,
+    maxAge: SESSION_MAX_AGE
+  });
+}
+
+/**
+ * End the session of the request, if any, and clear its cookie
+ */
+export async function endSession(req: Request, res: Response): Promise<void> {
+  const id = req.signedCookies?.[SESSION_COOKIE];
+  if (typeof id === 'string') {
+    await sessionModel.delete(id);
+  }
+  res.clearCookie(SESSION_COOKIE, { path: DASHBOARD_PATH });
+}
+
+/**
+ * Dashboard Session Middleware
+ *
+ * The token the session was started with is checked on every request, so
+ * revoking it or taking the admin role away ends the session. Without a
+ * valid session the browser is sent to the login form.
+ */
+export async function requireDashboardSession(req: Request, res: Response, next: NextFunction) {
+  const id = req.signedCookies?.[SESSION_COOKIE];
+
+  let tokenHash: string | null = null;
+  let result: AuthResult | null = null;
+  try {
+    tokenHash = typeof id === 'string' ? await sessionModel.findTokenHash(id) : null;
+    result = tokenHash ? await authenticateTokenHash(tokenHash) : null;
+
+    if (!isDashboardAdmin(result)) {
+      if (id !== undefined) {
+        logger.warn('Dashboard session no longer valid', { ip: req.ip, endpoint: req.path });
+        await endSession(req, res);
+      }
+      return res.redirect(303, `${DASHBOARD_PATH}/login`);
+    }
+  } catch (error) {
+    return next(error);
+  }
+
+  const { tokenId, user, scopes } = result;
+  req.auth = {
+    tokenValid: true,
+    tokenHash: (tokenHash as string).substring(0, 8),
+    tokenId,
+    user,
+    scopes
+  };
+
+  next();
+}
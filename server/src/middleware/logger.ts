@@ -1,10 +1,18 @@
 import winston from 'winston';
 import { Request, Response, NextFunction } from 'express';
+import { recordLogEntry } from '../utils/metrics';
+
+// Counts errors and warnings for the admin dashboard, passing every entry on
+const countEntries = winston.format((info) => {
+  recordLogEntry(info.level);
+  return info;
+});
 
 // Create winston logger
 export const logger = winston.createLogger({
   level: process.env.LOG_LEVEL || 'info',
   format: winston.format.combine(
+    countEntries(),
     winston.format.timestamp(),
     winston.format.errors({ stack: true }),
     winston.format.json()
@@ -0,0 +1,105 @@
+import { Request, Response, NextFunction } from 'express';
+import { PostModel, PostWriteResult } from '../models/post';
+import { IDGenerator } from '../utils/idGenerator';
+import { revisionETag } from '../utils/etag';
+import { createError } from './errorHandler';
+import { AuthUser, authenticateToken } from './auth';
+import { Post } from 'shared/types';
+
+const postModel = new PostModel();
+
+/**
+ * Read the post secret from the request body or the X-Post-Secret header
+ *
+ * Requests without a JSON body (GET, binary uploads) send the secret as a header.
+ */
+export function getPostSecret(req: Request): string | undefined {
+  const bodySecret = req.body && typeof req.body === 'object' && !Buffer.isBuffer(req.body)
+    ? req.body.secret
+    : undefined;
+  return bodySecret || req.get('X-Post-Secret') || undefined;
+}
+
+/**
+ * Check if a user may manage a post: admins manage every post, users their own
+ */
+export function canManagePost(user: AuthUser | undefined, post: Post): boolean {
+  if (!user) {
+    return false;
+  }
+  return user.role === 'admin' || (user.id !== null && post.owner_id === user.id);
+}
+
+/**
+ * Check if the request may see a private post: it carries the post secret,
+ * or the API token of the owner or an admin
+ */
+export async function hasPostAccess(req: Request, post: Post): Promise<boolean> {
+  const secret = getPostSecret(req);
+  if (secret && IDGenerator.verifySecret(secret, post.secret)) {
+    return true;
+  }
+
+  const tokenMatch = req.headers.authorization?.match(/^Bearer\s+(.+)$/);
+  if (!tokenMatch) {
+    return false;
+  }
+  const result = await authenticateToken(tokenMatch[1]);
+  return canManagePost(result?.user, post);
+}
+
+/**
+ * Post Secret Middleware
+ *
+ * Loads the post from the `:id` route parameter and verifies the post secret
+ * and that the authenticated user may manage it. Use after requireApiToken.
+ * The authorized post is available as `req.post`.
+ */
+export async function requirePostSecret(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+    const secret = getPostSecret(req);
+
+    if (!IDGenerator.isValidFormat(id)) {
+      throw createError('Invalid post ID format', 400);
+    }
+
+    if (!secret || !IDGenerator.isValidSecret(secret)) {
+      throw createError('Invalid secret format', 400);
+    }
+
+    const post = await postModel.findByIdAndSecret(id, secret);
+    if (!post) {
+      throw createError('Post not found or invalid secret', 401);
+    }
+
+    if (!canManagePost(req.auth?.user, post)) {
+      throw createError('Post belongs to another user', 403);
+    }
+
+    req.post = post;
+    next();
+
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Turn a failed conditional write into an error
+ *
+ * A conflict means the post has changed since the expected revision; it is
+ * rejected with 412 and the current ETag.
+ */
+export async function checkWriteResult(result: PostWriteResult, res: Response, id: string): Promise<void> {
+  if (result === 'ok') {
+    return;
+  }
+
+  const post = result === 'conflict' ? await postModel.findById(id) : null;
+  if (!post) {
+    throw createError('Post not found or invalid secret', 401);
+  }
+  res.setHeader('ETag', revisionETag(post));
+  throw createError(`Post has changed, the current revision is ${post.revision ?? 1}`, 412, 'REVISION_CONFLICT');
+}
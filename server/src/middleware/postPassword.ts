@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import rateLimit from 'express-rate-limit';
+import { Request, Response, NextFunction } from 'express';
+import { Post } from 'shared/types';
+import { passwordFingerprint } from '../utils/password';
+import { PageRenderer } from '../utils/pages';
+import { logger } from './logger';
+
+const UNLOCK_COOKIE_PREFIX = 'unlock_';
+const UNLOCK_COOKIE_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+const ATTEMPT_WINDOW_MS = 60 * 60 * 1000; // 1 hour
+const ATTEMPT_LIMIT = 5; // Failed password attempts per window per IP
+
+const pageRenderer = new PageRenderer();
+
+/**
+ * Secret for signing cookies, from COOKIE_SECRET
+ *
+ * Without it a random secret is used, so unlocked posts lock again when the
+ * server restarts.
+ */
+export function loadCookieSecret(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.COOKIE_SECRET) {
+    return env.COOKIE_SECRET;
+  }
+  logger.warn('COOKIE_SECRET not configured, unlock cookies will not survive a restart');
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Check if the request carries a valid unlock cookie for a protected post
+ *
+ * Posts without a password are always unlocked.
+ */
+export function isPostUnlocked(req: Request, post: Post): boolean {
+  if (!post.password_hash) {
+    return true;
+  }
+  const cookie = req.signedCookies?.[`${UNLOCK_COOKIE_PREFIX}${post.id}`];
+  return cookie === passwordFingerprint(post.password_hash);
+}
+
+/**
+ * Set the signed unlock cookie after the password was entered
+ *
+ * The cookie is scoped to the post's ID path, which also covers its assets,
+ * and to its slug path if it has one.
+ */
+export function setUnlockCookie(req: Request, res: Response, post: Post): void {
+  if (!post.password_hash) {
+    return;
+  }
+  const paths = post.slug ? [`/${post.id}`, `/${post.slug}`] : [`/${post.id}`];
+  for (const path of paths) {
+    res.cookie(`${UNLOCK_COOKIE_PREFIX}${post.id}`, passwordFingerprint(post.password_hash), {
+      signed: true,
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: req.secure,
+      path,
+      maxAge: UNLOCK_COOKIE_MAX_AGE
+    });
+  }
+}
+
+/**
+ * Read a viewer password from the form body or the X-Post-Password header
+ */
+export function getPostPassword(req: Request): string | undefined {
+  const bodyPassword = req.body && typeof req.body === 'object' ? req.body.password : undefined;
+  const password = bodyPassword ?? req.get('X-Post-Password');
+  return typeof password === 'string' ? password : undefined;
+}
+
+/**
+ * Answer once the failed attempts are used up: the unlock form with an error, or a JSON error
+ */
+async function sendTooManyAttempts(req: Request, res: Response): Promise<void> {
+  logger.error('Post password rate limit exceeded', {
+    ip: req.ip,
+    userAgent: req.get('User-Agent'),
+    endpoint: req.path,
+    limit: ATTEMPT_LIMIT,
+    windowMs: ATTEMPT_WINDOW_MS
+  });
+
+  if (req.headers.accept?.includes('application/json')) {
+    res.status(429).json({
+      error: {
+        message: 'Too many password attempts from this IP address. Please try again later.',
+        code: 'PASSWORD_RATE_LIMIT_EXCEEDED',
+        retryAfter: ATTEMPT_WINDOW_MS / 1000 // seconds
+      }
+    });
+    return;
+  }
+
+  const html = await pageRenderer.renderUnlockPage({
+    action: `/${req.params.id}/unlock`,
+    error: '尝试次数过多，请稍后再试。'
+  });
+  res.status(429).setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store');
+  res.send(html);
+}
+
+// Only failed attempts (4xx responses) count
+const passwordAttemptLimiter = rateLimit({
+  windowMs: ATTEMPT_WINDOW_MS,
+  max: ATTEMPT_LIMIT,
+  skipSuccessfulRequests: true,
+  handler: (req: Request, res: Response, next: NextFunction) => {
+    sendTooManyAttempts(req, res).catch(next);
+  }
+});
+
+/**
+ * Brute-force protection for requests that try a viewer password
+ *
+ * Browsers get the unlock form back with a "too many attempts" error, API
+ * clients a JSON error, both with status 429. Requests without a password
+ * are not limited here.
+ */
+export function limitPasswordAttempts(req: Request, res: Response, next: NextFunction) {
+  if (getPostPassword(req) === undefined) {
+    return next();
+  }
+  return passwordAttemptLimiter(req, res, next);
+}
@@ -1,8 +1,9 @@
-import rateLimit from 'express-rate-limit';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
 import { Request, Response } from 'express';
 import crypto from 'crypto';
 import { logger } from './logger';
 import { createTokenHash } from './auth';
+import { recordRateLimitHit } from '../utils/metrics';
 
 // Rate limiting configurations
 const WINDOW_MS = 15 * 60 * 1000; // 15 minutes
@@ -25,6 +26,7 @@ export const publicRateLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
   handler: (req: Request, res: Response) => {
+    recordRateLimitHit('public');
     logger.warn('Rate limit exceeded for public endpoint', {
       ip: req.ip,
       userAgent: req.get('User-Agent'),
@@ -60,7 +62,8 @@ export const apiRateLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
   
-  // Generate key based on token hash + IP for better tracking
+  // Key on the token, so every API token (user account tokens and API_TOKEN)
+  // has its own budget. A revoked token is rejected by requireApiToken.
   keyGenerator: (req: Request): string => {
     const authHeader = req.headers.authorization;
     
@@ -74,9 +77,9 @@ export const apiRateLimiter = rateLimit({
       }
     }
     
-    // Fallback to IP-based limiting if no valid token
-    // Use the default behavior for IP handling
-    return `api_ip_${req.ip}`;
+    // Fallback to IP-based limiting if no valid token,
+    // grouping IPv6 addresses by subnet like the default key generator
+    return `api_ip_${ipKeyGenerator(req.ip || '')}`;
   },
 
   // Skip rate limiting for requests without authorization header
@@ -91,6 +94,7 @@ export const apiRateLimiter = rateLimit({
       createTokenHash(authHeader.replace('Bearer ', '')) : 
       'none';
 
+    recordRateLimitHit('api');
     logger.warn('API rate limit exceeded', {
       ip: req.ip,
       userAgent: req.get('User-Agent'),
@@ -131,6 +135,7 @@ export const authFailureRateLimiter = rateLimit({
   skipSuccessfulRequests: true,
   
   handler: (req: Request, res: Response) => {
+    recordRateLimitHit('auth_failure');
     logger.error('Authentication failure rate limit exceeded', {
       ip: req.ip,
       userAgent: req.get('User-Agent'),
@@ -158,6 +163,7 @@ export function createCustomRateLimiter(options: {
   max: number;
   message: string;
   code: string;
+  name?: string;  // Shown on the admin dashboard, default: code
 }) {
   return rateLimit({
     windowMs: options.windowMs,
@@ -171,6 +177,7 @@ export function createCustomRateLimiter(options: {
     standardHeaders: true,
     legacyHeaders: false,
     handler: (req: Request, res: Response) => {
+      recordRateLimitHit(options.name || options.code);
       logger.warn('Custom rate limit exceeded', {
         ip: req.ip,
         userAgent: req.get('User-Agent'),
@@ -200,6 +207,12 @@ export const createEndpointRateLimiter = (endpoint: string, limit: number) => {
     windowMs: WINDOW_MS,
     max: limit,
     message: `Too many requests to ${endpoint}. Please try again later.`,
-    code: `${endpoint.toUpperCase()}_RATE_LIMIT_EXCEEDED`
+    code: `${endpoint.toUpperCase()}_RATE_LIMIT_EXCEEDED`,
+    name: endpoint
   });
-};
\ No newline at end of file
+};
+/**
+ * Rate limiter for post assets (GET /:id/assets/:name)
+ * A single page can embed many attachments, so they get a separate, larger budget
+ */
+export const assetRateLimiter = createEndpointRateLimiter('assets', 1000);
@@ -0,0 +1,19 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+
+// Helper function to handle validation errors
+export const handleValidationErrors = (req: Request, res: Response, next: NextFunction) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: {
+        code: 400,
+        message: 'Validation failed',
+        details: errors.array(),
+        timestamp: new Date().toISOString()
+      }
+    });
+  }
+  next();
+};
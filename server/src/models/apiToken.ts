@@ -0,0 +1,164 @@
+import { Database } from './database';
+import { ApiTokenInfo, TokenScope, User, UserRole } from 'shared/types';
+import { generateApiToken, hashApiToken, parseScopes } from '../utils/apiToken';
+import { logger } from '../middleware/logger';
+
+export interface CreateTokenData {
+  label?: string | null;
+  scopes: TokenScope[];
+  expires_at?: string | null;  // SQLite datetime (UTC)
+}
+
+// A valid token and the user it belongs to
+export interface AuthenticatedToken {
+  id: number;
+  user: Pick<User, 'id' | 'name' | 'role'>;
+  scopes: TokenScope[];
+}
+
+interface ApiTokenRow extends Omit<ApiTokenInfo, 'scopes'> {
+  scopes: string | null;
+  user_role: UserRole;
+}
+
+const TOKEN_INFO_SQL = `
+  SELECT api_tokens.id, api_tokens.user_id, users.name AS user_name, users.role AS user_role,
+    api_tokens.label, api_tokens.scopes, api_tokens.created_at, api_tokens.expires_at,
+    api_tokens.last_used_at, api_tokens.revoked_at
+  FROM api_tokens
+  JOIN users ON users.id = api_tokens.user_id
+`;
+
+const toTokenInfo = ({ user_role, ...row }: ApiTokenRow): ApiTokenInfo => ({
+  ...row,
+  scopes: parseScopes(row.scopes, user_role)
+});
+
+export class ApiTokenModel {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Issue a new token for a user
+   *
+   * Returns the token itself, which is not stored and cannot be shown again,
+   * and the ID of its record.
+   */
+  async create(userId: number, data: CreateTokenData): Promise<{ id: number; token: string }> {
+    const token = generateApiToken();
+
+    try {
+      const result = await this.db.run(`
+        INSERT INTO api_tokens (user_id, token_hash, label, scopes, expires_at, created_at)
+        VALUES (?, ?, ?, ?, ?, datetime('now'))
+      `, [userId, hashApiToken(token), data.label || null, data.scopes.join(' '), data.expires_at || null]);
+
+      logger.info('API token created', { id: result.lastID, userId, scopes: data.scopes });
+      return { id: result.lastID, token };
+
+    } catch (error) {
+      logger.error('Failed to create API token', { error, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a token record by ID
+   */
+  async findById(id: number): Promise<ApiTokenInfo | null> {
+    try {
+      const row = await this.db.get<ApiTokenRow>(`${TOKEN_INFO_SQL} WHERE api_tokens.id = ?`, [id]);
+      return row ? toTokenInfo(row) : null;
+
+    } catch (error) {
+      logger.error('Failed to find API token', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * List token records, newest first, optionally of one user
+   */
+  async list(userId?: number): Promise<ApiTokenInfo[]> {
+    try {
+      const rows = userId === undefined
+        ? await this.db.all<ApiTokenRow>(`${TOKEN_INFO_SQL} ORDER BY api_tokens.id DESC`)
+        : await this.db.all<ApiTokenRow>(
+          `${TOKEN_INFO_SQL} WHERE api_tokens.user_id = ? ORDER BY api_tokens.id DESC`,
+          [userId]
+        );
+      return rows.map(toTokenInfo);
+
+    } catch (error) {
+      logger.error('Failed to list API tokens', { error, userId });
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a token. The record is kept, so it still shows up in the list.
+   */
+  async revoke(id: number): Promise<boolean> {
+    try {
+      const result = await this.db.run(
+        "UPDATE api_tokens SET revoked_at = datetime('now') WHERE id = ? AND revoked_at IS NULL",
+        [id]
+      );
+
+      if (result.changes === 0) {
+        return false;
+      }
+
+      logger.info('API token revoked', { id });
+      return true;
+
+    } catch (error) {
+      logger.error('Failed to revoke API token', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Find the user of a token that is neither revoked nor expired, and note its use
+   */
+  async authenticate(token: string): Promise<AuthenticatedToken | null> {
+    return this.authenticateHash(hashApiToken(token));
+  }
+
+  /**
+   * Like authenticate, by the hash of the token (see hashApiToken)
+   */
+  async authenticateHash(tokenHash: string): Promise<AuthenticatedToken | null> {
+    try {
+      const row = await this.db.get<ApiTokenRow>(`
+        ${TOKEN_INFO_SQL}
+        WHERE api_tokens.token_hash = ? AND api_tokens.revoked_at IS NULL
+          AND (api_tokens.expires_at IS NULL OR api_tokens.expires_at > datetime('now'))
+      `, [tokenHash]);
+
+      if (!row) {
+        return null;
+      }
+
+      // Written at most once a minute, so busy tokens do not cause a write per request
+      await this.db.run(`
+        UPDATE api_tokens SET last_used_at = datetime('now')
+        WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', '-1 minute'))
+      `, [row.id]);
+
+      const info = toTokenInfo(row);
+      return {
+        id: info.id,
+        user: { id: row.user_id, name: row.user_name, role: row.user_role },
+        scopes: info.scopes
+      };
+
+    } catch (error) {
+      logger.error('Failed to authenticate API token', { error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { Database } from './database';
+import { Asset, AssetInfo, StorageStats } from 'shared/types';
+import { logger } from '../middleware/logger';
+
+export class AssetModel {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Create or replace an asset of a post
+   */
+  async upsert(postId: string, name: string, contentType: string, data: Buffer): Promise<AssetInfo> {
+    const hash = crypto.createHash('sha256').update(data).digest('hex');
+
+    try {
+      const sql = `
+        INSERT INTO assets (post_id, name, content_type, size, hash, data, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+        ON CONFLICT(post_id, name) DO UPDATE SET
+          content_type = excluded.content_type,
+          size = excluded.size,
+          hash = excluded.hash,
+          data = excluded.data,
+          updated_at = datetime('now')
+      `;
+
+      await this.db.run(sql, [postId, name, contentType, data.length, hash, data]);
+
+      logger.info('Asset stored successfully', { postId, name, size: data.length });
+      return { name, content_type: contentType, size: data.length, hash };
+
+    } catch (error) {
+      logger.error('Failed to store asset', { error, postId, name });
+      throw error;
+    }
+  }
+
+  /**
+   * Find an asset of a post, including its data
+   */
+  async find(postId: string, name: string): Promise<Asset | null> {
+    try {
+      const sql = 'SELECT * FROM assets WHERE post_id = ? AND name = ?';
+      const asset = await this.db.get<Asset>(sql, [postId, name]);
+      return asset || null;
+
+    } catch (error) {
+      logger.error('Failed to find asset', { error, postId, name });
+      throw error;
+    }
+  }
+
+  /**
+   * List the assets of a post without their data
+   */
+  async listByPost(postId: string): Promise<AssetInfo[]> {
+    try {
+      const sql = `
+        SELECT name, content_type, size, hash, updated_at
+        FROM assets
+        WHERE post_id = ?
+        ORDER BY name
+      `;
+      return await this.db.all<AssetInfo>(sql, [postId]);
+
+    } catch (error) {
+      logger.error('Failed to list assets', { error, postId });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a single asset
+   */
+  async delete(postId: string, name: string): Promise<boolean> {
+    try {
+      const sql = 'DELETE FROM assets WHERE post_id = ? AND name = ?';
+      const result = await this.db.run(sql, [postId, name]);
+
+      if (result.changes === 0) {
+        logger.debug('Asset not found for deletion', { postId, name });
+        return false;
+      }
+
+      logger.info('Asset deleted successfully', { postId, name });
+      return true;
+
+    } catch (error) {
+      logger.error('Failed to delete asset', { error, postId, name });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all assets of a post
+   */
+  async deleteByPost(postId: string): Promise<number> {
+    try {
+      const sql = 'DELETE FROM assets WHERE post_id = ?';
+      const result = await this.db.run(sql, [postId]);
+
+      if (result.changes > 0) {
+        logger.info('Post assets deleted', { postId, count: result.changes });
+      }
+      return result.changes;
+
+    } catch (error) {
+      logger.error('Failed to delete post assets', { error, postId });
+      throw error;
+    }
+  }
+
+  /**
+   * Count all assets and their size
+   */
+  async getStats(): Promise<StorageStats['assets']> {
+    try {
+      const result = await this.db.get<StorageStats['assets']>(
+        'SELECT COUNT(*) AS count, COALESCE(SUM(size), 0) AS bytes FROM assets'
+      );
+      return result || { count: 0, bytes: 0 };
+
+    } catch (error) {
+      logger.error('Failed to get asset statistics', { error });
+      throw error;
+    }
+  }
+}
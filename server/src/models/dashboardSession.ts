@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import { Database } from './database';
+import { logger } from '../middleware/logger';
+import { toSqliteDate } from '../utils/url';
+
+const hashSessionId = (id: string): string => crypto.createHash('sha256').update(id).digest('hex');
+
+export class DashboardSessionModel {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Start a session for an admin token, given as its hash (see hashApiToken)
+   *
+   * Returns the session ID for the cookie. Like API tokens, it is only stored
+   * hashed. Expired sessions are cleaned up on the way.
+   */
+  async create(tokenHash: string, maxAgeMs: number): Promise<string> {
+    const id = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = toSqliteDate(new Date(Date.now() + maxAgeMs));
+
+    try {
+      await this.db.run("DELETE FROM dashboard_sessions WHERE expires_at <= datetime('now')");
+      await this.db.run(
+        "INSERT INTO dashboard_sessions (id_hash, token_hash, expires_at, created_at) VALUES (?, ?, ?, datetime('now'))",
+        [hashSessionId(id), tokenHash, expiresAt]
+      );
+      return id;
+
+    } catch (error) {
+      logger.error('Failed to create dashboard session', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Hash of the admin token of a session that has not expired, or null
+   */
+  async findTokenHash(id: string): Promise<string | null> {
+    try {
+      const row = await this.db.get<{ token_hash: string }>(
+        "SELECT token_hash FROM dashboard_sessions WHERE id_hash = ? AND expires_at > datetime('now')",
+        [hashSessionId(id)]
+      );
+      return row?.token_hash ?? null;
+
+    } catch (error) {
+      logger.error('Failed to find dashboard session', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * End a session
+   */
+  async delete(id: string): Promise<boolean> {
+    try {
+      const result = await this.db.run('DELETE FROM dashboard_sessions WHERE id_hash = ?', [hashSessionId(id)]);
+      return result.changes > 0;
+
+    } catch (error) {
+      logger.error('Failed to delete dashboard session', { error });
+      throw error;
+    }
+  }
+}
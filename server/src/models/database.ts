@@ -1,12 +1,20 @@
 import sqlite3 from 'sqlite3';
 import path from 'path';
 import { logger } from '../middleware/logger';
+import { IDGenerator } from '../utils/idGenerator';
+import { toSearchText } from '../utils/search';
 
 export class Database {
   private static instance: Database;
   private db: sqlite3.Database;
+  private ready: Promise<void>;
+  private resolveReady!: () => void;
 
   private constructor() {
+    this.ready = new Promise((resolve) => {
+      this.resolveReady = resolve;
+    });
+
     const dbPath = process.env.DB_PATH || path.join(__dirname, '../../database/posts.db');
     
     // Enable verbose mode for debugging in development
@@ -33,30 +41,227 @@ export class Database {
   }
 
   private initializeSchema(): void {
-    const createTableSQL = `
-      CREATE TABLE IF NOT EXISTS posts (
-        id TEXT PRIMARY KEY,
-        secret TEXT NOT NULL,
-        title TEXT NOT NULL,
-        content TEXT NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )
-    `;
+    const createTablesSQL: { [table: string]: string } = {
+      posts: `
+        CREATE TABLE IF NOT EXISTS posts (
+          id TEXT PRIMARY KEY,
+          secret TEXT NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `,
+      assets: `
+        CREATE TABLE IF NOT EXISTS assets (
+          post_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          content_type TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          hash TEXT NOT NULL,
+          data BLOB NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (post_id, name)
+        )
+      `,
+      post_revisions: `
+        CREATE TABLE IF NOT EXISTS post_revisions (
+          post_id TEXT NOT NULL,
+          revision INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          content TEXT NOT NULL,
+          metadata TEXT,
+          theme TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (post_id, revision)
+        )
+      `,
+      users: `
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE,
+          role TEXT NOT NULL DEFAULT 'user',
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `,
+      // Only a SHA-256 hash of each token is stored
+      api_tokens: `
+        CREATE TABLE IF NOT EXISTS api_tokens (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `,
+      // Posts removed by the expiry cleanup, so their links keep answering 410 Gone
+      expired_posts: `
+        CREATE TABLE IF NOT EXISTS expired_posts (
+          id TEXT PRIMARY KEY,
+          expired_at DATETIME NOT NULL
+        )
+      `,
+      // Unique visitors per post and day (UTC)
+      post_views: `
+        CREATE TABLE IF NOT EXISTS post_views (
+          post_id TEXT NOT NULL,
+          day TEXT NOT NULL,
+          views INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (post_id, day)
+        )
+      `,
+      // Sites readers came from, counted once per visitor and day like the views
+      post_referrers: `
+        CREATE TABLE IF NOT EXISTS post_referrers (
+          post_id TEXT NOT NULL,
+          domain TEXT NOT NULL,
+          views INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (post_id, domain)
+        )
+      `,
+      // Salted visitor hashes of the current day, to count each visitor once.
+      // Older days are deleted, see ViewCounter.
+      post_view_visitors: `
+        CREATE TABLE IF NOT EXISTS post_view_visitors (
+          post_id TEXT NOT NULL,
+          day TEXT NOT NULL,
+          visitor TEXT NOT NULL,
+          PRIMARY KEY (post_id, day, visitor)
+        )
+      `,
+      // The secret is the HMAC key of the signatures, so it is stored as is
+      webhooks: `
+        CREATE TABLE IF NOT EXISTS webhooks (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          url TEXT NOT NULL,
+          secret TEXT NOT NULL,
+          events TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `,
+      // Delivery queue and log of webhook requests, see WebhookDispatcher
+      webhook_deliveries: `
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          webhook_id INTEGER NOT NULL,
+          event TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          response_status INTEGER,
+          error TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          next_attempt_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          delivered_at DATETIME
+        )
+      `,
+      // Dashboard logins. The cookie holds the session ID, only its hash and the
+      // hash of the admin token are stored, so the session can be checked again
+      dashboard_sessions: `
+        CREATE TABLE IF NOT EXISTS dashboard_sessions (
+          id_hash TEXT PRIMARY KEY,
+          token_hash TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          expires_at DATETIME NOT NULL
+        )
+      `,
+      // Full-text index of the title and plain text (search_text) of posts, kept in
+      // sync by the triggers below. Trigrams match any substring of 3+ characters,
+      // so Chinese text needs no word splitting.
+      posts_fts: `
+        CREATE VIRTUAL TABLE IF NOT EXISTS posts_fts USING fts5(
+          post_id UNINDEXED,
+          title,
+          content,
+          tokenize = 'trigram'
+        )
+      `
+    };
+
+    // Columns added after the first release. SQLite has no ADD COLUMN IF NOT EXISTS,
+    // so "duplicate column name" errors on existing databases are expected.
+    const migrationsSQL = [
+      'ALTER TABLE posts ADD COLUMN metadata TEXT',
+      'ALTER TABLE posts ADD COLUMN theme TEXT',
+      'ALTER TABLE posts ADD COLUMN expires_at DATETIME',
+      'ALTER TABLE posts ADD COLUMN password_hash TEXT',
+      "ALTER TABLE posts ADD COLUMN visibility TEXT NOT NULL DEFAULT 'unlisted'",
+      'ALTER TABLE posts ADD COLUMN slug TEXT',
+      'ALTER TABLE posts ADD COLUMN owner_id INTEGER',
+      'ALTER TABLE posts ADD COLUMN revision INTEGER NOT NULL DEFAULT 1',
+      'ALTER TABLE posts ADD COLUMN search_text TEXT',
+      'ALTER TABLE posts ADD COLUMN disabled_at DATETIME',
+      'ALTER TABLE posts ADD COLUMN disabled_reason TEXT',
+      'ALTER TABLE api_tokens ADD COLUMN label TEXT',
+      // Space separated; NULL for tokens issued before scopes, which keep all rights of their user
+      'ALTER TABLE api_tokens ADD COLUMN scopes TEXT',
+      'ALTER TABLE api_tokens ADD COLUMN expires_at DATETIME',
+      'ALTER TABLE api_tokens ADD COLUMN last_used_at DATETIME',
+      'ALTER TABLE api_tokens ADD COLUMN revoked_at DATETIME'
+    ];
 
     const createIndexesSQL = [
       'CREATE INDEX IF NOT EXISTS idx_posts_created_at ON posts(created_at)',
-      'CREATE UNIQUE INDEX IF NOT EXISTS idx_posts_id ON posts(id)'
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_posts_id ON posts(id)',
+      'CREATE INDEX IF NOT EXISTS idx_post_revisions_created_at ON post_revisions(created_at)',
+      'CREATE INDEX IF NOT EXISTS idx_posts_expires_at ON posts(expires_at)',
+      'CREATE INDEX IF NOT EXISTS idx_posts_visibility_created_at ON posts(visibility, created_at)',
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_posts_slug ON posts(slug)',
+      'CREATE INDEX IF NOT EXISTS idx_posts_owner_id ON posts(owner_id)',
+      'CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON api_tokens(user_id)',
+      'CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(status, next_attempt_at)',
+      'CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id, created_at)'
+    ];
+
+    const createTriggersSQL = [
+      `CREATE TRIGGER IF NOT EXISTS posts_fts_insert AFTER INSERT ON posts BEGIN
+        INSERT INTO posts_fts (post_id, title, content) VALUES (new.id, new.title, new.search_text);
+      END`,
+      `CREATE TRIGGER IF NOT EXISTS posts_fts_update AFTER UPDATE OF title, search_text ON posts BEGIN
+        UPDATE posts_fts SET title = new.title, content = new.search_text WHERE post_id = old.id;
+      END`,
+      `CREATE TRIGGER IF NOT EXISTS posts_fts_delete AFTER DELETE ON posts BEGIN
+        DELETE FROM posts_fts WHERE post_id = old.id;
+      END`,
+      // View counts go with the post, however it is deleted
+      `CREATE TRIGGER IF NOT EXISTS posts_views_delete AFTER DELETE ON posts BEGIN
+        DELETE FROM post_views WHERE post_id = old.id;
+        DELETE FROM post_referrers WHERE post_id = old.id;
+        DELETE FROM post_view_visitors WHERE post_id = old.id;
+      END`
     ];
 
     this.db.serialize(() => {
-      // Create table
-      this.db.run(createTableSQL, (err) => {
+      // Create tables
+      Object.entries(createTablesSQL).forEach(([table, tableSQL]) => {
+        this.db.run(tableSQL, (err) => {
+          if (err) {
+            logger.error(`Failed to create ${table} table`, { error: err.message });
+            throw err;
+          } else {
+            logger.info(`${table} table ready`);
+          }
+        });
+      });
+
+      // Add new columns to existing tables
+      migrationsSQL.forEach((migrationSQL) => {
+        this.db.run(migrationSQL, (err) => {
+          if (err && !err.message.includes('duplicate column name')) {
+            logger.error('Failed to migrate schema', { error: err.message, sql: migrationSQL });
+            throw err;
+          }
+        });
+      });
+
+      // Posts updated before revision numbers existed continue after their saved revisions
+      this.db.run(`
+        UPDATE posts
+        SET revision = (SELECT MAX(revision) + 1 FROM post_revisions WHERE post_id = posts.id)
+        WHERE revision <= (SELECT MAX(revision) FROM post_revisions WHERE post_id = posts.id)
+      `, (err) => {
         if (err) {
-          logger.error('Failed to create posts table', { error: err.message });
-          throw err;
-        } else {
-          logger.info('Posts table ready');
+          logger.error('Failed to number post revisions', { error: err.message });
         }
       });
 
@@ -68,9 +273,95 @@ export class Database {
           }
         });
       });
+
+      // Keep the search index and view counts in sync
+      createTriggersSQL.forEach((triggerSQL) => {
+        this.db.run(triggerSQL, (err) => {
+          if (err) {
+            logger.error('Failed to create trigger', { error: err.message, sql: triggerSQL });
+          }
+        });
+      });
+
+      // Statements run in order here, so this one completes last
+      this.db.get('SELECT 1', () => {
+        this.hashPlaintextSecrets()
+          .catch((error) => logger.error('Failed to hash post secrets', { error: error.message }))
+          .then(() => this.rebuildSearchIndex())
+          .catch((error) => logger.error('Failed to rebuild search index', { error: error.message }))
+          .then(() => this.resolveReady());
+      });
     });
   }
 
+  /**
+   * One-time migration: hash post secrets stored before hashing was introduced
+   *
+   * Runs on every start but only finds rows the first time. Until it is done,
+   * IDGenerator.verifySecret also accepts the plaintext secrets.
+   */
+  private async hashPlaintextSecrets(): Promise<void> {
+    const rows = await this.all<{ id: string; secret: string }>(
+      "SELECT id, secret FROM posts WHERE secret NOT LIKE 'sha256:%'"
+    );
+
+    for (const row of rows) {
+      await this.run('UPDATE posts SET secret = ? WHERE id = ? AND secret = ?', [
+        IDGenerator.hashSecret(row.secret), row.id, row.secret
+      ]);
+    }
+
+    if (rows.length > 0) {
+      logger.info('Post secrets hashed', { count: rows.length });
+    }
+  }
+
+  /**
+   * Fill the search index when it does not match the posts table
+   *
+   * That is the case once, for posts published before search existed; their
+   * plain text is extracted first.
+   */
+  private async rebuildSearchIndex(): Promise<void> {
+    const unindexed = await this.all<{ id: string; content: string }>(
+      'SELECT id, content FROM posts WHERE search_text IS NULL'
+    );
+    for (const row of unindexed) {
+      await this.run('UPDATE posts SET search_text = ? WHERE id = ?', [toSearchText(row.content), row.id]);
+    }
+
+    const counts = await this.get<{ posts: number; indexed: number }>(
+      'SELECT (SELECT COUNT(*) FROM posts) AS posts, (SELECT COUNT(*) FROM posts_fts) AS indexed'
+    );
+    if (!counts || (unindexed.length === 0 && counts.posts === counts.indexed)) {
+      return;
+    }
+
+    await this.run('DELETE FROM posts_fts');
+    await this.run('INSERT INTO posts_fts (post_id, title, content) SELECT id, title, search_text FROM posts');
+    logger.info('Search index rebuilt', { count: counts.posts });
+  }
+
+  /**
+   * Resolves once the schema is created and migrated
+   *
+   * Requests arrive after that anyway; background jobs started with the
+   * server, and tests using a fresh database, wait for it.
+   */
+  public whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  /**
+   * Size of the database file in bytes
+   */
+  public async getSize(): Promise<number> {
+    const result = await this.get<{ size: number }>(
+      'SELECT page_count * page_size AS size FROM pragma_page_count(), pragma_page_size()'
+    );
+    return result?.size || 0;
+  }
+
   public getDatabase(): sqlite3.Database {
     return this.db;
   }
@@ -1,39 +1,114 @@
 import { Database } from './database';
-import { Post } from 'shared/types';
+import { RevisionModel } from './revision';
+import { IDGenerator } from '../utils/idGenerator';
+import { escapeLike, SearchTerms, toSearchText } from '../utils/search';
+import {
+  AdminPostInfo,
+  AdminPostQuery,
+  Post,
+  PostMetadata,
+  PostVisibility,
+  StorageStats,
+  UserRole
+} from 'shared/types';
 import { logger } from '../middleware/logger';
 
 export interface CreatePostData {
   id: string;
-  secret: string;
+  secret: string;               // Stored hashed, see IDGenerator.hashSecret
   title: string;
   content: string;
+  metadata?: PostMetadata;
+  theme?: string | null;
+  expires_at?: string | null;   // SQLite datetime (UTC)
+  password_hash?: string | null; // Viewer password, see utils/password
+  visibility?: PostVisibility;  // Default unlisted
+  slug?: string | null;         // Validated and checked with isSlugAvailable
+  owner_id?: number | null;     // Null for posts of the bootstrap API_TOKEN
 }
 
 export interface UpdatePostData {
   title: string;
   content: string;
+  metadata?: PostMetadata;
+  theme?: string | null;        // Undefined keeps the current theme, null removes it
+  expires_at?: string | null;   // SQLite datetime (UTC), undefined keeps the current expiry
+  password_hash?: string | null; // Viewer password, undefined keeps the current one
+  visibility?: PostVisibility;  // Undefined keeps the current visibility
+  slug?: string | null;         // Undefined keeps the current slug
 }
 
+// Outcome of a conditional write: the post is missing (or the secret is wrong)
+// or no longer has one of the expected revisions
+export type PostWriteResult = 'ok' | 'not_found' | 'conflict';
+
+// Who is searching: anonymous readers find public posts, users also their own, admins all posts
+export type SearchViewer = { id: number | null; role: UserRole } | null;
+
+// Columns admins can sort the post list by
+const ADMIN_SORT_COLUMNS: { [sort in AdminPostQuery['sort']]: string } = {
+  created_at: 'p.created_at',
+  updated_at: 'p.updated_at',
+  title: 'p.title',
+  size: 'size'
+};
+
+// Post columns with sizes and owner, for admins
+const ADMIN_POST_COLUMNS = `
+  p.id, p.slug, p.title, p.visibility, p.owner_id, u.name AS owner_name,
+  LENGTH(CAST(p.content AS BLOB)) AS size,
+  (SELECT COUNT(*) FROM assets a WHERE a.post_id = p.id) AS asset_count,
+  (SELECT COALESCE(SUM(a.size), 0) FROM assets a WHERE a.post_id = p.id) AS asset_size,
+  p.revision,
+  (SELECT COUNT(*) FROM post_revisions r WHERE r.post_id = p.id) AS revision_count,
+  p.password_hash IS NOT NULL AS password_protected,
+  p.expires_at, p.disabled_at, p.disabled_reason, p.created_at, p.updated_at
+`;
+
+const toAdminPostInfo = (row: AdminPostInfo): AdminPostInfo => ({
+  ...row,
+  slug: row.slug || null,
+  password_protected: !!row.password_protected
+});
+
 export class PostModel {
   private db: Database;
+  private revisions: RevisionModel;
 
   constructor() {
     this.db = Database.getInstance();
+    this.revisions = new RevisionModel();
+  }
+
+  /**
+   * Store metadata as JSON, or NULL for notes without frontmatter
+   */
+  private serializeMetadata(metadata?: PostMetadata): string | null {
+    return metadata && Object.keys(metadata).length > 0 ? JSON.stringify(metadata) : null;
   }
 
   /**
    * Create a new post
    */
   async create(postData: CreatePostData): Promise<Post> {
-    const { id, secret, title, content } = postData;
+    const {
+      id, secret, title, content, metadata, theme, expires_at, password_hash, visibility, slug, owner_id
+    } = postData;
     
     try {
       const sql = `
-        INSERT INTO posts (id, secret, title, content, created_at, updated_at)
-        VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))
+        INSERT INTO posts (
+          id, secret, title, content, search_text, metadata, theme, expires_at, password_hash, visibility, slug,
+          owner_id, created_at, updated_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
       `;
       
-      await this.db.run(sql, [id, secret, title, content]);
+      await this.db.run(sql, [
+        id, IDGenerator.hashSecret(secret), title, content, toSearchText(content), this.serializeMetadata(metadata),
+        theme || null, expires_at || null, password_hash || null, visibility || 'unlisted', slug || null,
+        owner_id ?? null
+      ]);
       
       // Fetch the created post
       const createdPost = await this.findById(id);
@@ -71,15 +146,37 @@ export class PostModel {
     }
   }
 
+  /**
+   * Find a post by its ID or its slug
+   */
+  async findByIdOrSlug(key: string): Promise<Post | null> {
+    try {
+      // IDs and slugs share one namespace, so at most one post matches
+      const sql = 'SELECT * FROM posts WHERE id = ? OR slug = ? LIMIT 1';
+      const post = await this.db.get<Post>(sql, [key, key]);
+
+      if (!post) {
+        logger.debug('Post not found', { key });
+        return null;
+      }
+
+      return post;
+
+    } catch (error) {
+      logger.error('Failed to find post by ID or slug', { error, key });
+      throw error;
+    }
+  }
+
   /**
    * Find a post by ID and verify secret
    */
   async findByIdAndSecret(id: string, secret: string): Promise<Post | null> {
     try {
-      const sql = 'SELECT * FROM posts WHERE id = ? AND secret = ?';
-      const post = await this.db.get<Post>(sql, [id, secret]);
+      const sql = 'SELECT * FROM posts WHERE id = ?';
+      const post = await this.db.get<Post>(sql, [id]);
       
-      if (!post) {
+      if (!post || !IDGenerator.verifySecret(secret, post.secret)) {
         logger.debug('Post not found or invalid secret', { id });
         return null;
       }
@@ -93,27 +190,81 @@ export class PostModel {
   }
 
   /**
-   * Update an existing post
+   * Update an existing post, keeping the previous version as a revision
+   *
+   * The revision number goes up when the content changes. With expected
+   * revisions (see utils/etag), the post is only updated while it still has
+   * one of them, so concurrent updates of the same revision cannot both win.
    */
-  async update(id: string, secret: string, updates: UpdatePostData): Promise<boolean> {
+  async update(
+    id: string,
+    secret: string,
+    updates: UpdatePostData,
+    expected: number[] | null = null
+  ): Promise<PostWriteResult> {
     const { title, content } = updates;
+    const metadata = this.serializeMetadata(updates.metadata);
     
     try {
+      const current = await this.findByIdAndSecret(id, secret);
+      if (!current) {
+        logger.debug('Post not found or invalid secret for update', { id });
+        return 'not_found';
+      }
+
+      const revision = current.revision ?? 1;
+      if (expected && !expected.includes(revision)) {
+        logger.debug('Post revision conflict on update', { id, revision, expected });
+        return 'conflict';
+      }
+
+      const theme = updates.theme === undefined ? current.theme ?? null : updates.theme || null;
+      const changed = current.title !== title || current.content !== content ||
+        current.metadata !== metadata || current.theme !== theme;
+      if (changed) {
+        await this.revisions.snapshot(id, revision);
+      }
+
+      const assignments = ['title = ?', 'content = ?', 'search_text = ?', 'metadata = ?', 'theme = ?'];
+      const params: unknown[] = [title, content, toSearchText(content), metadata, theme];
+      if (changed) {
+        assignments.push('revision = revision + 1');
+      }
+
+      // Settings left out of the update keep their current value
+      if (updates.expires_at !== undefined) {
+        assignments.push('expires_at = ?');
+        params.push(updates.expires_at);
+      }
+      if (updates.password_hash !== undefined) {
+        assignments.push('password_hash = ?');
+        params.push(updates.password_hash);
+      }
+      if (updates.visibility !== undefined) {
+        assignments.push('visibility = ?');
+        params.push(updates.visibility);
+      }
+      if (updates.slug !== undefined) {
+        assignments.push('slug = ?');
+        params.push(updates.slug);
+      }
+
       const sql = `
         UPDATE posts 
-        SET title = ?, content = ?, updated_at = datetime('now')
-        WHERE id = ? AND secret = ?
+        SET ${assignments.join(', ')}, updated_at = datetime('now')
+        WHERE id = ? AND revision = ?
       `;
-      
-      const result = await this.db.run(sql, [title, content, id, secret]);
+      params.push(id, revision);
+
+      const result = await this.db.run(sql, params);
       
       if (result.changes === 0) {
-        logger.debug('Post not found or invalid secret for update', { id });
-        return false;
+        // Deleted or updated by another request since it was read
+        return (await this.findById(id)) ? 'conflict' : 'not_found';
       }
 
       logger.info('Post updated successfully', { id, title: title.substring(0, 50) });
-      return true;
+      return 'ok';
       
     } catch (error) {
       logger.error('Failed to update post', { error, id, title });
@@ -122,20 +273,29 @@ export class PostModel {
   }
 
   /**
-   * Delete a post
+   * Delete a post, only while it has one of the expected revisions if given
    */
-  async delete(id: string, secret: string): Promise<boolean> {
+  async delete(id: string, secret: string, expected: number[] | null = null): Promise<PostWriteResult> {
     try {
-      const sql = 'DELETE FROM posts WHERE id = ? AND secret = ?';
-      const result = await this.db.run(sql, [id, secret]);
-      
-      if (result.changes === 0) {
+      if (!(await this.findByIdAndSecret(id, secret))) {
         logger.debug('Post not found or invalid secret for deletion', { id });
-        return false;
+        return 'not_found';
+      }
+
+      let sql = 'DELETE FROM posts WHERE id = ?';
+      const params: unknown[] = [id];
+      if (expected) {
+        sql += ` AND revision IN (${expected.map(() => '?').join(', ')})`;
+        params.push(...expected);
+      }
+
+      const result = await this.db.run(sql, params);
+      if (result.changes === 0) {
+        return (await this.findById(id)) ? 'conflict' : 'not_found';
       }
 
       logger.info('Post deleted successfully', { id });
-      return true;
+      return 'ok';
       
     } catch (error) {
       logger.error('Failed to delete post', { error, id });
@@ -144,12 +304,151 @@ export class PostModel {
   }
 
   /**
-   * Check if a post ID exists
+   * Replace the secret of a post, the old one stops working
+   *
+   * Callers verify the current secret first. Returns the new secret, which is
+   * only stored hashed, or null if the post does not exist.
+   */
+  async rotateSecret(id: string): Promise<string | null> {
+    const secret = IDGenerator.generateSecret();
+
+    try {
+      const result = await this.db.run(
+        'UPDATE posts SET secret = ? WHERE id = ?',
+        [IDGenerator.hashSecret(secret), id]
+      );
+
+      if (result.changes === 0) {
+        return null;
+      }
+
+      logger.info('Post secret rotated', { id });
+      return secret;
+
+    } catch (error) {
+      logger.error('Failed to rotate post secret', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a post without its secret, for admins
+   *
+   * Callers delete its assets and revisions as well.
+   */
+  async forceDelete(id: string): Promise<boolean> {
+    try {
+      const result = await this.db.run('DELETE FROM posts WHERE id = ?', [id]);
+      if (result.changes === 0) {
+        return false;
+      }
+
+      logger.info('Post force-deleted', { id });
+      return true;
+
+    } catch (error) {
+      logger.error('Failed to force-delete post', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Disable a post, readers get 451 with the reason, or enable it again with null
+   */
+  async setDisabled(id: string, disabled: { reason: string | null } | null): Promise<boolean> {
+    try {
+      const result = disabled
+        ? await this.db.run(
+          "UPDATE posts SET disabled_at = datetime('now'), disabled_reason = ? WHERE id = ?",
+          [disabled.reason, id]
+        )
+        : await this.db.run('UPDATE posts SET disabled_at = NULL, disabled_reason = NULL WHERE id = ?', [id]);
+
+      if (result.changes === 0) {
+        return false;
+      }
+
+      logger.info(disabled ? 'Post disabled' : 'Post enabled', { id, reason: disabled?.reason });
+      return true;
+
+    } catch (error) {
+      logger.error('Failed to change if post is disabled', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Find the IDs of posts whose expiry time has passed
+   */
+  async findExpiredIds(): Promise<string[]> {
+    try {
+      const sql = `
+        SELECT id FROM posts
+        WHERE expires_at IS NOT NULL AND expires_at <= datetime('now')
+      `;
+      const rows = await this.db.all<{ id: string }>(sql);
+      return rows.map((row) => row.id);
+
+    } catch (error) {
+      logger.error('Failed to find expired posts', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an expired post, remembering its ID so the link answers 410 Gone
+   */
+  async expire(id: string): Promise<boolean> {
+    try {
+      await this.db.run(`
+        INSERT OR IGNORE INTO expired_posts (id, expired_at)
+        SELECT id, expires_at FROM posts WHERE id = ? AND expires_at <= datetime('now')
+      `, [id]);
+
+      const result = await this.db.run(
+        "DELETE FROM posts WHERE id = ? AND expires_at <= datetime('now')",
+        [id]
+      );
+
+      if (result.changes === 0) {
+        return false;
+      }
+
+      logger.info('Expired post deleted', { id });
+      return true;
+
+    } catch (error) {
+      logger.error('Failed to delete expired post', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a post was deleted because it expired
+   */
+  async wasExpired(id: string): Promise<boolean> {
+    try {
+      const result = await this.db.get('SELECT 1 FROM expired_posts WHERE id = ? LIMIT 1', [id]);
+      return !!result;
+
+    } catch (error) {
+      logger.error('Failed to check if post expired', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a post ID exists, is used as a slug or was used by an expired post
    */
   async exists(id: string): Promise<boolean> {
     try {
-      const sql = 'SELECT 1 FROM posts WHERE id = ? LIMIT 1';
-      const result = await this.db.get(sql, [id]);
+      const sql = `
+        SELECT 1 FROM posts WHERE id = ? OR slug = ?
+        UNION ALL
+        SELECT 1 FROM expired_posts WHERE id = ?
+        LIMIT 1
+      `;
+      const result = await this.db.get(sql, [id, id, id]);
       return !!result;
       
     } catch (error) {
@@ -159,39 +458,284 @@ export class PostModel {
   }
 
   /**
-   * Get all posts (for admin/debugging purposes)
+   * Check if a slug is free to claim: not the ID or slug of another post
+   *
+   * `postId` is the post claiming the slug, which may keep its own.
    */
-  async getAll(limit: number = 50, offset: number = 0): Promise<Post[]> {
+  async isSlugAvailable(slug: string, postId?: string): Promise<boolean> {
+    try {
+      const sql = `
+        SELECT 1 FROM posts WHERE (id = ? OR slug = ?) AND id IS NOT ?
+        UNION ALL
+        SELECT 1 FROM expired_posts WHERE id = ?
+        LIMIT 1
+      `;
+      const result = await this.db.get(sql, [slug, slug, postId ?? null, slug]);
+      return !result;
+
+    } catch (error) {
+      logger.error('Failed to check if slug is available', { error, slug });
+      throw error;
+    }
+  }
+
+  /**
+   * Build the WHERE clause for listing posts of one visibility
+   *
+   * Expired posts waiting for the cleanup job and disabled posts are left out.
+   */
+  private visibilityFilter(visibility?: PostVisibility): { where: string; params: unknown[] } {
+    if (!visibility) {
+      return { where: '', params: [] };
+    }
+    return {
+      where: `WHERE visibility = ? AND disabled_at IS NULL
+        AND (expires_at IS NULL OR expires_at > datetime('now'))`,
+      params: [visibility]
+    };
+  }
+
+  /**
+   * Get all posts, newest first, optionally only those with the given visibility
+   */
+  async getAll(limit = 50, offset = 0, visibility?: PostVisibility): Promise<Post[]> {
+    const filter = this.visibilityFilter(visibility);
+
     try {
       const sql = `
         SELECT * FROM posts 
-        ORDER BY created_at DESC 
+        ${filter.where}
+        ORDER BY created_at DESC, rowid DESC
         LIMIT ? OFFSET ?
       `;
       
-      const posts = await this.db.all<Post>(sql, [limit, offset]);
+      const posts = await this.db.all<Post>(sql, [...filter.params, limit, offset]);
       
-      logger.debug('Retrieved posts', { count: posts.length, limit, offset });
+      logger.debug('Retrieved posts', { count: posts.length, limit, offset, visibility });
       return posts;
       
     } catch (error) {
-      logger.error('Failed to get all posts', { error, limit, offset });
+      logger.error('Failed to get all posts', { error, limit, offset, visibility });
       throw error;
     }
   }
 
   /**
-   * Get post count
+   * Latest posts for feeds: public, without a password, optionally with a tag
+   *
+   * Tags are matched case-insensitively in the stored frontmatter.
    */
-  async getCount(): Promise<number> {
+  async getFeedPosts(limit: number, tag?: string): Promise<Post[]> {
     try {
-      const sql = 'SELECT COUNT(*) as count FROM posts';
-      const result = await this.db.get<{ count: number }>(sql);
+      return await this.queryFeed<Post>('*', limit, tag);
+
+    } catch (error) {
+      logger.error('Failed to get feed posts', { error, limit, tag });
+      throw error;
+    }
+  }
+
+  /**
+   * ID and last update of the posts getFeedPosts would return
+   *
+   * Enough to tell whether a feed has changed without loading the posts.
+   */
+  async getFeedVersions(limit: number, tag?: string): Promise<Pick<Post, 'id' | 'updated_at'>[]> {
+    try {
+      return await this.queryFeed<Pick<Post, 'id' | 'updated_at'>>('id, updated_at', limit, tag);
+
+    } catch (error) {
+      logger.error('Failed to get feed versions', { error, limit, tag });
+      throw error;
+    }
+  }
+
+  private queryFeed<T>(columns: string, limit: number, tag?: string): Promise<T[]> {
+    const filter = this.visibilityFilter('public');
+    const tagFilter = tag
+      ? `AND CASE WHEN json_valid(metadata) THEN EXISTS (
+          SELECT 1 FROM json_each(metadata, '$.tags') WHERE value = ? COLLATE NOCASE
+        ) ELSE 0 END`
+      : '';
+
+    const sql = `
+      SELECT ${columns} FROM posts
+      ${filter.where} AND password_hash IS NULL ${tagFilter}
+      ORDER BY created_at DESC, rowid DESC
+      LIMIT ?
+    `;
+
+    return this.db.all<T>(sql, [...filter.params, ...(tag ? [tag] : []), limit]);
+  }
+
+  /**
+   * Get post count, optionally only of posts with the given visibility
+   */
+  async getCount(visibility?: PostVisibility): Promise<number> {
+    const filter = this.visibilityFilter(visibility);
+
+    try {
+      const sql = `SELECT COUNT(*) as count FROM posts ${filter.where}`;
+      const result = await this.db.get<{ count: number }>(sql, filter.params);
       return result?.count || 0;
       
     } catch (error) {
-      logger.error('Failed to get post count', { error });
+      logger.error('Failed to get post count', { error, visibility });
+      throw error;
+    }
+  }
+
+  /**
+   * Search the posts a viewer may find, best matches first
+   *
+   * Terms the index cannot match are checked with LIKE; when there are only
+   * such terms, results are ordered newest first. Password-protected posts are
+   * only found by their owner and admins, disabled posts by nobody.
+   */
+  async search(
+    terms: SearchTerms,
+    viewer: SearchViewer,
+    limit = 20,
+    offset = 0
+  ): Promise<{ posts: Post[]; total: number }> {
+    const conditions = ["(p.expires_at IS NULL OR p.expires_at > datetime('now'))", 'p.disabled_at IS NULL'];
+    const params: unknown[] = [];
+
+    if (viewer?.role !== 'admin') {
+      const listed = "(p.visibility = 'public' AND p.password_hash IS NULL)";
+      conditions.push(viewer ? `(${listed} OR p.owner_id = ?)` : listed);
+      if (viewer) {
+        params.push(viewer.id);
+      }
+    }
+    for (const pattern of terms.like) {
+      conditions.push("(p.title LIKE ? ESCAPE '\\' OR p.search_text LIKE ? ESCAPE '\\')");
+      params.push(pattern, pattern);
+    }
+
+    const from = terms.match
+      ? 'posts_fts JOIN posts p ON p.id = posts_fts.post_id'
+      : 'posts p';
+    const where = terms.match
+      ? `WHERE posts_fts MATCH ? AND ${conditions.join(' AND ')}`
+      : `WHERE ${conditions.join(' AND ')}`;
+    const whereParams = terms.match ? [terms.match, ...params] : params;
+
+    // Title matches count more than matches in the content
+    const order = terms.match
+      ? 'ORDER BY bm25(posts_fts, 0, 10, 1)'
+      : 'ORDER BY p.created_at DESC, p.rowid DESC';
+
+    try {
+      const count = await this.db.get<{ count: number }>(
+        `SELECT COUNT(*) AS count FROM ${from} ${where}`,
+        whereParams
+      );
+      const posts = await this.db.all<Post>(
+        `SELECT p.* FROM ${from} ${where} ${order} LIMIT ? OFFSET ?`,
+        [...whereParams, limit, offset]
+      );
+
+      logger.debug('Searched posts', { terms: terms.terms, count: posts.length, total: count?.count });
+      return { posts, total: count?.count || 0 };
+
+    } catch (error) {
+      logger.error('Failed to search posts', { error, terms: terms.terms });
+      throw error;
+    }
+  }
+
+  /**
+   * List posts for admins, with sizes and owners, including expired and disabled posts
+   */
+  async listForAdmin(query: AdminPostQuery): Promise<{ posts: AdminPostInfo[]; total: number }> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.visibility) {
+      conditions.push('p.visibility = ?');
+      params.push(query.visibility);
+    }
+    if (query.owner_id !== undefined) {
+      conditions.push('p.owner_id IS ?');
+      params.push(query.owner_id);
+    }
+    if (query.disabled !== undefined) {
+      conditions.push(query.disabled ? 'p.disabled_at IS NOT NULL' : 'p.disabled_at IS NULL');
+    }
+    if (query.q) {
+      conditions.push("(p.title LIKE ? ESCAPE '\\' OR p.id = ? OR p.slug = ?)");
+      params.push(`%${escapeLike(query.q)}%`, query.q, query.q.toLowerCase());
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const order = `${ADMIN_SORT_COLUMNS[query.sort]} ${query.order === 'asc' ? 'ASC' : 'DESC'}, p.rowid DESC`;
+
+    try {
+      const count = await this.db.get<{ count: number }>(`SELECT COUNT(*) AS count FROM posts p ${where}`, params);
+      const rows = await this.db.all<AdminPostInfo>(`
+        SELECT ${ADMIN_POST_COLUMNS}
+        FROM posts p LEFT JOIN users u ON u.id = p.owner_id
+        ${where}
+        ORDER BY ${order}
+        LIMIT ? OFFSET ?
+      `, [...params, query.limit, query.offset]);
+
+      return { posts: rows.map(toAdminPostInfo), total: count?.count || 0 };
+
+    } catch (error) {
+      logger.error('Failed to list posts for admin', { error, query });
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Find a post for admins, with sizes and owner, by its ID or slug
+   */
+  async findForAdmin(key: string): Promise<AdminPostInfo | null> {
+    try {
+      const row = await this.db.get<AdminPostInfo>(`
+        SELECT ${ADMIN_POST_COLUMNS}
+        FROM posts p LEFT JOIN users u ON u.id = p.owner_id
+        WHERE p.id = ? OR p.slug = ?
+        LIMIT 1
+      `, [key, key]);
+
+      return row ? toAdminPostInfo(row) : null;
+
+    } catch (error) {
+      logger.error('Failed to find post for admin', { error, key });
+      throw error;
+    }
+  }
+
+  /**
+   * Count posts by kind and the size of their content
+   */
+  async getStats(): Promise<Pick<StorageStats, 'posts' | 'expired_posts'>> {
+    try {
+      const posts = await this.db.get<StorageStats['posts']>(`
+        SELECT
+          COUNT(*) AS total,
+          COALESCE(SUM(visibility = 'public'), 0) AS public,
+          COALESCE(SUM(visibility = 'unlisted'), 0) AS unlisted,
+          COALESCE(SUM(visibility = 'private'), 0) AS private,
+          COALESCE(SUM(password_hash IS NOT NULL), 0) AS password_protected,
+          COALESCE(SUM(expires_at IS NOT NULL), 0) AS expiring,
+          COALESCE(SUM(disabled_at IS NOT NULL), 0) AS disabled,
+          COALESCE(SUM(LENGTH(CAST(content AS BLOB))), 0) AS content_bytes
+        FROM posts
+      `);
+      const expired = await this.db.get<{ count: number }>('SELECT COUNT(*) AS count FROM expired_posts');
+
+      return {
+        posts: posts as StorageStats['posts'],
+        expired_posts: expired?.count || 0
+      };
+
+    } catch (error) {
+      logger.error('Failed to get post statistics', { error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { Database } from './database';
+import { PostStats } from 'shared/types';
+import { logger } from '../middleware/logger';
+
+const MAX_REFERRERS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Day of a date as stored in the view tables ("YYYY-MM-DD", UTC)
+ */
+export function toViewDay(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+export class PostViewModel {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Count a view, unless the visitor already read the post that day
+   *
+   * Returns whether the view was counted.
+   */
+  async recordView(postId: string, day: string, visitor: string, referrer: string | null): Promise<boolean> {
+    try {
+      const { changes } = await this.db.run(
+        'INSERT OR IGNORE INTO post_view_visitors (post_id, day, visitor) VALUES (?, ?, ?)',
+        [postId, day, visitor]
+      );
+      if (changes === 0) {
+        return false;
+      }
+
+      await this.db.run(`
+        INSERT INTO post_views (post_id, day, views) VALUES (?, ?, 1)
+        ON CONFLICT (post_id, day) DO UPDATE SET views = views + 1
+      `, [postId, day]);
+
+      if (referrer) {
+        await this.db.run(`
+          INSERT INTO post_referrers (post_id, domain, views) VALUES (?, ?, 1)
+          ON CONFLICT (post_id, domain) DO UPDATE SET views = views + 1
+        `, [postId, referrer]);
+      }
+
+      return true;
+
+    } catch (error) {
+      logger.error('Failed to record post view', { error, postId });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the visitor hashes of the days before `day`, they are only needed on the day itself
+   */
+  async deleteVisitorsBefore(day: string): Promise<number> {
+    try {
+      const { changes } = await this.db.run('DELETE FROM post_view_visitors WHERE day < ?', [day]);
+      return changes;
+
+    } catch (error) {
+      logger.error('Failed to delete visitor hashes', { error, day });
+      throw error;
+    }
+  }
+
+  /**
+   * Views of a post per day for the last `days` days up to `now`, and its top referrers
+   */
+  async getStats(postId: string, days: number, now: Date = new Date()): Promise<PostStats> {
+    try {
+      const firstDay = toViewDay(new Date(now.getTime() - (days - 1) * DAY_MS));
+
+      const total = await this.db.get<{ views: number | null }>(
+        'SELECT SUM(views) AS views FROM post_views WHERE post_id = ?',
+        [postId]
+      );
+      const rows = await this.db.all<{ day: string; views: number }>(
+        'SELECT day, views FROM post_views WHERE post_id = ? AND day >= ?',
+        [postId, firstDay]
+      );
+      const referrers = await this.db.all<{ domain: string; views: number }>(
+        'SELECT domain, views FROM post_referrers WHERE post_id = ? ORDER BY views DESC, domain LIMIT ?',
+        [postId, MAX_REFERRERS]
+      );
+
+      const viewsByDay = new Map(rows.map((row) => [row.day, row.views]));
+      const period = Array.from({ length: days }, (_, index) => {
+        const date = toViewDay(new Date(now.getTime() - (days - 1 - index) * DAY_MS));
+        return { date, views: viewsByDay.get(date) || 0 };
+      });
+
+      return {
+        id: postId,
+        total_views: total?.views || 0,
+        days: period,
+        referrers
+      };
+
+    } catch (error) {
+      logger.error('Failed to get post stats', { error, postId });
+      throw error;
+    }
+  }
+}
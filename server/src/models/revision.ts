@@ -0,0 +1,205 @@
+import { Database } from './database';
+import { PostRevision, PostRevisionInfo, StorageStats } from 'shared/types';
+import { logger } from '../middleware/logger';
+
+export interface RevisionRetention {
+  maxCount: number;   // Keep at most this many revisions per post (0 = unlimited)
+  maxAgeDays: number; // Drop revisions older than this (0 = unlimited)
+}
+
+const parseLimit = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/**
+ * Retention from REVISION_MAX_COUNT (default 50) and REVISION_MAX_AGE_DAYS (default unlimited)
+ */
+export function loadRevisionRetention(env: NodeJS.ProcessEnv = process.env): RevisionRetention {
+  return {
+    maxCount: parseLimit(env.REVISION_MAX_COUNT, 50),
+    maxAgeDays: parseLimit(env.REVISION_MAX_AGE_DAYS, 0)
+  };
+}
+
+export class RevisionModel {
+  private db: Database;
+  private retention: RevisionRetention;
+
+  constructor(retention: RevisionRetention = loadRevisionRetention()) {
+    this.db = Database.getInstance();
+    this.retention = retention;
+  }
+
+  /**
+   * Save a version of a post before it is replaced
+   *
+   * Only saves the post while it still has that revision number, which the
+   * caller then increments. Callers verify the post secret first. Concurrent
+   * updates of the same revision save it once. Returns whether it was saved.
+   */
+  async snapshot(postId: string, revision: number): Promise<boolean> {
+    try {
+      const sql = `
+        INSERT OR IGNORE INTO post_revisions (post_id, revision, title, content, metadata, theme, created_at)
+        SELECT id, revision, title, content, metadata, theme, updated_at
+        FROM posts
+        WHERE id = ? AND revision = ?
+      `;
+
+      const result = await this.db.run(sql, [postId, revision]);
+      if (result.changes === 0) {
+        return false;
+      }
+
+      await this.prune(postId);
+
+      logger.debug('Post revision saved', { postId, revision });
+      return true;
+
+    } catch (error) {
+      logger.error('Failed to save post revision', { error, postId, revision });
+      throw error;
+    }
+  }
+
+  /**
+   * List the revisions of a post, newest first, without their content
+   */
+  async listByPost(postId: string): Promise<PostRevisionInfo[]> {
+    try {
+      const sql = `
+        SELECT revision, title, LENGTH(content) AS size, created_at
+        FROM post_revisions
+        WHERE post_id = ?
+        ORDER BY revision DESC
+      `;
+      return await this.db.all<PostRevisionInfo>(sql, [postId]);
+
+    } catch (error) {
+      logger.error('Failed to list post revisions', { error, postId });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a revision of a post, including its content
+   */
+  async find(postId: string, revision: number): Promise<PostRevision | null> {
+    try {
+      const sql = `
+        SELECT post_id, revision, title, content, metadata, theme, LENGTH(content) AS size, created_at
+        FROM post_revisions
+        WHERE post_id = ? AND revision = ?
+      `;
+      const result = await this.db.get<PostRevision>(sql, [postId, revision]);
+      return result || null;
+
+    } catch (error) {
+      logger.error('Failed to find post revision', { error, postId, revision });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete all revisions of a post
+   */
+  async deleteByPost(postId: string): Promise<number> {
+    try {
+      const result = await this.db.run('DELETE FROM post_revisions WHERE post_id = ?', [postId]);
+      return result.changes;
+
+    } catch (error) {
+      logger.error('Failed to delete post revisions', { error, postId });
+      throw error;
+    }
+  }
+
+  /**
+   * Count all stored revisions and the size of their content
+   */
+  async getStats(): Promise<StorageStats['revisions']> {
+    try {
+      const result = await this.db.get<StorageStats['revisions']>(
+        'SELECT COUNT(*) AS count, COALESCE(SUM(LENGTH(CAST(content AS BLOB))), 0) AS bytes FROM post_revisions'
+      );
+      return result || { count: 0, bytes: 0 };
+
+    } catch (error) {
+      logger.error('Failed to get revision statistics', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Apply the retention policy to the revisions of a post
+   */
+  async prune(postId: string): Promise<number> {
+    const { maxCount, maxAgeDays } = this.retention;
+    let removed = 0;
+
+    try {
+      if (maxCount > 0) {
+        const sql = `
+          DELETE FROM post_revisions
+          WHERE post_id = ? AND revision <= (
+            SELECT MAX(revision) FROM post_revisions WHERE post_id = ?
+          ) - ?
+        `;
+        removed += (await this.db.run(sql, [postId, postId, maxCount])).changes;
+      }
+
+      if (maxAgeDays > 0) {
+        // The newest revision is always kept, so revision numbers keep counting up
+        const sql = `
+          DELETE FROM post_revisions
+          WHERE post_id = ? AND created_at < datetime('now', ?) AND revision < (
+            SELECT MAX(revision) FROM post_revisions WHERE post_id = ?
+          )
+        `;
+        removed += (await this.db.run(sql, [postId, `-${maxAgeDays} days`, postId])).changes;
+      }
+
+      if (removed > 0) {
+        logger.debug('Old post revisions pruned', { postId, removed });
+      }
+      return removed;
+
+    } catch (error) {
+      logger.error('Failed to prune post revisions', { error, postId });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the revisions of all posts that are older than the maximum age
+   *
+   * prune only runs when a post is updated, so this catches posts that are
+   * not. Like there, the newest revision of each post is kept.
+   */
+  async pruneExpired(): Promise<number> {
+    const { maxAgeDays } = this.retention;
+    if (maxAgeDays <= 0) {
+      return 0;
+    }
+
+    try {
+      const sql = `
+        DELETE FROM post_revisions
+        WHERE created_at < datetime('now', ?) AND revision < (
+          SELECT MAX(revision) FROM post_revisions AS newer WHERE newer.post_id = post_revisions.post_id
+        )
+      `;
+      const { changes } = await this.db.run(sql, [`-${maxAgeDays} days`]);
+
+      if (changes > 0) {
+        logger.info('Old post revisions pruned', { removed: changes, maxAgeDays });
+      }
+      return changes;
+
+    } catch (error) {
+      logger.error('Failed to prune old post revisions', { error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { StorageStats } from 'shared/types';
+import { logger } from '../middleware/logger';
+import { Database } from './database';
+import { PostModel } from './post';
+import { AssetModel } from './asset';
+import { RevisionModel } from './revision';
+
+export class StatsModel {
+  private db: Database;
+  private posts: PostModel;
+  private assets: AssetModel;
+  private revisions: RevisionModel;
+
+  constructor() {
+    this.db = Database.getInstance();
+    this.posts = new PostModel();
+    this.assets = new AssetModel();
+    this.revisions = new RevisionModel();
+  }
+
+  /**
+   * Count posts, assets and revisions and the storage they use
+   */
+  async getStorageStats(): Promise<StorageStats> {
+    try {
+      const { posts, expired_posts } = await this.posts.getStats();
+
+      return {
+        posts,
+        assets: await this.assets.getStats(),
+        revisions: await this.revisions.getStats(),
+        expired_posts,
+        database_bytes: await this.db.getSize()
+      };
+
+    } catch (error) {
+      logger.error('Failed to get storage stats', { error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { Database } from './database';
+import { User, UserRole } from 'shared/types';
+import { logger } from '../middleware/logger';
+
+export class UserModel {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Create a new user
+   */
+  async create(name: string, role: UserRole = 'user'): Promise<User> {
+    try {
+      const result = await this.db.run(
+        "INSERT INTO users (name, role, created_at) VALUES (?, ?, datetime('now'))",
+        [name, role]
+      );
+
+      const user = await this.findById(result.lastID);
+      if (!user) {
+        throw new Error('Failed to create user');
+      }
+
+      logger.info('User created successfully', { id: user.id, name, role });
+      return user;
+
+    } catch (error) {
+      logger.error('Failed to create user', { error, name });
+      throw error;
+    }
+  }
+
+  /**
+   * Find a user by ID
+   */
+  async findById(id: number): Promise<User | null> {
+    try {
+      const user = await this.db.get<User>('SELECT id, name, role, created_at FROM users WHERE id = ?', [id]);
+      return user || null;
+
+    } catch (error) {
+      logger.error('Failed to find user by ID', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a user name is taken
+   */
+  async nameExists(name: string): Promise<boolean> {
+    try {
+      const result = await this.db.get('SELECT 1 FROM users WHERE name = ? LIMIT 1', [name]);
+      return !!result;
+
+    } catch (error) {
+      logger.error('Failed to check if user name exists', { error, name });
+      throw error;
+    }
+  }
+
+  /**
+   * List all users, oldest first
+   */
+  async list(): Promise<User[]> {
+    try {
+      return await this.db.all<User>('SELECT id, name, role, created_at FROM users ORDER BY id');
+
+    } catch (error) {
+      logger.error('Failed to list users', { error });
+      throw error;
+    }
+  }
+}
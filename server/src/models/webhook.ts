@@ -0,0 +1,225 @@
+import { Database } from './database';
+import {
+  CreateWebhookResponse,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookInfo
+} from 'shared/types';
+import { generateWebhookSecret, parseEvents, WEBHOOK_EVENTS } from '../utils/webhooks';
+import { logger } from '../middleware/logger';
+
+interface WebhookRow extends Omit<WebhookInfo, 'events'> {
+  events: string | null;
+}
+
+// A delivery that is due, with what is needed to send it
+export interface DueDelivery {
+  id: number;
+  webhook_id: number;
+  event: WebhookEvent;
+  payload: string;
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+// Outcome of a delivery attempt
+export interface DeliveryAttempt {
+  status: WebhookDeliveryStatus;
+  response_status: number | null;
+  error: string | null;
+  next_attempt_at: string | null;   // SQLite datetime (UTC), for pending deliveries
+}
+
+const DELIVERY_COLUMNS = `
+  id, webhook_id, event, status, attempts, response_status, error,
+  created_at, next_attempt_at, delivered_at
+`;
+
+const toWebhookInfo = ({ events, ...row }: WebhookRow): WebhookInfo => ({
+  ...row,
+  events: parseEvents(events)
+});
+
+export class WebhookModel {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  /**
+   * Register a webhook. The secret is generated here and returned once.
+   */
+  async create(url: string, events: WebhookEvent[] | null): Promise<CreateWebhookResponse> {
+    const secret = generateWebhookSecret();
+    // All events are stored as NULL, so events added later are included
+    const storedEvents = events && WEBHOOK_EVENTS.some((event) => !events.includes(event))
+      ? events.join(' ')
+      : null;
+
+    try {
+      const result = await this.db.run(`
+        INSERT INTO webhooks (url, secret, events, created_at) VALUES (?, ?, ?, datetime('now'))
+      `, [url, secret, storedEvents]);
+
+      const webhook = await this.findById(result.lastID);
+      if (!webhook) {
+        throw new Error('Webhook not found after insert');
+      }
+
+      logger.info('Webhook created', { id: webhook.id, url, events: webhook.events });
+      return { ...webhook, secret };
+
+    } catch (error) {
+      logger.error('Failed to create webhook', { error, url });
+      throw error;
+    }
+  }
+
+  async findById(id: number): Promise<WebhookInfo | null> {
+    try {
+      const row = await this.db.get<WebhookRow>(
+        'SELECT id, url, events, created_at FROM webhooks WHERE id = ?',
+        [id]
+      );
+      return row ? toWebhookInfo(row) : null;
+
+    } catch (error) {
+      logger.error('Failed to find webhook', { error, id });
+      throw error;
+    }
+  }
+
+  async list(): Promise<WebhookInfo[]> {
+    try {
+      const rows = await this.db.all<WebhookRow>('SELECT id, url, events, created_at FROM webhooks ORDER BY id');
+      return rows.map(toWebhookInfo);
+
+    } catch (error) {
+      logger.error('Failed to list webhooks', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Webhooks that subscribed to an event
+   */
+  async findByEvent(event: WebhookEvent): Promise<WebhookInfo[]> {
+    return (await this.list()).filter((webhook) => webhook.events.includes(event));
+  }
+
+  /**
+   * Delete a webhook with its queued and logged deliveries
+   */
+  async delete(id: number): Promise<boolean> {
+    try {
+      const result = await this.db.run('DELETE FROM webhooks WHERE id = ?', [id]);
+      await this.db.run('DELETE FROM webhook_deliveries WHERE webhook_id = ?', [id]);
+
+      if (result.changes > 0) {
+        logger.info('Webhook deleted', { id });
+      }
+      return result.changes > 0;
+
+    } catch (error) {
+      logger.error('Failed to delete webhook', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a delivery, due immediately
+   */
+  async enqueue(webhookId: number, event: WebhookEvent, payload: string): Promise<number> {
+    try {
+      const result = await this.db.run(`
+        INSERT INTO webhook_deliveries (webhook_id, event, payload, created_at, next_attempt_at)
+        VALUES (?, ?, ?, datetime('now'), datetime('now'))
+      `, [webhookId, event, payload]);
+      return result.lastID;
+
+    } catch (error) {
+      logger.error('Failed to queue webhook delivery', { error, webhookId, event });
+      throw error;
+    }
+  }
+
+  /**
+   * Pending deliveries whose next attempt is due at `now`, oldest first
+   */
+  async listDue(now: string, limit: number): Promise<DueDelivery[]> {
+    try {
+      return await this.db.all<DueDelivery>(`
+        SELECT d.id, d.webhook_id, d.event, d.payload, d.attempts, w.url, w.secret
+        FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id
+        WHERE d.status = 'pending' AND d.next_attempt_at <= ?
+        ORDER BY d.next_attempt_at, d.id
+        LIMIT ?
+      `, [now, limit]);
+
+    } catch (error) {
+      logger.error('Failed to list due webhook deliveries', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Store the outcome of an attempt
+   */
+  async recordAttempt(id: number, attempt: DeliveryAttempt): Promise<void> {
+    try {
+      await this.db.run(`
+        UPDATE webhook_deliveries
+        SET status = ?, attempts = attempts + 1, response_status = ?, error = ?, next_attempt_at = ?,
+          delivered_at = CASE WHEN ? = 'succeeded' THEN datetime('now') ELSE delivered_at END
+        WHERE id = ?
+      `, [attempt.status, attempt.response_status, attempt.error, attempt.next_attempt_at, attempt.status, id]);
+
+    } catch (error) {
+      logger.error('Failed to record webhook delivery attempt', { error, id });
+      throw error;
+    }
+  }
+
+  /**
+   * Delivery log of a webhook, newest first
+   */
+  async listDeliveries(
+    webhookId: number,
+    limit: number,
+    status?: WebhookDeliveryStatus
+  ): Promise<WebhookDelivery[]> {
+    try {
+      return await this.db.all<WebhookDelivery>(`
+        SELECT ${DELIVERY_COLUMNS}
+        FROM webhook_deliveries
+        WHERE webhook_id = ?${status ? ' AND status = ?' : ''}
+        ORDER BY created_at DESC, id DESC
+        LIMIT ?
+      `, status ? [webhookId, status, limit] : [webhookId, limit]);
+
+    } catch (error) {
+      logger.error('Failed to list webhook deliveries', { error, webhookId });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete finished deliveries created before a date (SQLite datetime, UTC)
+   */
+  async deleteFinishedBefore(date: string): Promise<number> {
+    try {
+      const result = await this.db.run(
+        "DELETE FROM webhook_deliveries WHERE status != 'pending' AND created_at < ?",
+        [date]
+      );
+      return result.changes;
+
+    } catch (error) {
+      logger.error('Failed to delete old webhook deliveries', { error });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,565 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import { UserModel } from '../models/user';
+import { ApiTokenModel } from '../models/apiToken';
+import { PostModel } from '../models/post';
+import { AssetModel } from '../models/asset';
+import { RevisionModel } from '../models/revision';
+import { StatsModel } from '../models/stats';
+import { WebhookModel } from '../models/webhook';
+import { defaultScopes, TOKEN_SCOPES } from '../utils/apiToken';
+import { isValidPostKey } from '../utils/slug';
+import { getBaseUrl, toSqliteDate } from '../utils/url';
+import { WEBHOOK_EVENTS } from '../utils/webhooks';
+import { WebhookDispatcher } from '../utils/webhookDispatcher';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../middleware/logger';
+import { requireAdmin, requireApiToken } from '../middleware/auth';
+import { handleValidationErrors } from '../middleware/validation';
+import {
+  AdminPostInfo,
+  AdminPostQuery,
+  AdminPostSort,
+  ApiTokenInfo,
+  CreateTokenRequest,
+  CreateTokenResponse,
+  CreateUserRequest,
+  CreateUserResponse,
+  CreateWebhookRequest,
+  CreateWebhookResponse,
+  WebhookDeliveryStatus
+} from 'shared/types';
+
+const router = express.Router();
+const userModel = new UserModel();
+const apiTokenModel = new ApiTokenModel();
+const postModel = new PostModel();
+const assetModel = new AssetModel();
+const revisionModel = new RevisionModel();
+const statsModel = new StatsModel();
+const webhookModel = new WebhookModel();
+const webhooks = WebhookDispatcher.getInstance();
+
+const DEFAULT_POSTS_PER_PAGE = 50;
+const DEFAULT_DELIVERIES_LIMIT = 50;
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'failed'];
+const ADMIN_POST_SORTS: AdminPostSort[] = ['created_at', 'updated_at', 'title', 'size'];
+
+// Every admin endpoint needs an admin token
+router.use(requireApiToken, requireAdmin);
+
+const createUserValidation = [
+  body('name')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Name must be between 1 and 100 characters'),
+  body('role')
+    .optional()
+    .isIn(['user', 'admin'])
+    .withMessage('Role must be user or admin')
+];
+
+const userIdValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Invalid user ID').toInt()
+];
+
+const createTokenValidation = [
+  ...userIdValidation,
+  body('label')
+    .optional({ values: 'null' })
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Label must be at most 100 characters'),
+  body('scopes')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Scopes must be a non-empty list'),
+  body('scopes.*')
+    .isIn(TOKEN_SCOPES)
+    .withMessage(`Scopes must be ${TOKEN_SCOPES.join(', ')}`),
+  body('expires_at')
+    .optional({ values: 'null' })
+    .isISO8601({ strict: true })
+    .withMessage('Expiry must be an ISO 8601 date')
+    .bail()
+    .custom((value: string) => new Date(value).getTime() > Date.now())
+    .withMessage('Expiry must be in the future')
+];
+
+const listTokensValidation = [
+  query('user_id').optional().isInt({ min: 1 }).withMessage('Invalid user ID').toInt()
+];
+
+const tokenIdValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Invalid token ID').toInt()
+];
+
+const listPostsValidation = [
+  query('page').optional().isInt({ min: 1, max: 100000 }).withMessage('Invalid page number').toInt(),
+  query('per_page').optional().isInt({ min: 1, max: 100 }).withMessage('per_page must be between 1 and 100').toInt(),
+  query('sort').optional().isIn(ADMIN_POST_SORTS).withMessage(`Sort must be ${ADMIN_POST_SORTS.join(', ')}`),
+  query('order').optional().isIn(['asc', 'desc']).withMessage('Order must be asc or desc'),
+  query('visibility')
+    .optional()
+    .isIn(['public', 'unlisted', 'private'])
+    .withMessage('Visibility must be public, unlisted or private'),
+  // "none" selects the posts of the bootstrap API_TOKEN
+  query('owner_id')
+    .optional()
+    .custom((value: string) => value === 'none' || /^[1-9]\d{0,9}$/.test(value))
+    .withMessage('Owner must be a user ID or none'),
+  query('disabled').optional().isBoolean().withMessage('Disabled must be true or false').toBoolean(),
+  query('q').optional().isString().trim().isLength({ max: 200 }).withMessage('Query must be at most 200 characters')
+];
+
+const postKeyValidation = [
+  param('id').custom(isValidPostKey).withMessage('Invalid post ID format')
+];
+
+const disablePostValidation = [
+  ...postKeyValidation,
+  body('reason')
+    .optional({ values: 'null' })
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason must be at most 500 characters')
+];
+
+const createWebhookValidation = [
+  body('url')
+    .isURL({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+    .withMessage('URL must be an http or https URL')
+    .isLength({ max: 2000 })
+    .withMessage('URL must be at most 2000 characters'),
+  body('events')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Events must be a non-empty list'),
+  body('events.*')
+    .isIn(WEBHOOK_EVENTS)
+    .withMessage(`Events must be ${WEBHOOK_EVENTS.join(', ')}`)
+];
+
+const webhookIdValidation = [
+  param('id').isInt({ min: 1 }).withMessage('Invalid webhook ID').toInt()
+];
+
+const listDeliveriesValidation = [
+  ...webhookIdValidation,
+  query('status').optional().isIn(DELIVERY_STATUSES).withMessage(`Status must be ${DELIVERY_STATUSES.join(', ')}`),
+  query('limit').optional().isInt({ min: 1, max: 200 }).withMessage('Limit must be between 1 and 200').toInt()
+];
+
+/**
+ * Load a post by its ID or slug, or fail with 404
+ */
+const findPost = async (key: string): Promise<AdminPostInfo> => {
+  const post = await postModel.findForAdmin(key);
+  if (!post) {
+    throw createError('Post not found', 404);
+  }
+  return post;
+};
+
+/**
+ * GET /admin/users - List all users
+ */
+router.get('/users',
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      const users = await userModel.list();
+
+      res.json({
+        success: true,
+        data: users
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/users - Create a user with a first API token
+ */
+router.post('/users',
+  createUserValidation,
+  handleValidationErrors,
+  async (req: express.Request<Record<string, never>, unknown, CreateUserRequest>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const { name, role } = req.body;
+
+      if (await userModel.nameExists(name)) {
+        throw createError(`User already exists: ${name}`, 409);
+      }
+
+      const user = await userModel.create(name, role || 'user');
+      const { token } = await apiTokenModel.create(user.id, { scopes: defaultScopes(user.role) });
+
+      logger.info('User created via API', { id: user.id, name, role: user.role, by: req.auth?.user?.name });
+
+      const data: CreateUserResponse = { user, token };
+      res.status(201).json({
+        success: true,
+        data
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/users/:id/tokens - Issue another API token for a user
+ *
+ * Scopes default to everything the user's role allows; only admins can get the admin scope.
+ */
+router.post('/users/:id/tokens',
+  createTokenValidation,
+  handleValidationErrors,
+  async (req: express.Request<{ id: string }, unknown, CreateTokenRequest>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const user = await userModel.findById(Number(req.params.id));
+      if (!user) {
+        throw createError('User not found', 404);
+      }
+
+      const scopes = req.body.scopes ? Array.from(new Set(req.body.scopes)) : defaultScopes(user.role);
+      if (scopes.includes('admin') && user.role !== 'admin') {
+        throw createError('Only admins can have tokens with the admin scope', 400);
+      }
+
+      const { id, token } = await apiTokenModel.create(user.id, {
+        label: req.body.label,
+        scopes,
+        expires_at: req.body.expires_at ? toSqliteDate(new Date(req.body.expires_at)) : null
+      });
+
+      logger.info('API token issued via API', { id, userId: user.id, scopes, by: req.auth?.user?.name });
+
+      const data: CreateTokenResponse = { ...(await apiTokenModel.findById(id) as ApiTokenInfo), token };
+      res.status(201).json({
+        success: true,
+        data
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /admin/tokens - List API tokens, optionally of one user (?user_id=)
+ *
+ * Tokens themselves are never shown again, only their records.
+ */
+router.get('/tokens',
+  listTokensValidation,
+  handleValidationErrors,
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      const userId = req.query.user_id === undefined ? undefined : Number(req.query.user_id);
+      const tokens = await apiTokenModel.list(userId);
+
+      res.json({
+        success: true,
+        data: tokens
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /admin/tokens/:id - Revoke an API token
+ */
+router.delete('/tokens/:id',
+  tokenIdValidation,
+  handleValidationErrors,
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      const id = Number(req.params.id);
+
+      const revoked = await apiTokenModel.revoke(id);
+      if (!revoked) {
+        throw createError('Token not found or already revoked', 404);
+      }
+
+      logger.info('API token revoked via API', { id, by: req.auth?.user?.name });
+
+      res.status(204).send();
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /admin/posts - List all posts with their sizes and owners
+ *
+ * Includes private, expired and disabled posts. Supports paging (`page`,
+ * `per_page`), sorting (`sort`, `order`) and filters (`visibility`,
+ * `owner_id`, `disabled`, `q`).
+ */
+router.get('/posts',
+  listPostsValidation,
+  handleValidationErrors,
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      const page = req.query.page === undefined ? 1 : Number(req.query.page);
+      const perPage = req.query.per_page === undefined ? DEFAULT_POSTS_PER_PAGE : Number(req.query.per_page);
+      const ownerId = req.query.owner_id;
+
+      const postQuery: AdminPostQuery = {
+        limit: perPage,
+        offset: (page - 1) * perPage,
+        sort: (req.query.sort as AdminPostSort | undefined) || 'created_at',
+        order: req.query.order === 'asc' ? 'asc' : 'desc',
+        visibility: req.query.visibility as AdminPostQuery['visibility'],
+        owner_id: ownerId === undefined ? undefined : ownerId === 'none' ? null : Number(ownerId),
+        disabled: req.query.disabled as boolean | undefined,
+        q: (req.query.q as string | undefined) || undefined
+      };
+      const { posts, total } = await postModel.listForAdmin(postQuery);
+
+      res.json({
+        success: true,
+        data: {
+          posts,
+          page,
+          per_page: perPage,
+          total_pages: Math.max(1, Math.ceil(total / perPage)),
+          total
+        }
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /admin/posts/:id - Get the metadata of a post, by its ID or slug
+ */
+router.get('/posts/:id',
+  postKeyValidation,
+  handleValidationErrors,
+  async (req: express.Request<{ id: string }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      res.json({
+        success: true,
+        data: await findPost(req.params.id)
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/posts/:id/disable - Take a post offline, readers get 451 with the reason
+ *
+ * The owner keeps the post and can still update it; only an admin can enable it again.
+ */
+router.post('/posts/:id/disable',
+  disablePostValidation,
+  handleValidationErrors,
+  async (req: express.Request<{ id: string }, unknown, { reason?: string | null }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const { id } = await findPost(req.params.id);
+      const reason = req.body.reason || null;
+
+      await postModel.setDisabled(id, { reason });
+
+      logger.info('Post disabled via API', { id, reason, by: req.auth?.user?.name });
+
+      res.json({
+        success: true,
+        data: await findPost(id)
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/posts/:id/enable - Put a disabled post back online
+ */
+router.post('/posts/:id/enable',
+  postKeyValidation,
+  handleValidationErrors,
+  async (req: express.Request<{ id: string }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const { id } = await findPost(req.params.id);
+
+      await postModel.setDisabled(id, null);
+
+      logger.info('Post enabled via API', { id, by: req.auth?.user?.name });
+
+      res.json({
+        success: true,
+        data: await findPost(id)
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /admin/posts/:id - Delete a post with its assets and revisions, without its secret
+ */
+router.delete('/posts/:id',
+  postKeyValidation,
+  handleValidationErrors,
+  async (req: express.Request<{ id: string }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const { id } = await findPost(req.params.id);
+      const post = await postModel.findById(id);
+
+      if (!post || !(await postModel.forceDelete(id))) {
+        throw createError('Post not found', 404);
+      }
+      await assetModel.deleteByPost(id);
+      await revisionModel.deleteByPost(id);
+
+      logger.info('Post force-deleted via API', { id, by: req.auth?.user?.name });
+
+      res.status(204).send();
+
+      await webhooks.notify('post.deleted', post, getBaseUrl(req));
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /admin/stats - Count posts, assets and revisions and the storage they use
+ */
+router.get('/stats',
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      res.json({
+        success: true,
+        data: await statsModel.getStorageStats()
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /admin/webhooks - List webhooks, without their secrets
+ */
+router.get('/webhooks',
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      res.json({
+        success: true,
+        data: await webhookModel.list()
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/webhooks - Register a webhook; the signing secret is only returned here
+ */
+router.post('/webhooks',
+  createWebhookValidation,
+  handleValidationErrors,
+  async (req: express.Request<Record<string, never>, unknown, CreateWebhookRequest>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const { url, events } = req.body;
+
+      const webhook: CreateWebhookResponse = await webhookModel.create(
+        url,
+        events ? Array.from(new Set(events)) : null
+      );
+
+      logger.info('Webhook created via API', { id: webhook.id, by: req.auth?.user?.name });
+
+      res.status(201).json({
+        success: true,
+        data: webhook
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /admin/webhooks/:id - Delete a webhook and its delivery log
+ */
+router.delete('/webhooks/:id',
+  webhookIdValidation,
+  handleValidationErrors,
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      const id = Number(req.params.id);
+
+      if (!(await webhookModel.delete(id))) {
+        throw createError('Webhook not found', 404);
+      }
+
+      logger.info('Webhook deleted via API', { id, by: req.auth?.user?.name });
+
+      res.status(204).send();
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /admin/webhooks/:id/deliveries - Delivery log of a webhook, newest first
+ */
+router.get('/webhooks/:id/deliveries',
+  listDeliveriesValidation,
+  handleValidationErrors,
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      const id = Number(req.params.id);
+      const limit = req.query.limit === undefined ? DEFAULT_DELIVERIES_LIMIT : Number(req.query.limit);
+      const status = req.query.status as WebhookDeliveryStatus | undefined;
+
+      if (!(await webhookModel.findById(id))) {
+        throw createError('Webhook not found', 404);
+      }
+
+      res.json({
+        success: true,
+        data: await webhookModel.listDeliveries(id, limit, status)
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export { router as adminRouter };
@@ -0,0 +1,154 @@
+import express from 'express';
+import { AssetModel } from '../models/asset';
+import { PostModel } from '../models/post';
+import { IDGenerator } from '../utils/idGenerator';
+import { isExpired } from '../utils/expiry';
+import { ASSET_MAX_SIZE, getAssetContentType, isValidAssetName } from '../utils/assets';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../middleware/logger';
+import { requireApiToken, requireScope } from '../middleware/auth';
+import { hasPostAccess, requirePostSecret } from '../middleware/postAuth';
+import { isPostUnlocked } from '../middleware/postPassword';
+
+const router = express.Router();
+const assetModel = new AssetModel();
+const postModel = new PostModel();
+
+// Raw body parser for uploads, the content type is derived from the asset name
+const rawAssetBody = express.raw({ type: () => true, limit: ASSET_MAX_SIZE });
+
+// SVG files can carry scripts, so they are served in a locked-down sandbox
+const SVG_CONTENT_SECURITY_POLICY = "default-src 'none'; style-src 'unsafe-inline'; img-src data:; sandbox";
+
+/**
+ * GET /:id/assets - List the assets of a post
+ */
+router.get('/:id/assets',
+  requireApiToken,
+  requirePostSecret,
+  async (req: express.Request<{ id: string }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const assets = await assetModel.listByPost(req.params.id);
+
+      res.json({
+        success: true,
+        data: assets
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /:id/assets/:name - Upload or replace an asset
+ */
+router.put('/:id/assets/:name',
+  requireApiToken,
+  requireScope('posts:write'),
+  rawAssetBody,
+  requirePostSecret,
+  async (req: express.Request<{ id: string; name: string }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const { id, name } = req.params;
+
+      if (!isValidAssetName(name)) {
+        throw createError('Invalid asset name or unsupported file type', 400);
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw createError('Asset content is required', 400);
+      }
+
+      const contentType = getAssetContentType(name) as string;
+      const asset = await assetModel.upsert(id, name, contentType, req.body);
+
+      logger.info('Asset uploaded via API', { id, name, size: asset.size });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          ...asset,
+          url: `/${id}/assets/${encodeURIComponent(name)}`
+        }
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /:id/assets/:name - Delete an asset
+ */
+router.delete('/:id/assets/:name',
+  requireApiToken,
+  requireScope('posts:write'),
+  requirePostSecret,
+  async (req: express.Request<{ id: string; name: string }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const { id, name } = req.params;
+
+      const deleted = await assetModel.delete(id, name);
+      if (!deleted) {
+        throw createError('Asset not found', 404);
+      }
+
+      logger.info('Asset deleted via API', { id, name });
+
+      res.status(204).send();
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /:id/assets/:name - Serve an asset
+ */
+router.get('/:id/assets/:name',
+  async (req: express.Request<{ id: string; name: string }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const { id, name } = req.params;
+
+      if (!IDGenerator.isValidFormat(id)) {
+        throw createError('Invalid post ID format', 400);
+      }
+
+      const post = await postModel.findById(id);
+      const asset = post && !isExpired(post) && !post.disabled_at ? await assetModel.find(id, name) : null;
+      if (!post || !asset || (post.visibility === 'private' && !(await hasPostAccess(req, post)))) {
+        throw createError('Asset not found', 404);
+      }
+
+      // Assets of protected posts are covered by the post's unlock cookie
+      if (!isPostUnlocked(req, post)) {
+        throw createError('Password required', 401);
+      }
+
+      res.setHeader('Content-Type', asset.content_type);
+      res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(asset.name)}`);
+      const restricted = !!post.password_hash || post.visibility === 'private';
+      res.setHeader('Cache-Control', `${restricted ? 'private' : 'public'}, max-age=3600`);
+      res.setHeader('ETag', `"${asset.hash}"`);
+      if (asset.content_type === 'image/svg+xml') {
+        res.setHeader('Content-Security-Policy', SVG_CONTENT_SECURITY_POLICY);
+      }
+
+      if (req.fresh) {
+        res.status(304).end();
+        return;
+      }
+
+      res.send(asset.data);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export { router as assetsRouter };
@@ -0,0 +1,276 @@
+import express from 'express';
+import { PostModel } from '../models/post';
+import { AssetModel } from '../models/asset';
+import { RevisionModel } from '../models/revision';
+import { StatsModel } from '../models/stats';
+import { DashboardRenderer } from '../utils/dashboard';
+import { PageRenderer } from '../utils/pages';
+import { getServerMetrics } from '../utils/metrics';
+import { isValidPostKey } from '../utils/slug';
+import { getBaseUrl } from '../utils/url';
+import { WebhookDispatcher } from '../utils/webhookDispatcher';
+import { createError, CustomError } from '../middleware/errorHandler';
+import { authenticateToken, createTokenHash } from '../middleware/auth';
+import { authFailureRateLimiter } from '../middleware/rateLimiter';
+import {
+  DASHBOARD_PATH,
+  endSession,
+  isDashboardAdmin,
+  requireDashboardSession,
+  startSession
+} from '../middleware/dashboardSession';
+import { logger } from '../middleware/logger';
+
+const router = express.Router();
+const postModel = new PostModel();
+const assetModel = new AssetModel();
+const revisionModel = new RevisionModel();
+const statsModel = new StatsModel();
+const dashboardRenderer = new DashboardRenderer();
+const pageRenderer = new PageRenderer();
+const webhooks = WebhookDispatcher.getInstance();
+
+const PAGE_SIZE = 20;
+const MAX_QUERY_LENGTH = 200;
+const MAX_REASON_LENGTH = 500;
+
+// Results of the post actions, passed to the dashboard as ?notice=
+const NOTICES: { [notice: string]: string } = {
+  disabled: '帖子已停用，读者将看到 451 页面。',
+  enabled: '帖子已恢复。',
+  deleted: '帖子已删除。'
+};
+
+const sendHtml = (res: express.Response, html: string, status = 200) => {
+  res.status(status).setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.send(html);
+};
+
+/**
+ * Page number from a query or form field, 1 when missing or invalid
+ */
+const readPage = (value: unknown): number =>
+  typeof value === 'string' && /^[1-9]\d{0,5}$/.test(value) ? Number(value) : 1;
+
+/**
+ * Back to the dashboard page the action was started from
+ */
+const redirectToDashboard = (req: express.Request, res: express.Response, notice: string) => {
+  res.redirect(303, `${DASHBOARD_PATH}?page=${readPage(req.body?.page)}&notice=${notice}`);
+};
+
+/**
+ * ID of an existing post, or fail with 404
+ */
+const findPostId = async (key: string): Promise<string> => {
+  const post = isValidPostKey(key) ? await postModel.findForAdmin(key) : null;
+  if (!post) {
+    throw createError('Post not found', 404);
+  }
+  return post.id;
+};
+
+/**
+ * GET /admin/dashboard/login - Login form
+ */
+router.get('/login',
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      sendHtml(res, await dashboardRenderer.renderLoginPage());
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/dashboard/login - Check an admin token and start a session
+ *
+ * Rejected tokens count against authFailureRateLimiter.
+ */
+router.post('/login',
+  authFailureRateLimiter,
+  async (req: express.Request<Record<string, never>, unknown, { token?: unknown }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const token = typeof req.body?.token === 'string' ? req.body.token.trim() : '';
+      const result = token ? await authenticateToken(token) : null;
+      const user = result?.user.name;
+
+      if (!isDashboardAdmin(result)) {
+        logger.warn('Dashboard login failed', {
+          ip: req.ip,
+          tokenHash: token ? createTokenHash(token) : undefined,
+          user
+        });
+        sendHtml(res, await dashboardRenderer.renderLoginPage('Token 无效，或没有管理员权限。'), 401);
+        return;
+      }
+
+      await startSession(req, res, token);
+      logger.info('Dashboard login', { ip: req.ip, user });
+      res.redirect(303, DASHBOARD_PATH);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/dashboard/logout - End the session
+ */
+router.post('/logout',
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      await endSession(req, res);
+      res.redirect(303, `${DASHBOARD_PATH}/login`);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Everything below needs a session
+router.use(requireDashboardSession);
+
+/**
+ * GET /admin/dashboard - Storage, server counters and the newest posts
+ *
+ * `?q=` filters the posts by title, ID or slug, `?page=N` selects the page.
+ */
+router.get('/',
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      const query = typeof req.query.q === 'string' ? req.query.q.trim().substring(0, MAX_QUERY_LENGTH) : '';
+      const notice = typeof req.query.notice === 'string' ? NOTICES[req.query.notice] : undefined;
+
+      const listPage = (number: number) => postModel.listForAdmin({
+        limit: PAGE_SIZE,
+        offset: (number - 1) * PAGE_SIZE,
+        sort: 'created_at',
+        order: 'desc',
+        q: query || undefined
+      });
+
+      let page = readPage(req.query.page);
+      let { posts, total } = await listPage(page);
+      const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+      // After deleting the last post of the last page, show the page before it
+      if (page > totalPages) {
+        page = totalPages;
+        ({ posts, total } = await listPage(page));
+      }
+
+      const html = await dashboardRenderer.renderDashboardPage({
+        user: req.auth?.user?.name || 'admin',
+        notice,
+        stats: await statsModel.getStorageStats(),
+        metrics: getServerMetrics(),
+        posts,
+        query,
+        total
+      }, { page, totalPages });
+
+      sendHtml(res, html);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/dashboard/posts/:id/disable - Disable a post, with an optional reason
+ */
+router.post('/posts/:id/disable',
+  async (req: express.Request<{ id: string }, unknown, { reason?: unknown }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const id = await findPostId(req.params.id);
+      const reason = typeof req.body?.reason === 'string'
+        ? req.body.reason.trim().substring(0, MAX_REASON_LENGTH) || null
+        : null;
+
+      await postModel.setDisabled(id, { reason });
+
+      logger.info('Post disabled via dashboard', { id, reason, by: req.auth?.user?.name });
+      redirectToDashboard(req, res, 'disabled');
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/dashboard/posts/:id/enable - Put a disabled post back online
+ */
+router.post('/posts/:id/enable',
+  async (req: express.Request<{ id: string }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const id = await findPostId(req.params.id);
+
+      await postModel.setDisabled(id, null);
+
+      logger.info('Post enabled via dashboard', { id, by: req.auth?.user?.name });
+      redirectToDashboard(req, res, 'enabled');
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/dashboard/posts/:id/delete - Delete a post with its assets and revisions
+ *
+ * The form has to send confirm=yes, its checkbox stands in for a confirmation dialog.
+ */
+router.post('/posts/:id/delete',
+  async (req: express.Request<{ id: string }, unknown, { confirm?: unknown }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      if (req.body?.confirm !== 'yes') {
+        throw createError('Deletion not confirmed', 400);
+      }
+      const id = await findPostId(req.params.id);
+      const post = await postModel.findById(id);
+
+      if (!post || !(await postModel.forceDelete(id))) {
+        throw createError('Post not found', 404);
+      }
+      await assetModel.deleteByPost(id);
+      await revisionModel.deleteByPost(id);
+
+      logger.info('Post force-deleted via dashboard', { id, by: req.auth?.user?.name });
+      redirectToDashboard(req, res, 'deleted');
+
+      await webhooks.notify('post.deleted', post, getBaseUrl(req));
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Errors of dashboard pages are shown as a page, not as JSON
+ */
+router.use(async (err: CustomError, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const status = err.statusCode || 500;
+  if (status >= 500) {
+    logger.error('Dashboard request failed', { error: err.message, stack: err.stack, url: req.url });
+  }
+
+  try {
+    const html = await pageRenderer.renderStatusPage({
+      status,
+      title: status >= 500 ? '服务器错误' : '请求失败',
+      message: status >= 500 ? '操作失败，请查看服务器日志。' : err.message
+    });
+    sendHtml(res, html, status);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as dashboardRouter };
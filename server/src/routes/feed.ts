@@ -0,0 +1,111 @@
+import express from 'express';
+import { PostModel } from '../models/post';
+import { FEED_PATHS, FeedFormat, FeedRenderer } from '../utils/feed';
+import { contentETag } from '../utils/etag';
+import { getBaseUrl, toIsoDate } from '../utils/url';
+import { createError } from '../middleware/errorHandler';
+import { Post } from 'shared/types';
+
+const router = express.Router();
+const postModel = new PostModel();
+const feedRenderer = new FeedRenderer();
+
+const FEED_SIZE = 20;
+const MAX_TAG_LENGTH = 100;
+const MAX_CACHED_FEEDS = 50;
+
+// Rendered feeds by ETag, oldest first. An ETag changes with the posts in the
+// feed, so cached feeds never need to be invalidated, only evicted.
+const feedCache = new Map<string, string>();
+
+const CONTENT_TYPES: { [format in FeedFormat]: string } = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8'
+};
+
+/**
+ * ETag of a feed, from what its content depends on: the posts in it and their
+ * last update, the format, the tag and the base URL of its links
+ */
+const feedETag = (
+  versions: Pick<Post, 'id' | 'updated_at'>[],
+  options: { format: FeedFormat; tag: string; baseUrl: string }
+): string => contentETag(JSON.stringify({
+  ...options,
+  count: versions.length,
+  posts: versions.map((post) => `${post.id}@${post.updated_at}`)
+}));
+
+const cacheFeed = (etag: string, xml: string): void => {
+  feedCache.set(etag, xml);
+  if (feedCache.size > MAX_CACHED_FEEDS) {
+    feedCache.delete(feedCache.keys().next().value as string);
+  }
+};
+
+/**
+ * Send a feed of the latest public posts, or 304 when the reader's copy is current
+ *
+ * `?tag=` limits the feed to posts with that tag. Password-protected posts are
+ * left out, like in search results. Whether the feed has changed is decided
+ * from the database, the posts are only loaded and rendered when it has.
+ */
+const sendFeed = (format: FeedFormat) =>
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      const tagParam = req.query.tag === undefined ? '' : req.query.tag;
+      if (typeof tagParam !== 'string') {
+        throw createError('Invalid tag', 400);
+      }
+      const tag = tagParam.trim().replace(/^#/, '');
+      if (tag.length > MAX_TAG_LENGTH) {
+        throw createError(`Tag must be at most ${MAX_TAG_LENGTH} characters`, 400);
+      }
+
+      const baseUrl = getBaseUrl(req);
+      const versions = await postModel.getFeedVersions(FEED_SIZE, tag || undefined);
+      let etag = feedETag(versions, { format, tag, baseUrl });
+
+      res.setHeader('Content-Type', CONTENT_TYPES[format]);
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('ETag', etag);
+      if (versions.length > 0) {
+        const updated = Math.max(...versions.map((post) => new Date(toIsoDate(post.updated_at)).getTime()));
+        res.setHeader('Last-Modified', new Date(updated).toUTCString());
+      }
+
+      // Compares If-None-Match and If-Modified-Since with the headers above
+      if (req.fresh) {
+        res.status(304).end();
+        return;
+      }
+
+      let xml = feedCache.get(etag);
+      if (xml === undefined) {
+        const posts = await postModel.getFeedPosts(FEED_SIZE, tag || undefined);
+        xml = feedRenderer.render(posts, { format, tag: tag || undefined, baseUrl });
+
+        // The posts may have changed in between, the ETag must match what is sent
+        etag = feedETag(posts, { format, tag, baseUrl });
+        res.setHeader('ETag', etag);
+        cacheFeed(etag, xml);
+      }
+
+      res.send(xml);
+
+    } catch (error) {
+      next(error);
+    }
+  };
+
+/**
+ * GET /feed.xml - RSS 2.0 feed of the latest public posts
+ */
+router.get(FEED_PATHS.rss, sendFeed('rss'));
+
+/**
+ * GET /atom.xml - Atom feed of the latest public posts
+ */
+router.get(FEED_PATHS.atom, sendFeed('atom'));
+
+export { router as feedRouter };
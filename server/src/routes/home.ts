@@ -0,0 +1,65 @@
+import express from 'express';
+import { PostModel } from '../models/post';
+import { PageRenderer } from '../utils/pages';
+import { getBaseUrl } from '../utils/url';
+import { createError } from '../middleware/errorHandler';
+
+const router = express.Router();
+const postModel = new PostModel();
+const pageRenderer = new PageRenderer();
+
+const PAGE_SIZE = 20;
+
+/**
+ * GET / - List public posts, newest first
+ *
+ * `?page=N` selects the page. Returns HTML, or JSON when requested.
+ */
+router.get('/',
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      const pageParam = req.query.page === undefined ? '1' : req.query.page;
+      if (typeof pageParam !== 'string' || !/^[1-9]\d{0,5}$/.test(pageParam)) {
+        throw createError('Invalid page number', 400);
+      }
+      const page = Number(pageParam);
+
+      const total = await postModel.getCount('public');
+      const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+      if (page > totalPages) {
+        throw createError('Page not found', 404);
+      }
+
+      const posts = await postModel.getAll(PAGE_SIZE, (page - 1) * PAGE_SIZE, 'public');
+
+      if (req.headers.accept?.includes('application/json')) {
+        res.json({
+          success: true,
+          data: {
+            posts: posts.map((post) => ({
+              id: post.id,
+              slug: post.slug || null,
+              title: post.title,
+              password_protected: !!post.password_hash,
+              created_at: post.created_at,
+              updated_at: post.updated_at
+            })),
+            page,
+            total_pages: totalPages,
+            total
+          }
+        });
+        return;
+      }
+
+      const html = await pageRenderer.renderIndexPage(posts, { page, totalPages, baseUrl: getBaseUrl(req) });
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.send(html);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export { router as homeRouter };
@@ -1,21 +1,85 @@
 import express from 'express';
-import { body, param, validationResult } from 'express-validator';
+import { body, param } from 'express-validator';
 import { PostModel } from '../models/post';
+import { AssetModel } from '../models/asset';
+import { RevisionModel } from '../models/revision';
 import { IDGenerator } from '../utils/idGenerator';
 import { MarkdownRenderer } from '../utils/markdown';
+import { PageRenderer } from '../utils/pages';
+import { parseFrontmatter, parseStoredMetadata } from '../utils/frontmatter';
+import { getBaseUrl, toSqliteDate } from '../utils/url';
+import { isExpired } from '../utils/expiry';
+import { hashPassword, verifyPassword } from '../utils/password';
+import { getPostPath, isReservedSlug, isValidPostKey, isValidSlug } from '../utils/slug';
+import { expectedRevisions, revisionETag } from '../utils/etag';
+import { ViewCounter } from '../utils/analytics';
+import { WebhookDispatcher } from '../utils/webhookDispatcher';
 import { createError } from '../middleware/errorHandler';
 import { logger } from '../middleware/logger';
-import { requireApiToken } from '../middleware/auth';
+import { requireApiToken, requireScope } from '../middleware/auth';
+import { handleValidationErrors } from '../middleware/validation';
+import { canManagePost, checkWriteResult, hasPostAccess, requirePostSecret } from '../middleware/postAuth';
+import {
+  getPostPassword,
+  isPostUnlocked,
+  limitPasswordAttempts,
+  setUnlockCookie
+} from '../middleware/postPassword';
 import { 
   CreatePostRequest, 
   CreatePostResponse, 
   UpdatePostRequest, 
-  DeletePostRequest 
+  UpdatePostResponse,
+  DeletePostRequest,
+  Post,
+  PostMetadata,
+  PostVisibility
 } from 'shared/types';
 
 const router = express.Router();
 const postModel = new PostModel();
+const assetModel = new AssetModel();
+const revisionModel = new RevisionModel();
 const markdownRenderer = new MarkdownRenderer();
+const pageRenderer = new PageRenderer();
+const viewCounter = new ViewCounter();
+const webhooks = WebhookDispatcher.getInstance();
+
+// Optional expiry, null removes it
+const expiresAtValidation = body('expires_at')
+  .optional({ values: 'null' })
+  .isISO8601({ strict: true })
+  .withMessage('Expiry must be an ISO 8601 date')
+  .bail()
+  .custom((value: string) => new Date(value).getTime() > Date.now())
+  .withMessage('Expiry must be in the future');
+
+// Optional viewer password, null removes it. Not trimmed, spaces are part of the password.
+const passwordValidation = body('password')
+  .optional({ values: 'null' })
+  .isString()
+  .isLength({ min: 1, max: 200 })
+  .withMessage('Password must be between 1 and 200 characters');
+
+const visibilityValidation = body('visibility')
+  .optional()
+  .isIn(['public', 'unlisted', 'private'])
+  .withMessage('Visibility must be public, unlisted or private');
+
+// Optional slug, null removes it. Format and availability are checked in resolveSlug.
+const slugValidation = body('slug')
+  .optional({ values: 'null' })
+  .isString()
+  .withMessage('Slug must be a string')
+  .trim()
+  .toLowerCase();
+
+// Optional revision a change is based on, see expectedRevisions
+const baseRevisionValidation = body('base_revision')
+  .optional()
+  .isInt({ min: 1 })
+  .withMessage('Base revision must be a positive integer')
+  .toInt();
 
 // Validation middleware
 const createPostValidation = [
@@ -27,7 +91,17 @@ const createPostValidation = [
   body('content')
     .isLength({ min: 1, max: 100000 })
     .withMessage('Content must be between 1 and 100,000 characters')
+    .trim(),
+  body('theme')
+    .optional()
+    .isString()
+    .withMessage('Theme must be a string')
     .trim()
+    .toLowerCase(),
+  expiresAtValidation,
+  passwordValidation,
+  visibilityValidation,
+  slugValidation
 ];
 
 const updatePostValidation = [
@@ -41,33 +115,196 @@ const updatePostValidation = [
   body('content')
     .isLength({ min: 1, max: 100000 })
     .withMessage('Content must be between 1 and 100,000 characters')
+    .trim(),
+  body('theme')
+    .optional({ values: 'null' })
+    .isString()
+    .withMessage('Theme must be a string')
     .trim()
+    .toLowerCase(),
+  expiresAtValidation,
+  passwordValidation,
+  visibilityValidation,
+  slugValidation,
+  baseRevisionValidation
 ];
 
 const deletePostValidation = [
   param('id').isLength({ min: 8, max: 8 }).withMessage('Invalid post ID format'),
-  body('secret').isUUID(4).withMessage('Invalid secret format')
+  body('secret').isUUID(4).withMessage('Invalid secret format'),
+  baseRevisionValidation
 ];
 
+// Posts are read by their ID or their slug
 const getPostValidation = [
-  param('id').isLength({ min: 8, max: 8 }).withMessage('Invalid post ID format')
+  param('id').custom(isValidPostKey).withMessage('Invalid post ID format')
 ];
 
-// Helper function to handle validation errors
-const handleValidationErrors = (req: express.Request, res: express.Response, next: express.NextFunction) => {
-  const errors = validationResult(req);
-  if (!errors.isEmpty()) {
-    return res.status(400).json({
-      success: false,
-      error: {
-        code: 400,
-        message: 'Validation failed',
-        details: errors.array(),
-        timestamp: new Date().toISOString()
-      }
-    });
+/**
+ * Resolve the theme of a post: the request field first, then the frontmatter
+ *
+ * Returns undefined when neither sets one, so updates keep the current theme,
+ * and null when the request removes it.
+ */
+const resolveTheme = async (
+  requested: string | null | undefined,
+  metadata: PostMetadata
+): Promise<string | null | undefined> => {
+  if (requested !== undefined) {
+    if (requested && !(await markdownRenderer.hasTheme(requested))) {
+      throw createError(`Unknown theme: ${requested}`, 400);
+    }
+    return requested || null;
+  }
+
+  if (metadata.theme && !(await markdownRenderer.hasTheme(metadata.theme))) {
+    logger.warn('Ignoring unknown theme from frontmatter', { theme: metadata.theme });
+    return undefined;
+  }
+  return metadata.theme || undefined;
+};
+
+/**
+ * Convert a validated expires_at field to the stored format
+ */
+const parseExpiry = (value: string | null | undefined): string | null | undefined =>
+  value ? toSqliteDate(new Date(value)) : value;
+
+/**
+ * Hash a validated password field, keeping null (remove) and undefined (keep)
+ */
+const parsePassword = async (value: string | null | undefined): Promise<string | null | undefined> =>
+  value ? hashPassword(value) : value;
+
+/**
+ * Answer for a protected post without a valid unlock cookie: the unlock form, or a JSON error
+ */
+const sendLocked = async (req: express.Request, res: express.Response, post: Post, wrongPassword: boolean) => {
+  if (req.headers.accept?.includes('application/json')) {
+    throw createError(wrongPassword ? 'Invalid password' : 'Password required', 401);
   }
-  next();
+
+  const html = await pageRenderer.renderUnlockPage({
+    action: `${getPostPath(post)}/unlock`,
+    error: wrongPassword ? '密码错误，请重试。' : undefined
+  });
+  res.status(401).setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store');
+  res.send(html);
+};
+
+/**
+ * Answer for a post that has expired: a 410 page, or a JSON error
+ */
+const sendGone = async (req: express.Request, res: express.Response) => {
+  if (req.headers.accept?.includes('application/json')) {
+    throw createError('Post has expired', 410);
+  }
+
+  const html = await pageRenderer.renderStatusPage({
+    status: 410,
+    title: '内容已过期',
+    message: '这篇笔记设置了有效期，现在已经过期，无法再访问。'
+  });
+  res.status(410).setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.send(html);
+};
+
+/**
+ * Answer for a post an admin disabled: a 451 page with the reason, or a JSON error
+ */
+const sendDisabled = async (req: express.Request, res: express.Response, post: Post) => {
+  const reason = post.disabled_reason || null;
+  if (req.headers.accept?.includes('application/json')) {
+    throw createError(reason ? `Post has been disabled: ${reason}` : 'Post has been disabled', 451, 'POST_DISABLED');
+  }
+
+  const html = await pageRenderer.renderStatusPage({
+    status: 451,
+    title: '内容已被停用',
+    message: reason ? `管理员已停用这篇笔记：${reason}` : '管理员已停用这篇笔记，无法再访问。'
+  });
+  res.status(451).setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.send(html);
+};
+
+/**
+ * Load a post for a reader, by its ID or its slug
+ *
+ * Private posts without the post secret or an API token are reported as not
+ * found. For expired and disabled posts the 410 or 451 answer is sent and
+ * null returned.
+ */
+const findPostForReader = async (req: express.Request, res: express.Response, key: string): Promise<Post | null> => {
+  const post = await postModel.findByIdOrSlug(key);
+  if (post && post.visibility === 'private' && !(await hasPostAccess(req, post))) {
+    throw createError('Post not found', 404);
+  }
+
+  if (post ? isExpired(post) : await postModel.wasExpired(key)) {
+    await sendGone(req, res);
+    return null;
+  }
+  if (!post) {
+    throw createError('Post not found', 404);
+  }
+  if (post.disabled_at) {
+    await sendDisabled(req, res, post);
+    return null;
+  }
+  return post;
+};
+
+/**
+ * Resolve the visibility of a post: the request field first, then the frontmatter
+ */
+const resolveVisibility = (requested: PostVisibility | undefined, metadata: PostMetadata): PostVisibility | undefined =>
+  requested || metadata.visibility;
+
+/**
+ * Resolve the slug of a post: the request field first, then the frontmatter
+ *
+ * Returns undefined when neither sets one, so updates keep the current slug.
+ * `postId` is the post being updated, which may keep its own slug.
+ */
+const resolveSlug = async (
+  requested: string | null | undefined,
+  metadata: PostMetadata,
+  postId?: string
+): Promise<string | null | undefined> => {
+  const slug = requested !== undefined ? requested : metadata.slug;
+  if (!slug) {
+    return slug;
+  }
+
+  if (!isValidSlug(slug)) {
+    throw createError('Slug must be 3-64 lowercase letters, digits and single hyphens', 400);
+  }
+  if (isReservedSlug(slug)) {
+    throw createError(`Slug is reserved: ${slug}`, 400);
+  }
+  if (!(await postModel.isSlugAvailable(slug, postId))) {
+    throw createError(`Slug is already taken: ${slug}`, 409);
+  }
+  return slug;
+};
+
+/**
+ * Find a post the request may change: the secret must match, and the
+ * authenticated user must be its owner or an admin
+ *
+ * The secret is checked first, so nothing about the post is revealed to
+ * callers without it.
+ */
+const findPostToChange = async (req: express.Request, id: string, secret: string): Promise<Post> => {
+  const post = await postModel.findByIdAndSecret(id, secret);
+  if (!post) {
+    throw createError('Post not found or invalid secret', 401);
+  }
+  if (!canManagePost(req.auth?.user, post)) {
+    throw createError('Post belongs to another user', 403);
+  }
+  return post;
 };
 
 /**
@@ -75,11 +312,15 @@ const handleValidationErrors = (req: express.Request, res: express.Response, nex
  */
 router.post('/', 
   requireApiToken,
+  requireScope('posts:create'),
   createPostValidation,
   handleValidationErrors,
-  async (req: express.Request<{}, CreatePostResponse, CreatePostRequest>, res: express.Response<CreatePostResponse>, next: express.NextFunction) => {
+  async (req: express.Request<Record<string, never>, CreatePostResponse, CreatePostRequest>, res: express.Response<CreatePostResponse>, next: express.NextFunction) => {
     try {
-      const { title, content } = req.body;
+      const { title } = req.body;
+      const { metadata, body: content } = parseFrontmatter(req.body.content);
+      const theme = await resolveTheme(req.body.theme, metadata);
+      const slug = await resolveSlug(req.body.slug, metadata);
 
       // Generate unique ID and secret
       const id = await IDGenerator.generateUnique((id) => postModel.exists(id));
@@ -90,16 +331,28 @@ router.post('/',
         id,
         secret,
         title,
-        content
+        content,
+        metadata,
+        theme,
+        expires_at: parseExpiry(req.body.expires_at),
+        password_hash: await parsePassword(req.body.password),
+        visibility: resolveVisibility(req.body.visibility, metadata),
+        slug,
+        owner_id: req.auth?.user?.id ?? null
       });
 
       logger.info('Post created via API', { 
         id, 
+        slug,
+        owner: req.auth?.user?.name,
         title: title.substring(0, 50),
         contentLength: content.length 
       });
 
-      res.status(201).json({ id, secret });
+      res.setHeader('ETag', revisionETag(post));
+      res.status(201).json({ id, secret, slug: slug || null, revision: post.revision ?? 1 });
+
+      await webhooks.notify('post.created', post, getBaseUrl(req));
 
     } catch (error) {
       next(error);
@@ -109,33 +362,66 @@ router.post('/',
 
 /**
  * GET /:id - Get a post and render as HTML
+ *
+ * `:id` is the post ID or its slug. Pages of posts with a slug are always
+ * served at the slug, the ID redirects there.
  */
 router.get('/:id',
   getPostValidation,
   handleValidationErrors,
+  limitPasswordAttempts,
   async (req: express.Request<{ id: string }>, res: express.Response, next: express.NextFunction) => {
     try {
       const { id } = req.params;
 
-      // Validate ID format
-      if (!IDGenerator.isValidFormat(id)) {
-        throw createError('Invalid post ID format', 400);
-      }
-
       // Find the post
-      const post = await postModel.findById(id);
+      const post = await findPostForReader(req, res, id);
       if (!post) {
-        throw createError('Post not found', 404);
+        return;
+      }
+
+      // Temporary redirect, the slug can still be changed or removed
+      const wantsJson = req.headers.accept?.includes('application/json');
+      if (post.slug && id !== post.slug && !wantsJson) {
+        const query = req.originalUrl.indexOf('?');
+        res.redirect(302, getPostPath(post) + (query === -1 ? '' : req.originalUrl.substring(query)));
+        return;
+      }
+
+      // Only public posts belong in search engines
+      if (post.visibility !== 'public') {
+        res.setHeader('X-Robots-Tag', 'noindex');
+      }
+
+      // Protected posts need the unlock cookie, API clients may send X-Post-Password
+      // or manage the post with its secret
+      if (post.password_hash && !isPostUnlocked(req, post) && !(await hasPostAccess(req, post))) {
+        const password = getPostPassword(req);
+        if (password === undefined || !(await verifyPassword(password, post.password_hash))) {
+          await sendLocked(req, res, post, password !== undefined);
+          return;
+        }
+      }
+      if (post.password_hash || post.visibility === 'private') {
+        res.setHeader('Cache-Control', 'private, no-store');
       }
 
       // Check if client wants JSON
-      if (req.headers.accept?.includes('application/json')) {
+      if (wantsJson) {
+        res.setHeader('ETag', revisionETag(post));
         res.json({
           success: true,
           data: {
             id: post.id,
+            slug: post.slug || null,
             title: post.title,
             content: post.content,
+            metadata: parseStoredMetadata(post.metadata),
+            theme: post.theme || null,
+            expires_at: post.expires_at || null,
+            password_protected: !!post.password_hash,
+            visibility: post.visibility || 'unlisted',
+            revision: post.revision ?? 1,
             created_at: post.created_at,
             updated_at: post.updated_at
           }
@@ -144,11 +430,55 @@ router.get('/:id',
       }
 
       // Render as HTML
-      const html = await markdownRenderer.renderToHtml(post);
+      const html = await markdownRenderer.renderToHtml(post, { baseUrl: getBaseUrl(req) });
       res.setHeader('Content-Type', 'text/html; charset=utf-8');
       res.send(html);
 
-      logger.info('Post viewed', { id, title: post.title.substring(0, 50) });
+      logger.info('Post viewed', { id: post.id, title: post.title.substring(0, 50) });
+
+      // After the response, counting must not hold up or fail the page
+      await viewCounter.count(req, post);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /:id/unlock - Check the viewer password of a protected post
+ *
+ * Sets the unlock cookie and redirects to the post. A wrong password shows
+ * the form again; failed attempts are rate limited.
+ */
+router.post('/:id/unlock',
+  getPostValidation,
+  handleValidationErrors,
+  limitPasswordAttempts,
+  async (req: express.Request<{ id: string }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const { id } = req.params;
+
+      const post = await findPostForReader(req, res, id);
+      if (!post) {
+        return;
+      }
+
+      if (post.password_hash) {
+        const password = getPostPassword(req);
+        if (password === undefined || !(await verifyPassword(password, post.password_hash))) {
+          logger.warn('Invalid post password', { id, ip: req.ip });
+          await sendLocked(req, res, post, password !== undefined);
+          return;
+        }
+        setUnlockCookie(req, res, post);
+      }
+
+      if (req.headers.accept?.includes('application/json')) {
+        res.status(204).send();
+      } else {
+        res.redirect(303, getPostPath(post));
+      }
 
     } catch (error) {
       next(error);
@@ -158,15 +488,19 @@ router.get('/:id',
 
 /**
  * PUT /:id - Update an existing post
+ *
+ * With If-Match or base_revision, the update is rejected with 412 when the
+ * post has changed since that revision.
  */
 router.put('/:id',
   requireApiToken,
+  requireScope('posts:write'),
   updatePostValidation,
   handleValidationErrors,
-  async (req: express.Request<{ id: string }, {}, UpdatePostRequest>, res: express.Response, next: express.NextFunction) => {
+  async (req: express.Request<{ id: string }, unknown, UpdatePostRequest>, res: express.Response<{ success: boolean; data: UpdatePostResponse }>, next: express.NextFunction) => {
     try {
       const { id } = req.params;
-      const { secret, title, content } = req.body;
+      const { secret, title } = req.body;
 
       // Validate ID format
       if (!IDGenerator.isValidFormat(id)) {
@@ -178,20 +512,76 @@ router.put('/:id',
         throw createError('Invalid secret format', 400);
       }
 
-      // Update the post
-      const updated = await postModel.update(id, secret, { title, content });
-      
-      if (!updated) {
+      await findPostToChange(req, id, secret);
+
+      const { metadata, body: content } = parseFrontmatter(req.body.content);
+      const theme = await resolveTheme(req.body.theme, metadata);
+      const slug = await resolveSlug(req.body.slug, metadata, id);
+
+      // Update the post, only if it still has the expected revision
+      const result = await postModel.update(id, secret, {
+        title,
+        content,
+        metadata,
+        theme,
+        expires_at: parseExpiry(req.body.expires_at),
+        password_hash: await parsePassword(req.body.password),
+        visibility: resolveVisibility(req.body.visibility, metadata),
+        slug
+      }, expectedRevisions(req.body.base_revision, req.get('If-Match')));
+      await checkWriteResult(result, res, id);
+
+      const post = await postModel.findById(id);
+      if (!post) {
         throw createError('Post not found or invalid secret', 401);
       }
 
       logger.info('Post updated via API', { 
         id, 
+        revision: post.revision,
         title: title.substring(0, 50),
         contentLength: content.length 
       });
 
-      res.status(204).send();
+      res.setHeader('ETag', revisionETag(post));
+      res.json({
+        success: true,
+        data: { id, slug: post.slug || null, revision: post.revision ?? 1 }
+      });
+
+      await webhooks.notify('post.updated', post, getBaseUrl(req));
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /:id/rotate-secret - Replace the secret of a post
+ *
+ * Needs the current secret; the new one is returned once and the old one
+ * stops working immediately.
+ */
+router.post('/:id/rotate-secret',
+  requireApiToken,
+  requireScope('posts:write'),
+  requirePostSecret,
+  async (req: express.Request<{ id: string }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const { id } = req.params;
+
+      const secret = await postModel.rotateSecret(id);
+      if (!secret) {
+        throw createError('Post not found', 404);
+      }
+
+      logger.info('Post secret rotated via API', { id, by: req.auth?.user?.name });
+
+      res.json({
+        success: true,
+        data: { id, secret }
+      });
 
     } catch (error) {
       next(error);
@@ -201,12 +591,15 @@ router.put('/:id',
 
 /**
  * DELETE /:id - Delete a post
+ *
+ * Honors If-Match and base_revision like PUT.
  */
 router.delete('/:id',
   requireApiToken,
+  requireScope('posts:delete'),
   deletePostValidation,
   handleValidationErrors,
-  async (req: express.Request<{ id: string }, {}, DeletePostRequest>, res: express.Response, next: express.NextFunction) => {
+  async (req: express.Request<{ id: string }, unknown, DeletePostRequest>, res: express.Response, next: express.NextFunction) => {
     try {
       const { id } = req.params;
       const { secret } = req.body;
@@ -221,17 +614,21 @@ router.delete('/:id',
         throw createError('Invalid secret format', 400);
       }
 
-      // Delete the post
-      const deleted = await postModel.delete(id, secret);
-      
-      if (!deleted) {
-        throw createError('Post not found or invalid secret', 401);
-      }
+      const current = await findPostToChange(req, id, secret);
+
+      // Delete the post, only if it still has the expected revision
+      const result = await postModel.delete(id, secret, expectedRevisions(req.body.base_revision, req.get('If-Match')));
+      await checkWriteResult(result, res, id);
+
+      await assetModel.deleteByPost(id);
+      await revisionModel.deleteByPost(id);
 
       logger.info('Post deleted via API', { id });
 
       res.status(204).send();
 
+      await webhooks.notify('post.deleted', current, getBaseUrl(req));
+
     } catch (error) {
       next(error);
     }
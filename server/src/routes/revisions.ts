@@ -0,0 +1,179 @@
+import express from 'express';
+import { PostModel } from '../models/post';
+import { RevisionModel } from '../models/revision';
+import { parseStoredMetadata } from '../utils/frontmatter';
+import { unifiedDiff } from '../utils/diff';
+import { expectedRevisions, revisionETag } from '../utils/etag';
+import { getBaseUrl } from '../utils/url';
+import { WebhookDispatcher } from '../utils/webhookDispatcher';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../middleware/logger';
+import { requireApiToken, requireScope } from '../middleware/auth';
+import { checkWriteResult, getPostSecret, requirePostSecret } from '../middleware/postAuth';
+import { Post, PostRevision, RevisionDiff, UpdatePostResponse } from 'shared/types';
+
+const router = express.Router();
+const postModel = new PostModel();
+const revisionModel = new RevisionModel();
+const webhooks = WebhookDispatcher.getInstance();
+
+type Version = number | 'current';
+
+/**
+ * Parse a revision number, or "current" for the live version of the post
+ */
+const parseVersion = (value: unknown, allowCurrent: boolean): Version => {
+  if (allowCurrent && value === 'current') {
+    return 'current';
+  }
+  if (typeof value === 'string' && /^[1-9]\d{0,8}$/.test(value)) {
+    return Number(value);
+  }
+  throw createError('Invalid revision number', 400);
+};
+
+/**
+ * Load a revision of the post, or the post itself for "current"
+ */
+const loadVersion = async (post: Post, version: Version): Promise<Post | PostRevision> => {
+  if (version === 'current') {
+    return post;
+  }
+  const revision = await revisionModel.find(post.id, version);
+  if (!revision) {
+    throw createError('Revision not found', 404);
+  }
+  return revision;
+};
+
+const versionLabel = (version: Version): string =>
+  version === 'current' ? 'current' : `revision ${version}`;
+
+/**
+ * GET /:id/revisions - List the previous versions of a post
+ */
+router.get('/:id/revisions',
+  requireApiToken,
+  requirePostSecret,
+  async (req: express.Request<{ id: string }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const revisions = await revisionModel.listByPost(req.params.id);
+
+      res.json({
+        success: true,
+        data: revisions
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /:id/revisions/diff?from=&to= - Diff two versions of a post
+ *
+ * `to` defaults to the current version.
+ */
+router.get('/:id/revisions/diff',
+  requireApiToken,
+  requirePostSecret,
+  async (req: express.Request<{ id: string }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const post = req.post as Post;
+      const from = parseVersion(req.query.from, true);
+      const to = req.query.to === undefined ? 'current' : parseVersion(req.query.to, true);
+
+      const [fromVersion, toVersion] = await Promise.all([loadVersion(post, from), loadVersion(post, to)]);
+
+      const data: RevisionDiff = {
+        from,
+        to,
+        title_changed: fromVersion.title !== toVersion.title,
+        diff: unifiedDiff(
+          { label: versionLabel(from), content: fromVersion.content },
+          { label: versionLabel(to), content: toVersion.content }
+        )
+      };
+
+      res.json({
+        success: true,
+        data
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /:id/revisions/:revision - Get a previous version of a post
+ */
+router.get('/:id/revisions/:revision',
+  requireApiToken,
+  requirePostSecret,
+  async (req: express.Request<{ id: string; revision: string }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const revision = await loadVersion(req.post as Post, parseVersion(req.params.revision, false)) as PostRevision;
+
+      res.json({
+        success: true,
+        data: {
+          ...revision,
+          metadata: parseStoredMetadata(revision.metadata)
+        }
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /:id/revisions/:revision/restore - Make a previous version current again
+ *
+ * The version being replaced is kept as a new revision, so a restore can be
+ * undone. Honors If-Match like PUT and answers like it, with the new revision.
+ */
+router.post('/:id/revisions/:revision/restore',
+  requireApiToken,
+  requireScope('posts:write'),
+  requirePostSecret,
+  async (req: express.Request<{ id: string; revision: string }>, res: express.Response<{ success: boolean; data: UpdatePostResponse }>, next: express.NextFunction) => {
+    try {
+      const { id } = req.params;
+      const number = parseVersion(req.params.revision, false);
+      const revision = await loadVersion(req.post as Post, number) as PostRevision;
+
+      const result = await postModel.update(id, getPostSecret(req) as string, {
+        title: revision.title,
+        content: revision.content,
+        metadata: parseStoredMetadata(revision.metadata),
+        theme: revision.theme
+      }, expectedRevisions(undefined, req.get('If-Match')));
+      await checkWriteResult(result, res, id);
+
+      const post = await postModel.findById(id);
+      if (!post) {
+        throw createError('Post not found or invalid secret', 401);
+      }
+
+      logger.info('Post revision restored via API', { id, revision: number, current: post.revision });
+
+      res.setHeader('ETag', revisionETag(post));
+      res.json({
+        success: true,
+        data: { id, slug: post.slug || null, revision: post.revision ?? 1 }
+      });
+
+      await webhooks.notify('post.updated', post, getBaseUrl(req));
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export { router as revisionsRouter };
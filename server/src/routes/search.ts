@@ -0,0 +1,94 @@
+import express from 'express';
+import { PostModel } from '../models/post';
+import { PageRenderer } from '../utils/pages';
+import { buildSnippet, parseSearchQuery, toSearchText } from '../utils/search';
+import { getBaseUrl } from '../utils/url';
+import { createError } from '../middleware/errorHandler';
+import { optionalApiToken } from '../middleware/auth';
+
+const router = express.Router();
+const postModel = new PostModel();
+const pageRenderer = new PageRenderer();
+
+const PAGE_SIZE = 20;
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * GET /search?q= - Search published posts, best matches first
+ *
+ * Anonymous readers find public posts; an API token also finds the posts of
+ * its user, and all posts for admins. `?page=N` selects the page. Returns
+ * HTML, or JSON when requested.
+ */
+router.get('/search',
+  optionalApiToken,
+  async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      const wantsJson = req.headers.accept?.includes('application/json');
+
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (query.length > MAX_QUERY_LENGTH) {
+        throw createError(`Search query must be at most ${MAX_QUERY_LENGTH} characters`, 400);
+      }
+
+      const pageParam = req.query.page === undefined ? '1' : req.query.page;
+      if (typeof pageParam !== 'string' || !/^[1-9]\d{0,5}$/.test(pageParam)) {
+        throw createError('Invalid page number', 400);
+      }
+      const page = Number(pageParam);
+
+      const terms = parseSearchQuery(query);
+      if (terms.terms.length === 0 && wantsJson) {
+        throw createError('Search query is required', 400);
+      }
+
+      const viewer = req.auth?.user ?? null;
+      const { posts, total } = terms.terms.length > 0
+        ? await postModel.search(terms, viewer, PAGE_SIZE, (page - 1) * PAGE_SIZE)
+        : { posts: [], total: 0 };
+      const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+      // Results for a token can include private posts
+      res.setHeader('Cache-Control', viewer ? 'private, no-store' : 'no-cache');
+
+      const results = posts.map((post) => ({ post, snippet: buildSnippet(toSearchText(post.content), terms.terms) }));
+
+      if (wantsJson) {
+        res.json({
+          success: true,
+          data: {
+            query,
+            results: results.map(({ post, snippet }) => ({
+              id: post.id,
+              slug: post.slug || null,
+              title: post.title,
+              snippet,
+              visibility: post.visibility || 'unlisted',
+              password_protected: !!post.password_hash,
+              created_at: post.created_at,
+              updated_at: post.updated_at
+            })),
+            page,
+            total_pages: totalPages,
+            total
+          }
+        });
+        return;
+      }
+
+      const html = await pageRenderer.renderSearchPage(query, results, {
+        page,
+        totalPages,
+        total,
+        baseUrl: getBaseUrl(req)
+      });
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.send(html);
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export { router as searchRouter };
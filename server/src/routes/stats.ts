@@ -0,0 +1,42 @@
+import express from 'express';
+import { PostViewModel } from '../models/postView';
+import { createError } from '../middleware/errorHandler';
+import { requireApiToken } from '../middleware/auth';
+import { requirePostSecret } from '../middleware/postAuth';
+
+const router = express.Router();
+const postViewModel = new PostViewModel();
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+/**
+ * GET /:id/stats - Views of a post per day and its top referrers
+ *
+ * `?days=N` sets the period (default 30, at most 365). Needs the post secret.
+ */
+router.get('/:id/stats',
+  requireApiToken,
+  requirePostSecret,
+  async (req: express.Request<{ id: string }>, res: express.Response, next: express.NextFunction) => {
+    try {
+      const daysParam = req.query.days === undefined ? String(DEFAULT_DAYS) : req.query.days;
+      if (typeof daysParam !== 'string' || !/^[1-9]\d{0,2}$/.test(daysParam) || Number(daysParam) > MAX_DAYS) {
+        throw createError(`Days must be between 1 and ${MAX_DAYS}`, 400);
+      }
+
+      const stats = await postViewModel.getStats(req.params.id, Number(daysParam));
+
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.json({
+        success: true,
+        data: stats
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export { router as statsRouter };
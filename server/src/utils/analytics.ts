@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import express from 'express';
+import { Post } from 'shared/types';
+import { PostViewModel, toViewDay } from '../models/postView';
+import { logger } from '../middleware/logger';
+
+// Crawlers, link previews, monitoring and HTTP libraries
+const BOT_USER_AGENT_RE = new RegExp([
+  'bot', 'crawl', 'spider', 'slurp', 'scrape', 'preview', 'monitor', 'archiver', 'lighthouse',
+  'headless', 'phantomjs', 'facebookexternalhit', 'embedly', 'whatsapp', 'telegram', 'discord',
+  'slack', 'curl', 'wget', 'python', 'java/', 'go-http-client', 'okhttp', 'axios', 'node-fetch', 'httpclient'
+].join('|'), 'i');
+
+/**
+ * Check if a user agent belongs to a bot; requests without one count as bots too
+ */
+export function isBot(userAgent: string | undefined): boolean {
+  return !userAgent || BOT_USER_AGENT_RE.test(userAgent);
+}
+
+const toDomain = (hostname: string): string => hostname.toLowerCase().replace(/^www\./, '');
+
+/**
+ * Domain of the Referer header, or null for links within the site and invalid referrers
+ */
+export function getReferrerDomain(referer: string | undefined, host: string | undefined): string | null {
+  if (!referer) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(referer);
+  } catch {
+    return null;
+  }
+  if ((url.protocol !== 'http:' && url.protocol !== 'https:') || !url.hostname) {
+    return null;
+  }
+
+  const domain = toDomain(url.hostname);
+  const ownDomain = host ? toDomain(host.replace(/:\d+$/, '')) : null;
+  return domain === ownDomain ? null : domain;
+}
+
+/**
+ * Visitor hashes that cannot be linked across days
+ *
+ * The salt is random, changes with the day (UTC) and is only kept in memory,
+ * so the hashes cannot be recomputed from an IP address. After a restart a
+ * visitor may be counted a second time on that day.
+ */
+export class VisitorHasher {
+  private day = '';
+  private salt = Buffer.alloc(0);
+
+  hash(ip: string, userAgent: string, now: Date = new Date()): { day: string; visitor: string } {
+    const day = toViewDay(now);
+    if (day !== this.day) {
+      this.day = day;
+      this.salt = crypto.randomBytes(32);
+    }
+
+    const visitor = crypto.createHmac('sha256', this.salt).update(`${ip}\n${userAgent}`).digest('hex');
+    return { day, visitor };
+  }
+}
+
+/**
+ * Counts page views of posts, without cookies
+ *
+ * Bots are skipped, and so are requests of the author's client (an API token
+ * or the post secret).
+ */
+export class ViewCounter {
+  private lastDay = '';
+
+  constructor(
+    private views: PostViewModel = new PostViewModel(),
+    private hasher: VisitorHasher = new VisitorHasher()
+  ) {}
+
+  /**
+   * Count a view of a post. Never throws, a failure is only logged.
+   */
+  async count(req: express.Request, post: Post, now: Date = new Date()): Promise<void> {
+    const userAgent = req.get('User-Agent');
+    if (isBot(userAgent) || req.headers.authorization || req.get('X-Post-Secret')) {
+      return;
+    }
+
+    try {
+      const { day, visitor } = this.hasher.hash(req.ip || '', userAgent || '', now);
+
+      // The hashes of earlier days are no longer needed once the salt changed
+      if (day !== this.lastDay) {
+        this.lastDay = day;
+        await this.views.deleteVisitorsBefore(day);
+      }
+
+      await this.views.recordView(post.id, day, visitor, getReferrerDomain(req.get('Referer'), req.get('host')));
+
+    } catch (error) {
+      logger.error('Failed to count post view', { error, postId: post.id });
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import crypto from 'crypto';
+import { TokenScope, UserRole } from 'shared/types';
+
+// Tokens of user accounts are recognizable, so other bearer tokens never hit the database
+const USER_TOKEN_PREFIX = 'obs_';
+
+/**
+ * Generate a new API token for a user account
+ */
+export function generateApiToken(): string {
+  return `${USER_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Check if a bearer token has the format of a user account token
+ */
+export function isUserToken(token: string): boolean {
+  return token.startsWith(USER_TOKEN_PREFIX) && token.length > USER_TOKEN_PREFIX.length;
+}
+
+/**
+ * Hash a token for storage and lookup
+ *
+ * Tokens are long random strings, so a plain SHA-256 is enough: there is
+ * nothing to guess that a slow, salted hash would protect.
+ */
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export const TOKEN_SCOPES: TokenScope[] = ['posts:create', 'posts:write', 'posts:delete', 'admin'];
+
+/**
+ * Scopes a token gets when none are requested: everything the user's role allows
+ */
+export function defaultScopes(role: UserRole): TokenScope[] {
+  return role === 'admin' ? [...TOKEN_SCOPES] : TOKEN_SCOPES.filter((scope) => scope !== 'admin');
+}
+
+/**
+ * Parse the stored scopes of a token
+ *
+ * Tokens issued before scopes existed (NULL) keep all rights of their user.
+ */
+export function parseScopes(stored: string | null, role: UserRole): TokenScope[] {
+  if (stored === null) {
+    return defaultScopes(role);
+  }
+  return stored.split(' ').filter((scope): scope is TokenScope => TOKEN_SCOPES.includes(scope as TokenScope));
+}
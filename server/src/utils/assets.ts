@@ -0,0 +1,52 @@
+// Allowed attachment types, keyed by file extension
+const ASSET_CONTENT_TYPES: { [extension: string]: string } = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime'
+};
+
+const MAX_ASSET_NAME_LENGTH = 200;
+
+/**
+ * Maximum size of a single uploaded asset (bytes or a size string like "5mb")
+ */
+export const ASSET_MAX_SIZE = process.env.ASSET_MAX_SIZE || '5mb';
+
+/**
+ * Get the content type for an asset name, or null if the type is not allowed
+ */
+export function getAssetContentType(name: string): string | null {
+  const extension = name.split('.').pop()?.toLowerCase();
+  if (!extension || extension === name.toLowerCase()) {
+    return null;
+  }
+  return ASSET_CONTENT_TYPES[extension] || null;
+}
+
+/**
+ * Validate an asset name: a plain file name with an allowed extension
+ */
+export function isValidAssetName(name: string): boolean {
+  if (typeof name !== 'string' || name.length === 0 || name.length > MAX_ASSET_NAME_LENGTH) {
+    return false;
+  }
+
+  if (name.startsWith('.') || /[/\\\p{Cc}]/u.test(name)) {
+    return false;
+  }
+
+  return getAssetContentType(name) !== null;
+}
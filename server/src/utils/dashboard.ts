@@ -0,0 +1,146 @@
+import { AdminPostInfo, PostVisibility, StorageStats } from 'shared/types';
+import { escapeHtml } from './markdownPlugins';
+import { toIsoDate } from './url';
+import { getPostPath } from './slug';
+import { ServerMetrics } from './metrics';
+import { getPlainPage, IndexPageOptions, paginate, renderPageTemplate } from './pages';
+import {
+  DashboardLoginPageContext,
+  DashboardPageContext,
+  DashboardPost,
+  DEFAULT_LANG,
+  loadSiteTitle,
+  ThemeRegistry
+} from './templates';
+
+const VISIBILITY_LABELS: { [visibility in PostVisibility]: string } = {
+  public: '公开', unlisted: '仅链接', private: '私有'
+};
+
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+const formatBytes = (bytes: number): string => {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${BYTE_UNITS[unit]}`;
+};
+
+const formatDuration = (seconds: number): string => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return days > 0 ? `${days} 天 ${hours} 小时` : hours > 0 ? `${hours} 小时 ${minutes} 分钟` : `${minutes} 分钟`;
+};
+
+export interface DashboardRendererOptions {
+  themes?: ThemeRegistry;  // Installed themes (default: src/templates)
+  siteTitle?: string;      // Shown in the page titles (default: SITE_TITLE env)
+}
+
+export interface DashboardPageData {
+  user: string;            // Name of the signed-in admin
+  notice?: string;
+  stats: StorageStats;
+  metrics: ServerMetrics;
+  posts: AdminPostInfo[];
+  query: string;
+  total: number;           // Posts matching the query
+}
+
+/**
+ * Renders the pages of the admin dashboard
+ */
+export class DashboardRenderer {
+  private themes: ThemeRegistry;
+  private siteTitle: string;
+
+  constructor(options: DashboardRendererOptions = {}) {
+    this.themes = options.themes ?? new ThemeRegistry();
+    this.siteTitle = options.siteTitle ?? loadSiteTitle();
+  }
+
+  /**
+   * Render the login form of the admin dashboard
+   */
+  async renderLoginPage(error?: string): Promise<string> {
+    const context: DashboardLoginPageContext = { lang: DEFAULT_LANG, title: this.siteTitle, error };
+
+    return await renderPageTemplate(this.themes, 'dashboard-login', context) ?? getPlainPage(context.lang, '管理面板',
+      (error ? `<p>${escapeHtml(error)}</p>` : '') +
+      '<form method="post" action="/admin/dashboard/login">' +
+      '<input type="password" name="token" required autofocus> <button type="submit">登录</button></form>');
+  }
+
+  /**
+   * Render the admin dashboard: storage, server counters and a page of posts
+   */
+  async renderDashboardPage(data: DashboardPageData, options: IndexPageOptions): Promise<string> {
+    const { stats, metrics, query } = data;
+    const { page, totalPages } = options;
+    const pageUrl = (number: number) =>
+      `/admin/dashboard?page=${number}${query ? `&q=${encodeURIComponent(query)}` : ''}`;
+    const localize = (date: string) => new Date(toIsoDate(date)).toLocaleString(DEFAULT_LANG);
+
+    const posts: DashboardPost[] = data.posts.map((post) => ({
+      id: post.id,
+      url: getPostPath(post),
+      title: post.title,
+      slug: post.slug,
+      owner: post.owner_name || 'API_TOKEN',
+      visibility: post.visibility,
+      visibility_label: VISIBILITY_LABELS[post.visibility] || post.visibility,
+      size: formatBytes(post.size + post.asset_size),
+      created_at: localize(post.created_at),
+      updated_at: localize(post.updated_at),
+      password_protected: post.password_protected,
+      expires_at: post.expires_at ? localize(post.expires_at) : undefined,
+      disabled: !!post.disabled_at,
+      disabled_reason: post.disabled_reason || undefined
+    }));
+
+    const rateLimits = Object.entries(metrics.rate_limit_hits);
+
+    const context: DashboardPageContext = {
+      lang: DEFAULT_LANG,
+      title: this.siteTitle,
+      user: data.user,
+      notice: data.notice,
+      storage: [
+        { label: '帖子', value: String(stats.posts.total) },
+        {
+          label: '公开 / 仅链接 / 私有',
+          value: `${stats.posts.public} / ${stats.posts.unlisted} / ${stats.posts.private}`
+        },
+        { label: '已停用', value: String(stats.posts.disabled) },
+        { label: '正文', value: formatBytes(stats.posts.content_bytes) },
+        { label: '附件', value: `${stats.assets.count} 个，${formatBytes(stats.assets.bytes)}` },
+        { label: '历史版本', value: `${stats.revisions.count} 个，${formatBytes(stats.revisions.bytes)}` },
+        { label: '数据库', value: formatBytes(stats.database_bytes) }
+      ],
+      server: [
+        { label: '运行时间', value: formatDuration(metrics.uptime_seconds) },
+        { label: '错误日志', value: String(metrics.errors) },
+        { label: '警告日志', value: String(metrics.warnings) },
+        ...(rateLimits.length > 0
+          ? rateLimits.map(([limiter, hits]) => ({ label: `限流（${limiter}）`, value: String(hits) }))
+          : [{ label: '限流', value: '0' }])
+      ],
+      query,
+      total: data.total,
+      page,
+      posts,
+      pagination: paginate(page, totalPages, pageUrl)
+    };
+
+    return await renderPageTemplate(this.themes, 'dashboard', context) ?? getPlainPage(context.lang, '管理面板',
+      '<h1>管理面板</h1><ul>' +
+      [...context.storage, ...context.server].map((figure) =>
+        `<li>${escapeHtml(figure.label)}: ${escapeHtml(figure.value)}</li>`
+      ).join('') +
+      '</ul>');
+  }
+}
@@ -0,0 +1,22 @@
+import { createTwoFilesPatch } from 'diff';
+
+export interface DiffSide {
+  label: string;
+  content: string;
+}
+
+/**
+ * Unified diff between two versions of a note, with 3 lines of context
+ *
+ * The file header lines are labelled with the version names, e.g.
+ * "--- revision 2" and "+++ current".
+ */
+export function unifiedDiff(from: DiffSide, to: DiffSide): string {
+  const patch = createTwoFilesPatch(from.label, to.label, from.content, to.content, '', '', { context: 3 });
+  // Drop the "Index:" / "====" preamble and the empty header timestamps
+  return patch
+    .split('\n')
+    .filter((line) => !/^(Index: |=+$)/.test(line))
+    .map((line) => /^(---|\+\+\+) /.test(line) ? line.replace(/\t$/, '') : line)
+    .join('\n');
+}
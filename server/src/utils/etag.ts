@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+import { Post } from 'shared/types';
+
+/**
+ * ETag of a post: its revision number, e.g. "3"
+ */
+export function revisionETag(post: Pick<Post, 'revision'>): string {
+  return `"${post.revision ?? 1}"`;
+}
+
+/**
+ * ETag of a generated response: a hash of its content, or of everything the content depends on
+ */
+export function contentETag(body: string): string {
+  return `"${crypto.createHash('sha256').update(body).digest('base64url').substring(0, 27)}"`;
+}
+
+/**
+ * Revisions a change may be based on, or null for an unconditional change
+ *
+ * They come from a base_revision field, or else an If-Match header with a
+ * list of ETags. "*" matches any revision, and ETags that are not revision
+ * ETags match none.
+ */
+export function expectedRevisions(baseRevision: number | undefined, ifMatch: string | undefined): number[] | null {
+  if (baseRevision !== undefined) {
+    return [baseRevision];
+  }
+  if (!ifMatch) {
+    return null;
+  }
+
+  const tags = ifMatch.split(',').map((tag) => tag.trim());
+  if (tags.includes('*')) {
+    return null;
+  }
+  return tags
+    .map((tag) => tag.match(/^"(\d{1,9})"$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => Number(match[1]));
+}
@@ -0,0 +1,98 @@
+import { Post } from 'shared/types';
+import { Database } from '../models/database';
+import { PostModel } from '../models/post';
+import { AssetModel } from '../models/asset';
+import { RevisionModel } from '../models/revision';
+import { logger } from '../middleware/logger';
+import { toIsoDate } from './url';
+
+const DEFAULT_CLEANUP_INTERVAL_MINUTES = 10;
+
+/**
+ * Check if a post's expiry time has passed
+ *
+ * Expired posts stay in the database until the next cleanup run, so readers
+ * must check this as well.
+ */
+export function isExpired(post: Post, now: Date = new Date()): boolean {
+  return !!post.expires_at && new Date(toIsoDate(post.expires_at)).getTime() <= now.getTime();
+}
+
+/**
+ * Cleanup interval from EXPIRED_CLEANUP_INTERVAL_MINUTES (default 10), in milliseconds
+ */
+export function loadCleanupInterval(env: NodeJS.ProcessEnv = process.env): number {
+  const minutes = parseFloat(env.EXPIRED_CLEANUP_INTERVAL_MINUTES || '');
+  return (minutes > 0 ? minutes : DEFAULT_CLEANUP_INTERVAL_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Background job that deletes expired posts with their assets and revisions
+ *
+ * It also deletes revisions older than REVISION_MAX_AGE_DAYS, of posts that
+ * are no longer updated as well.
+ */
+export class ExpiredPostCleanup {
+  private db = Database.getInstance();
+  private postModel = new PostModel();
+  private assetModel = new AssetModel();
+  private revisionModel = new RevisionModel();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private intervalMs: number = loadCleanupInterval()) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    // Posts that expired while the server was down go on the first run
+    this.run();
+    this.timer = setInterval(() => this.run(), this.intervalMs);
+    // The job alone must not keep the process alive
+    this.timer.unref();
+    logger.info('Expired post cleanup scheduled', { intervalMs: this.intervalMs });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Delete all expired posts and old revisions, returns how many posts were deleted
+   */
+  async run(): Promise<number> {
+    // A slow run must not overlap with the next one
+    if (this.running) {
+      return 0;
+    }
+    this.running = true;
+
+    let deleted = 0;
+    try {
+      await this.db.whenReady();
+
+      for (const id of await this.postModel.findExpiredIds()) {
+        if (await this.postModel.expire(id)) {
+          await this.assetModel.deleteByPost(id);
+          await this.revisionModel.deleteByPost(id);
+          deleted++;
+        }
+      }
+
+      if (deleted > 0) {
+        logger.info('Expired posts cleaned up', { deleted });
+      }
+
+      await this.revisionModel.pruneExpired();
+    } catch (error) {
+      logger.error('Expired post cleanup failed', { error });
+    } finally {
+      this.running = false;
+    }
+    return deleted;
+  }
+}
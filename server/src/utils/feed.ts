@@ -0,0 +1,227 @@
+import { Post } from 'shared/types';
+import { decodeHtmlEntities, escapeHtml } from './markdownPlugins';
+import { MarkdownRenderer, RenderPageOptions } from './markdown';
+import { parseStoredMetadata } from './frontmatter';
+import { toIsoDate } from './url';
+import { getPostPath } from './slug';
+import { DEFAULT_LANG, loadSiteTitle } from './templates';
+
+export type FeedFormat = 'rss' | 'atom';
+
+// What a feed entry carries: the rendered post or a plain-text summary
+export type FeedContent = 'full' | 'summary';
+
+const GENERATOR = 'obsidian-publisher';
+
+// XML 1.0 does not allow control characters other than tab and newlines, not even escaped, and discourages C1 ones
+const XML_INVALID_CHARS_RE = /(?![\t\n\r])[\p{Cc}\uFFFE\uFFFF]/gu;
+
+export const FEED_PATHS: { [format in FeedFormat]: string } = {
+  rss: '/feed.xml',
+  atom: '/atom.xml'
+};
+
+export interface FeedEntry {
+  id: string;              // Permanent URL of the post (by ID, survives slug changes)
+  url: string;             // Canonical URL
+  title: string;
+  author?: string;
+  tags: string[];
+  published: string;       // ISO 8601
+  updated: string;         // ISO 8601
+  summary: string;         // Plain text
+  content?: string;        // Sanitized HTML with absolute URLs, for full-content feeds
+}
+
+export interface FeedOptions extends RenderPageOptions {
+  format: FeedFormat;
+  tag?: string;            // Feed of the posts with this tag
+}
+
+export interface FeedRendererOptions {
+  siteTitle?: string;          // Feed title (default: SITE_TITLE env)
+  feedContent?: FeedContent;   // Full posts or summaries (default: FEED_CONTENT env)
+  markdown?: MarkdownRenderer; // Renders the content and summaries of posts
+}
+
+export interface Feed {
+  title: string;
+  lang: string;
+  siteUrl: string;         // Home page of the site
+  feedUrl: string;         // URL of the feed itself
+  updated: string;         // ISO 8601, the latest entry update
+  entries: FeedEntry[];
+}
+
+/**
+ * Feed content from FEED_CONTENT: "full" (default) or "summary"
+ */
+export function loadFeedContent(env: NodeJS.ProcessEnv = process.env): FeedContent {
+  return env.FEED_CONTENT?.trim().toLowerCase() === 'summary' ? 'summary' : 'full';
+}
+
+/**
+ * Date in the RFC 822 format RSS uses, e.g. "Mon, 19 Oct 2026 12:00:00 GMT"
+ */
+const toRfc822 = (date: string): string => new Date(date).toUTCString();
+
+const escapeXml = (text: string): string => escapeHtml(text.replace(XML_INVALID_CHARS_RE, ''));
+
+const element = (name: string, value: string, attributes = ''): string =>
+  `<${name}${attributes}>${escapeXml(value)}</${name}>`;
+
+/**
+ * Render an RSS 2.0 feed
+ *
+ * The post content goes in content:encoded, the summary in description.
+ */
+export function renderRssFeed(feed: Feed): string {
+  const items = feed.entries.map((entry) => [
+    '<item>',
+    element('title', entry.title),
+    element('link', entry.url),
+    element('guid', entry.id, ' isPermaLink="true"'),
+    element('pubDate', toRfc822(entry.published)),
+    entry.author ? element('dc:creator', entry.author) : '',
+    ...entry.tags.map((tag) => element('category', tag)),
+    element('description', entry.summary),
+    entry.content !== undefined ? element('content:encoded', entry.content) : '',
+    '</item>'
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" ' +
+      'xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '<channel>',
+    element('title', feed.title),
+    element('link', feed.siteUrl),
+    element('description', feed.title),
+    element('language', feed.lang),
+    element('generator', GENERATOR),
+    element('lastBuildDate', toRfc822(feed.updated)),
+    `<atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    ...items,
+    '</channel>',
+    '</rss>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Render an Atom feed
+ *
+ * Entries without an author fall back to the feed title, as Atom requires one.
+ */
+export function renderAtomFeed(feed: Feed): string {
+  const entries = feed.entries.map((entry) => [
+    '<entry>',
+    element('title', entry.title),
+    `<link rel="alternate" type="text/html" href="${escapeXml(entry.url)}"/>`,
+    element('id', entry.id),
+    element('published', entry.published),
+    element('updated', entry.updated),
+    entry.author ? `<author>${element('name', entry.author)}</author>` : '',
+    ...entry.tags.map((tag) => `<category term="${escapeXml(tag)}"/>`),
+    element('summary', entry.summary),
+    entry.content !== undefined ? element('content', entry.content, ' type="html"') : '',
+    '</entry>'
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(feed.lang)}">`,
+    element('title', feed.title),
+    `<link rel="alternate" type="text/html" href="${escapeXml(feed.siteUrl)}"/>`,
+    `<link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl)}"/>`,
+    element('id', feed.feedUrl),
+    element('updated', feed.updated),
+    `<author>${element('name', feed.title)}</author>`,
+    element('generator', GENERATOR),
+    ...entries,
+    '</feed>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Builds the RSS and Atom feeds of posts
+ */
+export class FeedRenderer {
+  private siteTitle: string;
+  private feedContent: FeedContent;
+  private markdown: MarkdownRenderer;
+
+  constructor(options: FeedRendererOptions = {}) {
+    this.siteTitle = options.siteTitle ?? loadSiteTitle();
+    this.feedContent = options.feedContent ?? loadFeedContent();
+    this.markdown = options.markdown ?? new MarkdownRenderer();
+  }
+
+  /**
+   * Render an RSS or Atom feed of posts
+   *
+   * Callers pass only posts that may be listed in full, i.e. public posts
+   * without a password.
+   */
+  render(posts: Post[], options: FeedOptions): string {
+    const baseUrl = options.baseUrl || '';
+    const { format, tag } = options;
+
+    const entries = posts.map((post) => this.toEntry(post, baseUrl));
+    // An empty feed was last built now
+    const updated = entries.length > 0
+      ? entries.reduce((latest, entry) => entry.updated > latest ? entry.updated : latest, entries[0].updated)
+      : new Date().toISOString();
+
+    const feed: Feed = {
+      title: tag ? `${this.siteTitle} - #${tag}` : this.siteTitle,
+      lang: DEFAULT_LANG,
+      siteUrl: `${baseUrl}/`,
+      feedUrl: `${baseUrl}${FEED_PATHS[format]}${tag ? `?tag=${encodeURIComponent(tag)}` : ''}`,
+      updated,
+      entries
+    };
+
+    return format === 'atom' ? renderAtomFeed(feed) : renderRssFeed(feed);
+  }
+
+  private toEntry(post: Post, baseUrl: string): FeedEntry {
+    const metadata = parseStoredMetadata(post.metadata);
+    const url = `${baseUrl}${getPostPath(post)}`;
+
+    const entry: FeedEntry = {
+      id: `${baseUrl}/${post.id}`,
+      url,
+      // Stored titles are HTML-escaped on the way in, the feed escapes them again
+      title: metadata.title || decodeHtmlEntities(post.title),
+      author: metadata.author,
+      tags: metadata.tags || [],
+      published: toIsoDate(metadata.date || post.created_at),
+      updated: toIsoDate(post.updated_at),
+      summary: metadata.description || this.markdown.extractText(post.content)
+    };
+
+    if (this.feedContent === 'full') {
+      const html = this.markdown.render(post.content, { postId: post.id })
+        .replace(/<a class="heading-anchor"[^>]*>#<\/a>/g, '');
+      entry.content = this.absolutizeUrls(html, url);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Resolve the links and images of rendered HTML against the post URL, feed readers show it elsewhere
+   */
+  private absolutizeUrls(html: string, pageUrl: string): string {
+    return html.replace(/\s(src|href)="([^"]*)"/g, (match, name: string, value: string) => {
+      try {
+        const url = new URL(decodeHtmlEntities(value), pageUrl);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? ` ${name}="${escapeHtml(url.href)}"` : match;
+      } catch {
+        return match;
+      }
+    });
+  }
+}
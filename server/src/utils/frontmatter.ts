@@ -0,0 +1,148 @@
+import yaml from 'js-yaml';
+import { PostMetadata, PostVisibility } from 'shared/types';
+import { logger } from '../middleware/logger';
+
+const FRONTMATTER_RE = /^---[ \t]*\r?\n([\s\S]*?)\r?\n?---[ \t]*(?:\r?\n|$)/;
+const LANG_RE = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/;
+
+export interface ParsedNote {
+  metadata: PostMetadata;
+  body: string;
+}
+
+const asString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') {
+    return value.trim() || undefined;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return undefined;
+};
+
+/**
+ * Normalize tags from a YAML list or a comma/space separated string, without "#"
+ */
+const asTags = (value: unknown): string[] | undefined => {
+  const raw = Array.isArray(value)
+    ? value.map(asString)
+    : asString(value)?.split(/[,\s]+/) || [];
+
+  const tags = raw
+    .filter((tag): tag is string => !!tag)
+    .map((tag) => tag.replace(/^#/, '').trim())
+    .filter((tag) => tag.length > 0);
+
+  return tags.length > 0 ? Array.from(new Set(tags)) : undefined;
+};
+
+const asBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const text = asString(value)?.toLowerCase();
+  if (text === 'true' || text === 'yes' || text === 'on') {
+    return true;
+  }
+  if (text === 'false' || text === 'no' || text === 'off') {
+    return false;
+  }
+  return undefined;
+};
+
+const asHeadingLevel = (value: unknown): number | undefined => {
+  const level = Number(value);
+  return Number.isInteger(level) && level >= 1 && level <= 6 ? level : undefined;
+};
+
+const asDate = (value: unknown): string | undefined => {
+  const text = asString(value);
+  if (!text) {
+    return undefined;
+  }
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const asVisibility = (value: unknown): PostVisibility | undefined => {
+  const text = asString(value)?.toLowerCase();
+  return text === 'public' || text === 'unlisted' || text === 'private' ? text : undefined;
+};
+
+/**
+ * Normalize the well-known frontmatter keys, keeping the others as written
+ */
+export function normalizeMetadata(data: Record<string, unknown>): PostMetadata {
+  const metadata: PostMetadata = { ...data };
+
+  const normalized: PostMetadata = {
+    title: asString(data.title),
+    description: asString(data.description),
+    tags: asTags(data.tags ?? data.tag),
+    date: asDate(data.date),
+    author: Array.isArray(data.author)
+      ? data.author.map(asString).filter(Boolean).join(', ') || undefined
+      : asString(data.author),
+    lang: LANG_RE.test(asString(data.lang) || '') ? asString(data.lang) : undefined,
+    theme: asString(data.theme)?.toLowerCase(),
+    toc: asBoolean(data.toc),
+    toc_depth: asHeadingLevel(data.toc_depth),
+    toc_position: data.toc_position === 'top' || data.toc_position === 'sidebar' ? data.toc_position : undefined,
+    visibility: asVisibility(data.visibility),
+    slug: asString(data.slug)?.toLowerCase()
+  };
+
+  for (const [key, value] of Object.entries(normalized)) {
+    if (value === undefined) {
+      delete metadata[key];
+    } else {
+      metadata[key] = value;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Split a note into its YAML frontmatter and Markdown body
+ *
+ * Notes without frontmatter, or with frontmatter that is not valid YAML, are
+ * returned unchanged with empty metadata.
+ */
+export function parseFrontmatter(content: string): ParsedNote {
+  const match = content.match(FRONTMATTER_RE);
+  if (!match) {
+    return { metadata: {}, body: content };
+  }
+
+  try {
+    // CORE_SCHEMA keeps dates as strings and does not construct custom types
+    const data = yaml.load(match[1], { schema: yaml.CORE_SCHEMA });
+    const metadata = data && typeof data === 'object' && !Array.isArray(data)
+      ? normalizeMetadata(data as Record<string, unknown>)
+      : {};
+
+    return { metadata, body: content.substring(match[0].length) };
+
+  } catch (error) {
+    logger.debug('Invalid frontmatter, rendering note as-is', {
+      error: error instanceof Error ? error.message : error
+    });
+    return { metadata: {}, body: content };
+  }
+}
+
+/**
+ * Parse the metadata column of a post
+ */
+export function parseStoredMetadata(metadata: string | null | undefined): PostMetadata {
+  if (!metadata) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(metadata) as PostMetadata;
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,123 @@
+import MarkdownIt from 'markdown-it';
+import Token from 'markdown-it/lib/token';
+import { escapeHtml, RenderEnv, Wikilink, wikilinkDisplayText } from './markdownPlugins';
+
+export interface Heading {
+  level: number;   // 1-6
+  text: string;    // Plain text
+  slug: string;    // Unique id within the page
+}
+
+export interface TocNode {
+  text: string;
+  slug: string;
+  children: TocNode[];
+}
+
+const FALLBACK_SLUG = 'section';
+
+/**
+ * Turn heading text into an id
+ *
+ * Letters and digits of any script are kept, so Chinese headings get readable
+ * ids like "安装步骤" instead of an empty string. The client links to headings
+ * with the same rules (headingSlug in client/src/links.ts).
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s_-]/gu, '')
+    .trim()
+    .replace(/[\s-]+/g, '-');
+}
+
+/**
+ * Plain text of a heading's inline tokens
+ */
+function headingText(inline: Token): string {
+  return (inline.children || []).map((child) => {
+    switch (child.type) {
+      case 'text':
+      case 'code_inline':
+      case 'math_inline':
+        return child.content;
+      case 'softbreak':
+      case 'hardbreak':
+        return ' ';
+      case 'wikilink':
+        return wikilinkDisplayText(child.meta as Wikilink);
+      default:
+        return '';
+    }
+  }).join('').trim();
+}
+
+/**
+ * Heading anchor plugin
+ *
+ * Gives every heading a unique slug id (duplicates get "-1", "-2", ... like
+ * GitHub), adds a permalink shown on hover, and collects the headings in
+ * `env.headings` for the table of contents.
+ */
+export function headingAnchorPlugin(md: MarkdownIt): void {
+  md.core.ruler.push('heading_anchors', (state) => {
+    const env = state.env as RenderEnv;
+    const headings: Heading[] = [];
+    const used = new Set<string>();
+
+    state.tokens.forEach((token, idx) => {
+      if (token.type !== 'heading_open') {
+        return;
+      }
+
+      const text = headingText(state.tokens[idx + 1]);
+      const base = slugify(text) || FALLBACK_SLUG;
+      let slug = base;
+      for (let i = 1; used.has(slug); i++) {
+        slug = `${base}-${i}`;
+      }
+      used.add(slug);
+
+      token.attrSet('id', slug);
+      headings.push({ level: Number(token.tag.substring(1)), text, slug });
+    });
+
+    env.headings = headings;
+  });
+
+  md.renderer.rules.heading_close = (tokens, idx, options, env, self) => {
+    const slug = tokens[idx - 2]?.attrGet('id');
+    const anchor = slug
+      ? `<a class="heading-anchor" href="#${escapeHtml(slug)}" aria-hidden="true">#</a>`
+      : '';
+    return anchor + self.renderToken(tokens, idx, options);
+  };
+}
+
+/**
+ * Nest headings into a table of contents
+ *
+ * Only headings up to level `maxDepth` are included. Nesting is relative, so a
+ * note that starts at "##" has its "##" headings at the top of the tree.
+ */
+export function buildToc(headings: Heading[], maxDepth: number): TocNode[] {
+  const root: TocNode[] = [];
+  const stack: { level: number; children: TocNode[] }[] = [{ level: 0, children: root }];
+
+  for (const heading of headings) {
+    if (heading.level > maxDepth) {
+      continue;
+    }
+
+    while (stack.length > 1 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+
+    const node: TocNode = { text: heading.text, slug: heading.slug, children: [] };
+    stack[stack.length - 1].children.push(node);
+    stack.push({ level: heading.level, children: node.children });
+  }
+
+  return root;
+}
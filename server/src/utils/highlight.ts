@@ -0,0 +1,95 @@
+import hljs from 'highlight.js';
+import { escapeHtml } from './markdownPlugins';
+
+export interface HighlightOptions {
+  lineNumbers: boolean;
+}
+
+// Languages considered for blocks without a (known) language.
+// Detecting across every language highlight.js ships gives poor guesses for short snippets.
+const AUTO_DETECT_LANGUAGES = [
+  'bash', 'shell', 'powershell', 'typescript', 'javascript', 'python', 'go', 'rust', 'java',
+  'c', 'cpp', 'csharp', 'php', 'ruby', 'sql', 'json', 'yaml', 'ini', 'xml', 'css',
+  'markdown', 'dockerfile', 'nginx', 'diff'
+];
+
+// Auto-detected languages below this relevance are rendered as plain text
+const MIN_AUTO_RELEVANCE = 3;
+
+// Info string flags that override the line number setting for one block: ```ts linenums
+const LINE_NUMBERS_ON = 'linenums';
+const LINE_NUMBERS_OFF = 'nolinenums';
+
+/**
+ * Split highlighted HTML into lines, closing and reopening spans that cross line breaks
+ */
+export function splitHighlightedLines(html: string): string[] {
+  const lines: string[] = [];
+  const openTags: string[] = [];
+  let current = '';
+
+  const tagPattern = /<span[^>]*>|<\/span>|\n/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(html)) !== null) {
+    current += html.substring(lastIndex, match.index);
+    lastIndex = match.index + match[0].length;
+
+    if (match[0] === '\n') {
+      lines.push(current + '</span>'.repeat(openTags.length));
+      current = openTags.join('');
+    } else if (match[0] === '</span>') {
+      openTags.pop();
+      current += match[0];
+    } else {
+      openTags.push(match[0]);
+      current += match[0];
+    }
+  }
+
+  lines.push(current + html.substring(lastIndex));
+  return lines;
+}
+
+/**
+ * Highlight a fenced code block
+ *
+ * Unknown or missing languages fall back to auto-detection. Returns a complete
+ * `<pre>` block, which markdown-it uses as-is.
+ */
+export function highlightCode(code: string, lang: string, attrs: string, options: HighlightOptions): string {
+  let language = lang && hljs.getLanguage(lang) ? lang : '';
+  let html: string;
+
+  try {
+    if (language) {
+      html = hljs.highlight(code, { language, ignoreIllegals: true }).value;
+    } else {
+      const result = hljs.highlightAuto(code, AUTO_DETECT_LANGUAGES);
+      if (result.language && result.relevance >= MIN_AUTO_RELEVANCE) {
+        language = result.language;
+        html = result.value;
+      } else {
+        html = escapeHtml(code);
+      }
+    }
+  } catch {
+    language = '';
+    html = escapeHtml(code);
+  }
+
+  const flags = attrs.split(/\s+/);
+  const lineNumbers = flags.includes(LINE_NUMBERS_ON) || (options.lineNumbers && !flags.includes(LINE_NUMBERS_OFF));
+
+  if (lineNumbers) {
+    const lines = splitHighlightedLines(html.replace(/\n$/, ''));
+    html = lines.map((line) => `<span class="code-line">${line}</span>`).join('\n') + '\n';
+  }
+
+  const languageClass = escapeHtml(lang || language);
+  const codeClasses = ['hljs', ...(languageClass ? [`language-${languageClass}`] : [])];
+  const preClass = lineNumbers ? 'hljs line-numbers' : 'hljs';
+
+  return `<pre class="${preClass}"><code class="${codeClasses.join(' ')}">${html}</code></pre>\n`;
+}
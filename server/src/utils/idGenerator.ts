@@ -1,6 +1,9 @@
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../middleware/logger';
 
+const SECRET_HASH_PREFIX = 'sha256:';
+
 export class IDGenerator {
   // Characters for short ID generation (excluding confusing ones: 0, O, 1, I, l)
   private static readonly CHARS = 'abcdefghijkmnpqrstuvwxyzABCDEFGHJKMNPQRSTUVWXYZ23456789';
@@ -83,6 +86,44 @@ export class IDGenerator {
     return uuidRegex.test(secret);
   }
 
+  /**
+   * Hash a secret for storage as "sha256:<salt>:<hash>"
+   *
+   * Secrets are random UUIDs, so a salted SHA-256 is enough: there is
+   * nothing to guess that a slow hash would protect.
+   */
+  static hashSecret(secret: string): string {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = crypto.createHash('sha256').update(`${salt}:${secret}`).digest('hex');
+    return `${SECRET_HASH_PREFIX}${salt}:${hash}`;
+  }
+
+  /**
+   * Check if a stored secret is hashed (see hashSecret)
+   */
+  static isHashedSecret(stored: string): boolean {
+    return stored.startsWith(SECRET_HASH_PREFIX);
+  }
+
+  /**
+   * Verify a secret against its stored hash in constant time
+   *
+   * Secrets stored before hashing was introduced are compared directly until
+   * the startup migration has hashed them.
+   */
+  static verifySecret(provided: string, stored: string): boolean {
+    if (!this.isHashedSecret(stored)) {
+      return this.compareSecrets(provided, stored);
+    }
+
+    const [salt, hash] = stored.substring(SECRET_HASH_PREFIX.length).split(':');
+    if (!salt || !hash) {
+      return false;
+    }
+    const providedHash = crypto.createHash('sha256').update(`${salt}:${provided}`).digest('hex');
+    return this.compareSecrets(providedHash, hash);
+  }
+
   /**
    * Time-safe secret comparison to prevent timing attacks
    */
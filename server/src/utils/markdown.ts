@@ -1,30 +1,69 @@
 import MarkdownIt from 'markdown-it';
-import fs from 'fs/promises';
-import path from 'path';
 import { Post } from 'shared/types';
 import { logger } from '../middleware/logger';
+import {
+  attachmentPlugin,
+  calloutPlugin,
+  commentPlugin,
+  decodeHtmlEntities,
+  highlightPlugin,
+  RenderEnv,
+  taskListPlugin,
+  wikilinkPlugin
+} from './markdownPlugins';
+import { highlightCode } from './highlight';
+import { mathPlugin } from './math';
+import { parseStoredMetadata } from './frontmatter';
+import { HtmlSanitizer, loadSanitizePolicy, SanitizePolicy } from './sanitize';
+import { toAbsoluteUrl, toIsoDate } from './url';
+import { getPostPath } from './slug';
+import { DEFAULT_LANG, PageContext, PageTemplate, ThemeRegistry } from './templates';
+import { buildToc, headingAnchorPlugin } from './headings';
+
+const DEFAULT_THEME = 'default';
+const DEFAULT_TOC_DEPTH = 3;
+
+export interface MarkdownRendererOptions {
+  lineNumbers?: boolean;   // Show line numbers in code blocks (default: CODE_LINE_NUMBERS env)
+  sanitize?: SanitizePolicy; // Allowed HTML in rendered posts (default: SANITIZE_* env)
+  defaultTheme?: string;     // Theme for posts without one (default: DEFAULT_THEME env)
+  themes?: ThemeRegistry;    // Installed themes (default: src/templates)
+}
+
+export interface RenderPageOptions {
+  baseUrl?: string;        // Public site URL, used for canonical and Open Graph URLs
+}
 
 export class MarkdownRenderer {
   private md: MarkdownIt;
-  private template: string | null = null;
+  private sanitizer: HtmlSanitizer;
+  private themes: ThemeRegistry;
+  private defaultTheme: string;
+  private fallbackTemplate: PageTemplate | null = null;
+
+  constructor(options: MarkdownRendererOptions = {}) {
+    const lineNumbers = options.lineNumbers ?? process.env.CODE_LINE_NUMBERS === 'true';
 
-  constructor() {
     this.md = new MarkdownIt({
       html: true,          // Enable HTML tags in source
       xhtmlOut: true,      // Use '/' to close single tags (<br />)
       breaks: true,        // Convert '\n' in paragraphs into <br>
       linkify: true,       // Autoconvert URL-like text to links
       typographer: true,   // Enable some language-neutral replacement + quotes beautification
+      highlight: (code, lang, attrs) => highlightCode(code, lang, attrs, { lineNumbers })
     });
 
+    this.themes = options.themes ?? new ThemeRegistry();
+    this.defaultTheme = options.defaultTheme ?? (process.env.DEFAULT_THEME || DEFAULT_THEME);
+
+    // Raw HTML is allowed in notes, so the rendered output goes through an allow-list
+    this.sanitizer = new HtmlSanitizer(options.sanitize ?? loadSanitizePolicy());
+
     // Configure plugins or custom rules if needed
     this.configureMarkdown();
   }
 
   private configureMarkdown(): void {
-    // Add custom rendering rules if needed
-    // For example, to handle code blocks with syntax highlighting
-    
     // Custom link rendering to add target="_blank" for external links
     const defaultRender = this.md.renderer.rules.link_open || function(tokens, idx, options, env, self) {
       return self.renderToken(tokens, idx, options);
@@ -41,14 +80,32 @@ export class MarkdownRenderer {
       
       return defaultRender(tokens, idx, options, env, self);
     };
+
+    // Obsidian [[wikilinks]] that were not resolved to a published post
+    this.md.use(wikilinkPlugin);
+
+    // Links to uploaded attachments (assets/<name>) and Obsidian image sizes
+    this.md.use(attachmentPlugin);
+
+    // Obsidian reading view syntax: %% comments %%, ==highlights==, callouts and task lists
+    this.md.use(commentPlugin);
+    this.md.use(highlightPlugin);
+    this.md.use(calloutPlugin);
+    this.md.use(taskListPlugin);
+
+    // $inline$ and $$block$$ math, rendered to HTML + MathML with KaTeX
+    this.md.use(mathPlugin);
+
+    // Slug ids and permalinks for headings, collected for the table of contents
+    this.md.use(headingAnchorPlugin);
   }
 
   /**
-   * Render Markdown to HTML string
+   * Render Markdown to sanitized HTML string
    */
-  render(markdown: string): string {
+  render(markdown: string, env: RenderEnv = {}): string {
     try {
-      return this.md.render(markdown);
+      return this.sanitizer.sanitize(this.md.render(markdown, env));
     } catch (error) {
       logger.error('Markdown rendering failed', { error });
       throw new Error('Failed to render markdown content');
@@ -56,24 +113,35 @@ export class MarkdownRenderer {
   }
 
   /**
-   * Load HTML template
+   * Check whether a theme is installed
+   */
+  async hasTheme(name: string): Promise<boolean> {
+    return this.themes.hasTheme(name);
+  }
+
+  /**
+   * Load the page template of a theme
+   *
+   * Unknown or broken themes fall back to the default theme, then to the
+   * built-in template.
    */
-  private async loadTemplate(): Promise<string> {
-    if (this.template) {
-      return this.template;
+  private async loadTemplate(theme: string): Promise<PageTemplate> {
+    for (const name of Array.from(new Set([theme, this.defaultTheme, DEFAULT_THEME]))) {
+      try {
+        return await this.themes.getTemplate(name);
+      } catch (error) {
+        logger.error('Failed to load theme template', { error, theme: name });
+      }
     }
 
-    try {
-      const templatePath = path.join(__dirname, '../templates/article.html');
-      this.template = await fs.readFile(templatePath, 'utf-8');
-      return this.template;
-    } catch (error) {
-      logger.error('Failed to load HTML template', { error });
-      
-      // Fallback template
-      this.template = this.getDefaultTemplate();
-      return this.template;
+    return this.getFallbackTemplate();
+  }
+
+  private getFallbackTemplate(): PageTemplate {
+    if (!this.fallbackTemplate) {
+      this.fallbackTemplate = this.themes.compile(this.getDefaultTemplate());
     }
+    return this.fallbackTemplate;
   }
 
   /**
@@ -81,11 +149,21 @@ export class MarkdownRenderer {
    */
   private getDefaultTemplate(): string {
     return `<!DOCTYPE html>
-<html lang="zh-CN">
+<html lang="{{lang}}">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>{{title}}</title>
+    <meta name="description" content="{{description}}">
+    <link rel="canonical" href="{{canonical_url}}">
+    <meta property="og:type" content="article">
+    <meta property="og:title" content="{{title}}">
+    <meta property="og:description" content="{{description}}">
+    <meta property="og:url" content="{{canonical_url}}">
+    <meta property="article:published_time" content="{{published_time}}">
+    <meta property="article:modified_time" content="{{modified_time}}">
+    <meta name="twitter:card" content="{{twitter_card}}">
+    {{#if og_image}}<meta property="og:image" content="{{og_image}}">{{/if}}
     <style>
         body {
             max-width: 800px;
@@ -185,9 +263,9 @@ export class MarkdownRenderer {
     <article>
         <header class="article-header">
             <h1>{{title}}</h1>
-            <div class="article-meta">发布时间: {{created_at}}</div>
+            <div class="article-meta">{{#if author}}{{author}} {{/if}}发布时间: {{created_at}}</div>
         </header>
-        <div class="content">{{content}}</div>
+        <div class="content">{{{content}}}</div>
         <footer class="article-footer">
             <small>最后更新: {{updated_at}}</small>
         </footer>
@@ -198,26 +276,59 @@ export class MarkdownRenderer {
 
   /**
    * Render a post to complete HTML page
+   *
+   * Frontmatter keys (title, description, tags, date, author, lang) take
+   * precedence over the stored post fields; toc, toc_depth and toc_position
+   * control the table of contents.
    */
-  async renderToHtml(post: Post): Promise<string> {
+  async renderToHtml(post: Post, options: RenderPageOptions = {}): Promise<string> {
     try {
-      const template = await this.loadTemplate();
-      const htmlContent = this.render(post.content);
+      const theme = post.theme || this.defaultTheme;
+      const template = await this.loadTemplate(theme);
+      const metadata = parseStoredMetadata(post.metadata);
+      const env: RenderEnv = { postId: post.id };
+      const htmlContent = this.render(post.content, env);
+      const toc = metadata.toc ? buildToc(env.headings || [], metadata.toc_depth || DEFAULT_TOC_DEPTH) : [];
+
+      const title = metadata.title || post.title;
+      const lang = metadata.lang || DEFAULT_LANG;
+
+      // Link previews (Open Graph / Twitter) need absolute URLs
+      const baseUrl = options.baseUrl || '';
+      const imageUrl = this.findFirstImage(htmlContent, baseUrl);
 
-      // Format dates
-      const createdAt = new Date(post.created_at).toLocaleString('zh-CN');
-      const updatedAt = new Date(post.updated_at).toLocaleString('zh-CN');
+      const context: PageContext = {
+        title,
+        description: metadata.description || this.extractText(post.content),
+        lang,
+        author: metadata.author,
+        tags: metadata.tags || [],
+        content: htmlContent,
+        created_at: new Date(metadata.date || post.created_at).toLocaleString(lang),
+        updated_at: new Date(post.updated_at).toLocaleString(lang),
+        canonical_url: `${baseUrl}${getPostPath(post)}`,
+        published_time: toIsoDate(metadata.date || post.created_at),
+        modified_time: toIsoDate(post.updated_at),
+        twitter_card: imageUrl ? 'summary_large_image' : 'summary',
+        og_image: imageUrl || undefined,
+        theme,
+        toc: toc.length > 0 ? toc : undefined,
+        toc_position: metadata.toc_position || 'top'
+      };
 
-      // Replace template variables
-      const html = template
-        .replace(/\{\{title\}\}/g, this.escapeHtml(post.title))
-        .replace(/\{\{content\}\}/g, htmlContent)
-        .replace(/\{\{created_at\}\}/g, createdAt)
-        .replace(/\{\{updated_at\}\}/g, updatedAt);
+      let html: string;
+      try {
+        html = template(context);
+      } catch (error) {
+        // e.g. a theme using a partial that does not exist
+        logger.error('Failed to render theme template', { error, theme });
+        html = this.getFallbackTemplate()(context);
+      }
 
       logger.debug('Post rendered to HTML', { 
         id: post.id, 
-        title: post.title.substring(0, 50),
+        title: title.substring(0, 50),
+        theme,
         contentLength: htmlContent.length 
       });
 
@@ -230,17 +341,14 @@ export class MarkdownRenderer {
   }
 
   /**
-   * Escape HTML entities for safe insertion in attributes
+   * Absolute URL of the first image in rendered HTML, if any
    */
-  private escapeHtml(text: string): string {
-    const map: { [key: string]: string } = {
-      '&': '&amp;',
-      '<': '&lt;',
-      '>': '&gt;',
-      '"': '&quot;',
-      "'": '&#39;',
-    };
-    return text.replace(/[&<>"']/g, (char) => map[char]);
+  private findFirstImage(html: string, baseUrl: string): string | null {
+    const match = html.match(/<img\b[^>]*?\ssrc="([^"]+)"/);
+    if (!match) {
+      return null;
+    }
+    return toAbsoluteUrl(decodeHtmlEntities(match[1]), baseUrl);
   }
 
   /**
@@ -249,7 +357,12 @@ export class MarkdownRenderer {
   extractText(markdown: string, maxLength: number = 160): string {
     try {
       const html = this.render(markdown);
-      const text = html.replace(/<[^>]*>/g, '').trim();
+      const text = decodeHtmlEntities(html
+        .replace(/<a class="heading-anchor"[^>]*>#<\/a>/g, '')
+        .replace(/<\/(p|h[1-6]|li|td|th|pre|blockquote|div)>|<br\s*\/?>/g, ' ')
+        .replace(/<[^>]*>/g, ''))
+        .replace(/\s+/g, ' ')
+        .trim();
       
       if (text.length <= maxLength) {
         return text;
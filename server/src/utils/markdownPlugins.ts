@@ -0,0 +1,433 @@
+import MarkdownIt from 'markdown-it';
+import Token from 'markdown-it/lib/token';
+import { Heading } from './headings';
+
+/**
+ * Escape HTML entities for plugin output
+ */
+export function escapeHtml(text: string): string {
+  const map: { [key: string]: string } = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+  };
+  return text.replace(/[&<>"']/g, (char) => map[char]);
+}
+
+// Entities the sanitizer emits when serializing text, and express-validator's escape() on stored titles
+const HTML_ENTITIES: { [name: string]: string } = {
+  lt: '<', gt: '>', quot: '"', '#39': "'", nbsp: ' ', '#x27': "'", '#x2F': '/', '#x5C': '\\', '#96': '`', amp: '&'
+};
+
+/**
+ * Decode the entities of escaped text, the reverse of escapeHtml
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(lt|gt|quot|#39|nbsp|#x27|#x2F|#x5C|#96|amp);/g, (entity, name: string) => HTML_ENTITIES[name]);
+}
+
+export interface Wikilink {
+  target: string;
+  heading?: string;
+  alias?: string;
+  embed: boolean;
+}
+
+/**
+ * Parse the inner part of an Obsidian wikilink: `Note#Heading|alias`
+ */
+export function parseWikilink(inner: string, embed = false): Wikilink {
+  const pipeIndex = inner.indexOf('|');
+  const linkPart = pipeIndex >= 0 ? inner.substring(0, pipeIndex) : inner;
+  const alias = pipeIndex >= 0 ? inner.substring(pipeIndex + 1).trim() : undefined;
+
+  const hashIndex = linkPart.indexOf('#');
+  const target = (hashIndex >= 0 ? linkPart.substring(0, hashIndex) : linkPart).trim();
+  const heading = hashIndex >= 0 ? linkPart.substring(hashIndex + 1).trim() : undefined;
+
+  return {
+    target,
+    heading: heading || undefined,
+    alias: alias || undefined,
+    embed
+  };
+}
+
+/**
+ * Text Obsidian shows for a wikilink without an alias: "Note", "Note > Heading" or "Heading"
+ */
+export function wikilinkDisplayText(link: Wikilink): string {
+  if (link.alias) {
+    return link.alias;
+  }
+  if (link.heading) {
+    return link.target ? `${link.target} > ${link.heading}` : link.heading;
+  }
+  return link.target;
+}
+
+/**
+ * Wikilink plugin
+ *
+ * Links to published notes are rewritten by the client into regular Markdown links
+ * before upload, so any `[[...]]` left in the content points at a note that is not
+ * published. Those are rendered as styled text instead of a dead link.
+ */
+export function wikilinkPlugin(md: MarkdownIt): void {
+  md.inline.ruler.before('image', 'wikilink', (state, silent) => {
+    const src = state.src;
+    let pos = state.pos;
+    let embed = false;
+
+    if (src.charCodeAt(pos) === 0x21 /* ! */) {
+      embed = true;
+      pos++;
+    }
+
+    if (src.charCodeAt(pos) !== 0x5B /* [ */ || src.charCodeAt(pos + 1) !== 0x5B /* [ */) {
+      return false;
+    }
+
+    const end = src.indexOf(']]', pos + 2);
+    if (end < 0 || end > state.posMax) {
+      return false;
+    }
+
+    const inner = src.substring(pos + 2, end);
+    if (!inner.trim() || /[\n[\]]/.test(inner)) {
+      return false;
+    }
+
+    if (!silent) {
+      const token = state.push('wikilink', '', 0);
+      token.meta = parseWikilink(inner, embed);
+      token.content = inner;
+    }
+
+    state.pos = end + 2;
+    return true;
+  });
+
+  md.renderer.rules.wikilink = (tokens, idx) => {
+    const link = tokens[idx].meta as Wikilink;
+    const classes = ['wikilink', 'wikilink-unresolved'];
+    if (link.embed) {
+      classes.push('wikilink-embed');
+    }
+
+    return `<span class="${classes.join(' ')}" title="${escapeHtml(link.target || link.heading || '')}">` +
+      `${escapeHtml(wikilinkDisplayText(link))}</span>`;
+  };
+}
+
+/**
+ * Render environment passed to markdown-it
+ */
+export interface RenderEnv {
+  postId?: string;
+  headings?: Heading[];   // Filled by headingAnchorPlugin
+}
+
+const ASSET_PATH_PREFIX = 'assets/';
+const IMAGE_SIZE_RE = /^(.*?)\|(\d+)(?:x(\d+))?$/;
+
+/**
+ * Attachment plugin
+ *
+ * The client uploads embedded vault files as post assets and rewrites their links to
+ * `assets/<name>`. Those paths are resolved against the post URL here, since a relative
+ * path would resolve against the site root. Also applies Obsidian's `![alt|300](...)`
+ * and `![alt|300x200](...)` image size syntax.
+ */
+export function attachmentPlugin(md: MarkdownIt): void {
+  md.core.ruler.push('attachments', (state) => {
+    const { postId } = state.env as RenderEnv;
+
+    const resolve = (token: Token, attr: string) => {
+      const value = token.attrGet(attr);
+      if (postId && value && value.startsWith(ASSET_PATH_PREFIX)) {
+        token.attrSet(attr, `/${postId}/${value}`);
+      }
+    };
+
+    for (const blockToken of state.tokens) {
+      if (blockToken.type !== 'inline' || !blockToken.children) {
+        continue;
+      }
+
+      for (const token of blockToken.children) {
+        if (token.type === 'link_open') {
+          resolve(token, 'href');
+        } else if (token.type === 'image') {
+          resolve(token, 'src');
+
+          const sizeMatch = token.content.match(IMAGE_SIZE_RE);
+          if (sizeMatch) {
+            token.attrSet('width', sizeMatch[2]);
+            if (sizeMatch[3]) {
+              token.attrSet('height', sizeMatch[3]);
+            }
+            // The alt text is rendered from the children
+            token.content = sizeMatch[1];
+            token.children = md.parseInline(sizeMatch[1], state.env)[0]?.children || [];
+          }
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Remove Obsidian `%% comments %%` from Markdown source
+ *
+ * Comments may span several lines; an unclosed comment hides the rest of the note,
+ * like in Obsidian. Fenced code blocks and inline code spans are left untouched.
+ */
+export function stripComments(src: string): string {
+  const output: string[] = [];
+  let inComment = false;
+  let fence: string | null = null;
+
+  for (const line of src.split('\n')) {
+    if (!inComment && fence) {
+      output.push(line);
+      if (line.trim().startsWith(fence)) {
+        fence = null;
+      }
+      continue;
+    }
+
+    const fenceMatch = !inComment && line.match(/^ {0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      fence = fenceMatch[1];
+      output.push(line);
+      continue;
+    }
+
+    let result = '';
+    let hadComment = inComment;
+    let pos = 0;
+
+    while (pos < line.length) {
+      if (inComment) {
+        const end = line.indexOf('%%', pos);
+        if (end < 0) {
+          break;
+        }
+        inComment = false;
+        pos = end + 2;
+      } else if (line[pos] === '`') {
+        // Copy inline code spans as-is
+        let runEnd = pos;
+        while (line[runEnd] === '`') {
+          runEnd++;
+        }
+        const run = line.substring(pos, runEnd);
+        const close = line.indexOf(run, pos + run.length);
+        const next = close >= 0 ? close + run.length : pos + run.length;
+        result += line.substring(pos, next);
+        pos = next;
+      } else if (line.startsWith('%%', pos)) {
+        inComment = true;
+        hadComment = true;
+        pos += 2;
+      } else {
+        result += line[pos];
+        pos++;
+      }
+    }
+
+    // Drop lines that only contained a comment instead of leaving a blank line
+    if (!hadComment || result.trim()) {
+      output.push(result);
+    }
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Comment plugin - `%% hidden %%` text never reaches the rendered HTML
+ */
+export function commentPlugin(md: MarkdownIt): void {
+  md.core.ruler.after('normalize', 'obsidian_comments', (state) => {
+    state.src = stripComments(state.src);
+  });
+}
+
+/**
+ * Highlight plugin - `==text==` renders as `<mark>`
+ */
+export function highlightPlugin(md: MarkdownIt): void {
+  md.inline.ruler.before('emphasis', 'highlight', (state, silent) => {
+    const start = state.pos;
+    const src = state.src;
+
+    if (src.charCodeAt(start) !== 0x3D /* = */ || src.charCodeAt(start + 1) !== 0x3D) {
+      return false;
+    }
+
+    // Opening and closing markers must hug the text: "==text==", not "a == b"
+    if (start + 2 >= state.posMax || /\s|=/.test(src[start + 2])) {
+      return false;
+    }
+
+    let end = src.indexOf('==', start + 2);
+    while (end >= 0 && /\s/.test(src[end - 1])) {
+      end = src.indexOf('==', end + 1);
+    }
+    if (end < 0 || end + 2 > state.posMax) {
+      return false;
+    }
+
+    if (!silent) {
+      const oldPosMax = state.posMax;
+
+      state.push('mark_open', 'mark', 1).markup = '==';
+      state.pos = start + 2;
+      state.posMax = end;
+      state.md.inline.tokenize(state);
+      state.posMax = oldPosMax;
+      state.push('mark_close', 'mark', -1).markup = '==';
+    }
+
+    state.pos = end + 2;
+    return true;
+  });
+}
+
+interface Callout {
+  type: string;
+  fold: '' | '+' | '-';
+  title: string;
+}
+
+const CALLOUT_RE = /^\[!([\w-]+)\]([+-]?)[ \t]*(.*)$/;
+
+/**
+ * Callout plugin
+ *
+ * Turns `> [!type] Title` blockquotes into callouts. Foldable callouts (`[!type]+` and
+ * `[!type]-`) become `<details>` elements so they work without JavaScript.
+ */
+export function calloutPlugin(md: MarkdownIt): void {
+  md.core.ruler.after('block', 'callout', (state) => {
+    const tokens = state.tokens;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const inline = tokens[i + 2];
+      if (tokens[i].type !== 'blockquote_open' || tokens[i + 1]?.type !== 'paragraph_open' || inline?.type !== 'inline') {
+        continue;
+      }
+
+      const newline = inline.content.indexOf('\n');
+      const firstLine = newline >= 0 ? inline.content.substring(0, newline) : inline.content;
+      const match = firstLine.match(CALLOUT_RE);
+      if (!match) {
+        continue;
+      }
+
+      let close = i + 1;
+      while (close < tokens.length && !(tokens[close].type === 'blockquote_close' && tokens[close].level === tokens[i].level)) {
+        close++;
+      }
+
+      const callout: Callout = {
+        type: match[1].toLowerCase(),
+        fold: match[2] as Callout['fold'],
+        title: match[3].trim()
+      };
+      tokens[i].meta = { callout };
+      if (tokens[close]) {
+        tokens[close].meta = { callout };
+      }
+
+      // The first line is the callout title, the rest stays as content
+      const body = newline >= 0 ? inline.content.substring(newline + 1) : '';
+      if (body.trim()) {
+        inline.content = body;
+      } else {
+        tokens.splice(i + 1, 3);
+      }
+    }
+  });
+
+  md.renderer.rules.blockquote_open = (tokens, idx, options, env, self) => {
+    const callout = tokens[idx].meta?.callout as Callout | undefined;
+    if (!callout) {
+      return self.renderToken(tokens, idx, options);
+    }
+
+    const type = escapeHtml(callout.type);
+    const title = callout.title
+      ? md.renderInline(callout.title, env)
+      : escapeHtml(callout.type.charAt(0).toUpperCase() + callout.type.slice(1));
+
+    if (callout.fold) {
+      return `<details class="callout" data-callout="${type}"${callout.fold === '+' ? ' open' : ''}>\n` +
+        `<summary class="callout-title">${title}</summary>\n<div class="callout-content">\n`;
+    }
+
+    return `<div class="callout" data-callout="${type}">\n` +
+      `<div class="callout-title">${title}</div>\n<div class="callout-content">\n`;
+  };
+
+  md.renderer.rules.blockquote_close = (tokens, idx, options, env, self) => {
+    const callout = tokens[idx].meta?.callout as Callout | undefined;
+    if (!callout) {
+      return self.renderToken(tokens, idx, options);
+    }
+
+    return callout.fold ? '</div>\n</details>\n' : '</div>\n</div>\n';
+  };
+}
+
+const TASK_RE = /^\[([ xX])\][ \t]+/;
+
+/**
+ * Task list plugin - `- [ ]` and `- [x]` list items render as disabled checkboxes
+ */
+export function taskListPlugin(md: MarkdownIt): void {
+  md.core.ruler.after('block', 'task_list', (state) => {
+    const tokens = state.tokens;
+    const lists: Token[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+
+      if (token.type === 'bullet_list_open' || token.type === 'ordered_list_open') {
+        lists.push(token);
+      } else if (token.type === 'bullet_list_close' || token.type === 'ordered_list_close') {
+        lists.pop();
+      } else if (token.type === 'list_item_open') {
+        const inline = tokens[i + 2];
+        const match = tokens[i + 1]?.type === 'paragraph_open' && inline?.type === 'inline'
+          ? inline.content.match(TASK_RE)
+          : null;
+        if (!match) {
+          continue;
+        }
+
+        inline.content = inline.content.substring(match[0].length);
+        token.meta = { task: { checked: match[1] !== ' ' } };
+        token.attrJoin('class', 'task-list-item');
+        const list = lists[lists.length - 1];
+        if (list && !list.attrGet('class')?.includes('contains-task-list')) {
+          list.attrJoin('class', 'contains-task-list');
+        }
+      }
+    }
+  });
+
+  md.renderer.rules.list_item_open = (tokens, idx, options, env, self) => {
+    const task = tokens[idx].meta?.task as { checked: boolean } | undefined;
+    const html = self.renderToken(tokens, idx, options);
+    if (!task) {
+      return html;
+    }
+
+    return html + `<input type="checkbox" class="task-list-item-checkbox" disabled${task.checked ? ' checked' : ''} /> `;
+  };
+}
@@ -0,0 +1,153 @@
+import katex from 'katex';
+import MarkdownIt from 'markdown-it';
+import path from 'path';
+import { escapeHtml } from './markdownPlugins';
+
+/**
+ * Directory with the KaTeX stylesheet and fonts, served from our own origin
+ */
+export const KATEX_ASSETS_DIR = path.dirname(require.resolve('katex/dist/katex.min.css'));
+
+/**
+ * Render TeX to static HTML + MathML
+ *
+ * Invalid TeX renders as a visible error box instead of failing the whole page.
+ */
+export function renderMath(tex: string, displayMode: boolean): string {
+  try {
+    return katex.renderToString(tex, {
+      displayMode,
+      output: 'htmlAndMathml',
+      throwOnError: true,
+      trust: false,
+      strict: 'ignore'
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Invalid TeX';
+
+    if (displayMode) {
+      return `<div class="math-error"><code>${escapeHtml(tex)}</code>` +
+        `<div class="math-error-message">${escapeHtml(message)}</div></div>`;
+    }
+    return `<span class="math-error" title="${escapeHtml(message)}"><code>${escapeHtml(tex)}</code></span>`;
+  }
+}
+
+const isWhitespace = (char: string | undefined) => char === undefined || /\s/.test(char);
+
+/**
+ * Math plugin
+ *
+ * `$inline$` and `$$display$$` math, rendered like Obsidian does with MathJax.
+ * A `$` only opens math when followed by a non-space character and only closes it
+ * when preceded by one and not followed by a digit, so prices like "$5 and $10" stay text.
+ */
+export function mathPlugin(md: MarkdownIt): void {
+  md.inline.ruler.after('escape', 'math_inline', (state, silent) => {
+    const src = state.src;
+    const start = state.pos;
+
+    if (src[start] !== '$') {
+      return false;
+    }
+
+    // $$...$$ inside a paragraph is display math
+    if (src[start + 1] === '$') {
+      const end = src.indexOf('$$', start + 2);
+      if (end < 0 || end + 2 > state.posMax || !src.substring(start + 2, end).trim()) {
+        return false;
+      }
+      if (!silent) {
+        const token = state.push('math_block_inline', 'math', 0);
+        token.content = src.substring(start + 2, end).trim();
+        token.markup = '$$';
+      }
+      state.pos = end + 2;
+      return true;
+    }
+
+    if (isWhitespace(src[start + 1])) {
+      return false;
+    }
+
+    let end = start + 1;
+    while ((end = src.indexOf('$', end)) >= 0 && end < state.posMax) {
+      if (src[end - 1] === '\\') {
+        end++;
+        continue;
+      }
+      if (isWhitespace(src[end - 1]) || /\d/.test(src[end + 1] || '')) {
+        end++;
+        continue;
+      }
+      break;
+    }
+    if (end < 0 || end >= state.posMax) {
+      return false;
+    }
+
+    if (!silent) {
+      const token = state.push('math_inline', 'math', 0);
+      token.content = src.substring(start + 1, end);
+      token.markup = '$';
+    }
+    state.pos = end + 1;
+    return true;
+  });
+
+  md.block.ruler.after('blockquote', 'math_block', (state, startLine, endLine, silent) => {
+    let pos = state.bMarks[startLine] + state.tShift[startLine];
+    let max = state.eMarks[startLine];
+
+    if (state.sCount[startLine] - state.blkIndent >= 4 || state.src.substring(pos, pos + 2) !== '$$') {
+      return false;
+    }
+
+    pos += 2;
+    let firstLine = state.src.substring(pos, max);
+    let content = '';
+    let nextLine = startLine;
+    let closed = false;
+
+    // Single line: $$ x^2 $$
+    if (firstLine.trim().endsWith('$$')) {
+      firstLine = firstLine.trim().slice(0, -2);
+      closed = true;
+    }
+
+    if (silent) {
+      return true;
+    }
+
+    while (!closed) {
+      nextLine++;
+      if (nextLine >= endLine) {
+        break;
+      }
+
+      pos = state.bMarks[nextLine] + state.tShift[nextLine];
+      max = state.eMarks[nextLine];
+      const line = state.src.substring(pos, max);
+
+      if (line.trim().endsWith('$$')) {
+        content += line.trim().slice(0, -2);
+        closed = true;
+      } else {
+        content += line + '\n';
+      }
+    }
+
+    state.line = Math.min(nextLine + 1, endLine);
+
+    const token = state.push('math_block', 'math', 0);
+    token.block = true;
+    token.content = (firstLine.trim() ? firstLine + '\n' : '') + content;
+    token.map = [startLine, state.line];
+    token.markup = '$$';
+    return true;
+  }, { alt: ['paragraph', 'reference', 'blockquote', 'list'] });
+
+  md.renderer.rules.math_inline = (tokens, idx) => renderMath(tokens[idx].content, false);
+  md.renderer.rules.math_block_inline = (tokens, idx) => renderMath(tokens[idx].content, true);
+  md.renderer.rules.math_block = (tokens, idx) => renderMath(tokens[idx].content.trim(), true) + '\n';
+}
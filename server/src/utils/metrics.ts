@@ -0,0 +1,49 @@
+// Counters for the admin dashboard. They are kept in memory, so they start
+// at zero whenever the server starts.
+
+export interface ServerMetrics {
+  started_at: string;                    // ISO 8601
+  uptime_seconds: number;
+  errors: number;                        // Entries logged at level error
+  warnings: number;                      // Entries logged at level warn
+  rate_limit_hits: { [limiter: string]: number }; // Requests answered with 429, by limiter
+}
+
+let startedAt = new Date();
+let logCounts = { error: 0, warn: 0 };
+let rateLimitHits = new Map<string, number>();
+
+/**
+ * Count a log entry, called by the logger for every entry it writes
+ */
+export function recordLogEntry(level: string): void {
+  if (level === 'error' || level === 'warn') {
+    logCounts[level]++;
+  }
+}
+
+/**
+ * Count a request that was rejected by a rate limiter
+ */
+export function recordRateLimitHit(limiter: string): void {
+  rateLimitHits.set(limiter, (rateLimitHits.get(limiter) || 0) + 1);
+}
+
+export function getServerMetrics(now: Date = new Date()): ServerMetrics {
+  return {
+    started_at: startedAt.toISOString(),
+    uptime_seconds: Math.floor((now.getTime() - startedAt.getTime()) / 1000),
+    errors: logCounts.error,
+    warnings: logCounts.warn,
+    rate_limit_hits: Object.fromEntries(rateLimitHits)
+  };
+}
+
+/**
+ * Start counting from zero, for tests
+ */
+export function resetServerMetrics(now: Date = new Date()): void {
+  startedAt = now;
+  logCounts = { error: 0, warn: 0 };
+  rateLimitHits = new Map();
+}
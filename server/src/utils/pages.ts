@@ -0,0 +1,188 @@
+import { Post } from 'shared/types';
+import { logger } from '../middleware/logger';
+import { escapeHtml } from './markdownPlugins';
+import { MarkdownRenderer, RenderPageOptions } from './markdown';
+import { parseStoredMetadata } from './frontmatter';
+import { toIsoDate } from './url';
+import { getPostPath } from './slug';
+import { FEED_PATHS } from './feed';
+import {
+  DEFAULT_LANG,
+  IndexPageContext,
+  loadSiteTitle,
+  PostSummary,
+  SearchPageContext,
+  StatusPageContext,
+  ThemeRegistry,
+  UnlockPageContext
+} from './templates';
+
+export interface PageRendererOptions {
+  themes?: ThemeRegistry;     // Installed themes (default: src/templates)
+  siteTitle?: string;         // Home page title (default: SITE_TITLE env)
+  markdown?: MarkdownRenderer; // Renders the excerpts of posts
+}
+
+export interface IndexPageOptions extends RenderPageOptions {
+  page: number;            // 1-based
+  totalPages: number;
+}
+
+export interface SearchPageOptions extends IndexPageOptions {
+  total: number;           // Number of results on all pages
+}
+
+/**
+ * Render a template from the pages directory, or null if it cannot be loaded
+ */
+export async function renderPageTemplate<T>(themes: ThemeRegistry, name: string, context: T): Promise<string | null> {
+  try {
+    const template = await themes.getPage<T>(name);
+    return template(context);
+  } catch (error) {
+    logger.error('Failed to render page template', { error, page: name });
+    return null;
+  }
+}
+
+/**
+ * Minimal page for when a template cannot be loaded. `body` is HTML.
+ */
+export function getPlainPage(lang: string, title: string, body: string): string {
+  return `<!DOCTYPE html><html lang="${escapeHtml(lang)}"><head><meta charset="UTF-8">` +
+    `<title>${escapeHtml(title)}</title></head><body>${body}</body></html>`;
+}
+
+/**
+ * Links to the neighbouring pages of a list, or undefined for a single page
+ */
+export function paginate(
+  page: number,
+  totalPages: number,
+  pageUrl: (number: number) => string
+): IndexPageContext['pagination'] {
+  return totalPages > 1 ? {
+    page,
+    total_pages: totalPages,
+    prev_url: page > 1 ? pageUrl(page - 1) : undefined,
+    next_url: page < totalPages ? pageUrl(page + 1) : undefined
+  } : undefined;
+}
+
+/**
+ * Renders the pages that do not show a single post, from the templates in `pages/`
+ *
+ * Each page falls back to a plain HTML version when its template cannot be loaded.
+ */
+export class PageRenderer {
+  private themes: ThemeRegistry;
+  private siteTitle: string;
+  private markdown: MarkdownRenderer;
+
+  constructor(options: PageRendererOptions = {}) {
+    this.themes = options.themes ?? new ThemeRegistry();
+    this.siteTitle = options.siteTitle ?? loadSiteTitle();
+    this.markdown = options.markdown ?? new MarkdownRenderer({ themes: this.themes });
+  }
+
+  /**
+   * Render a page without a post, e.g. the 410 page of an expired post
+   */
+  async renderStatusPage(page: Omit<StatusPageContext, 'lang'> & { lang?: string }): Promise<string> {
+    const context: StatusPageContext = { lang: DEFAULT_LANG, ...page };
+
+    return await renderPageTemplate(this.themes, 'status', context) ?? getPlainPage(context.lang, context.title,
+      `<h1>${escapeHtml(context.title)}</h1><p>${escapeHtml(context.message)}</p>`);
+  }
+
+  /**
+   * Render the home page listing public posts
+   *
+   * Password-protected posts are listed by title only.
+   */
+  async renderIndexPage(posts: Post[], options: IndexPageOptions): Promise<string> {
+    const baseUrl = options.baseUrl || '';
+    const { page, totalPages } = options;
+    const pageUrl = (number: number) => number === 1 ? `${baseUrl}/` : `${baseUrl}/?page=${number}`;
+
+    const summaries = posts.map((post) => this.summarize(post));
+
+    const context: IndexPageContext = {
+      lang: DEFAULT_LANG,
+      title: this.siteTitle,
+      canonical_url: pageUrl(page),
+      rss_url: `${baseUrl}${FEED_PATHS.rss}`,
+      atom_url: `${baseUrl}${FEED_PATHS.atom}`,
+      posts: summaries,
+      pagination: paginate(page, totalPages, pageUrl)
+    };
+
+    return await renderPageTemplate(this.themes, 'index', context) ?? getPlainPage(context.lang, context.title,
+      `<h1>${escapeHtml(context.title)}</h1><ul>` +
+      summaries.map((post) => `<li><a href="${escapeHtml(post.url)}">${escapeHtml(post.title)}</a></li>`).join('') +
+      '</ul>');
+  }
+
+  /**
+   * Render the search results page
+   *
+   * Snippets are HTML, see buildSnippet.
+   */
+  async renderSearchPage(
+    query: string,
+    results: { post: Post; snippet: string }[],
+    options: SearchPageOptions
+  ): Promise<string> {
+    const baseUrl = options.baseUrl || '';
+    const { page, totalPages, total } = options;
+    const pageUrl = (number: number) =>
+      `${baseUrl}/search?q=${encodeURIComponent(query)}${number === 1 ? '' : `&page=${number}`}`;
+
+    const context: SearchPageContext = {
+      lang: DEFAULT_LANG,
+      title: this.siteTitle,
+      query,
+      total,
+      results: results.map(({ post, snippet }) => ({ ...this.summarize(post), snippet })),
+      pagination: paginate(page, totalPages, pageUrl)
+    };
+
+    return await renderPageTemplate(this.themes, 'search', context) ?? getPlainPage(context.lang, context.title,
+      `<h1>${escapeHtml(query)}</h1><ul>` +
+      context.results.map((result) =>
+        `<li><a href="${escapeHtml(result.url)}">${escapeHtml(result.title)}</a><p>${result.snippet}</p></li>`
+      ).join('') +
+      '</ul>');
+  }
+
+  /**
+   * Render the password form of a protected post
+   */
+  async renderUnlockPage(page: Omit<UnlockPageContext, 'lang'> & { lang?: string }): Promise<string> {
+    const context: UnlockPageContext = { lang: DEFAULT_LANG, ...page };
+
+    return await renderPageTemplate(this.themes, 'unlock', context) ?? getPlainPage(context.lang, '需要密码',
+      (context.error ? `<p>${escapeHtml(context.error)}</p>` : '') +
+      `<form method="post" action="${escapeHtml(context.action)}">` +
+      '<input type="password" name="password" required autofocus> <button type="submit">解锁</button></form>');
+  }
+
+  /**
+   * Summary of a post for lists. Password-protected posts are listed by title only.
+   */
+  private summarize(post: Post): PostSummary {
+    const metadata = parseStoredMetadata(post.metadata);
+    const locked = !!post.password_hash;
+    const published = toIsoDate(metadata.date || post.created_at);
+
+    return {
+      url: getPostPath(post),
+      title: metadata.title || post.title,
+      description: locked ? undefined : metadata.description || this.markdown.extractText(post.content),
+      date: new Date(published).toLocaleDateString(DEFAULT_LANG),
+      published_time: published,
+      tags: locked ? [] : metadata.tags || [],
+      locked
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+/**
+ * Hash a password with scrypt and a random salt
+ *
+ * The result has the form "scrypt:<salt>:<hash>" (base64).
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString('base64')}:${hash.toString('base64')}`;
+}
+
+/**
+ * Check a password against a hash from hashPassword, in constant time
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  if (expected.length !== KEY_LENGTH) {
+    return false;
+  }
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Short, non-reversible identifier of a password hash
+ *
+ * Stored in unlock cookies so that changing the password locks out
+ * everyone who unlocked the post before.
+ */
+export function passwordFingerprint(stored: string): string {
+  return crypto.createHash('sha256').update(stored).digest('base64url').substring(0, 16);
+}
@@ -0,0 +1,149 @@
+import createDOMPurify, { Config, DOMPurify } from 'dompurify';
+import { JSDOM } from 'jsdom';
+
+export interface SanitizePolicy {
+  allowedTags: string[];
+  allowedAttributes: string[];   // aria-* attributes are always allowed
+  allowedStyles: string[];       // CSS properties kept in style attributes
+  allowedSchemes: string[];      // URL schemes for href/src, relative URLs are always allowed
+}
+
+const HTML_TAGS = [
+  'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'cite', 'code', 'col', 'colgroup',
+  'dd', 'del', 'details', 'dfn', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'input', 'ins', 'kbd', 'li',
+  'mark', 'ol', 'p', 'pre', 'q', 'rp', 'rt', 'ruby', 's', 'samp', 'small', 'span',
+  'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead',
+  'time', 'tr', 'u', 'ul', 'var', 'wbr', 'audio', 'video', 'source', 'track'
+];
+
+// KaTeX output: MathML for accessibility plus a few SVG shapes (radicals, arrows, \cancel)
+const MATH_TAGS = [
+  'math', 'semantics', 'annotation', 'mrow', 'mi', 'mn', 'mo', 'ms', 'mtext', 'mspace',
+  'msqrt', 'mroot', 'mfrac', 'msup', 'msub', 'msubsup', 'mover', 'munder', 'munderover',
+  'mpadded', 'mphantom', 'menclose', 'mstyle', 'mtable', 'mtr', 'mtd', 'mlabeledtr', 'merror',
+  'svg', 'path', 'line'
+];
+
+const HTML_ATTRIBUTES = [
+  'href', 'src', 'alt', 'title', 'class', 'id', 'width', 'height', 'target', 'rel', 'lang',
+  'dir', 'start', 'reversed', 'type', 'checked', 'disabled', 'open', 'colspan', 'rowspan',
+  'align', 'scope', 'datetime', 'cite', 'controls', 'loop', 'muted', 'poster', 'preload',
+  'playsinline', 'kind', 'srclang', 'label', 'style', 'data-callout'
+];
+
+const MATH_ATTRIBUTES = [
+  'xmlns', 'display', 'encoding', 'mathvariant', 'mathcolor', 'mathbackground', 'stretchy',
+  'minsize', 'maxsize', 'fence', 'separator', 'accent', 'accentunder', 'notation',
+  'scriptlevel', 'displaystyle', 'lspace', 'rspace', 'voffset', 'depth', 'linethickness',
+  'rowspacing', 'columnspacing', 'columnalign', 'rowalign', 'columnlines', 'rowlines', 'side',
+  'viewBox', 'preserveAspectRatio', 'd', 'x1', 'y1', 'x2', 'y2', 'stroke-width'
+];
+
+// Layout properties used by KaTeX, plus the colors \color and \colorbox produce
+const STYLES = [
+  'color', 'background-color', 'border-color', 'border-style', 'border-width',
+  'border-top-width', 'border-right-width', 'border-bottom-width', 'border-left-width',
+  'width', 'min-width', 'max-width', 'height', 'vertical-align', 'top', 'right', 'bottom', 'left',
+  'margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+  'padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left',
+  'text-align', 'font-style', 'font-weight'
+];
+
+export const DEFAULT_SANITIZE_POLICY: SanitizePolicy = {
+  allowedTags: [...HTML_TAGS, ...MATH_TAGS],
+  allowedAttributes: [...HTML_ATTRIBUTES, ...MATH_ATTRIBUTES],
+  allowedStyles: STYLES,
+  allowedSchemes: ['http', 'https', 'mailto', 'tel']
+};
+
+const parseList = (value: string | undefined): string[] =>
+  (value || '').split(',').map((item) => item.trim()).filter(Boolean);
+
+/**
+ * Build the sanitize policy from the environment
+ *
+ * SANITIZE_ALLOW_TAGS / SANITIZE_ALLOW_ATTRIBUTES extend the defaults,
+ * SANITIZE_FORBID_TAGS removes tags from them and SANITIZE_URL_SCHEMES replaces
+ * the allowed URL schemes. All are comma separated lists.
+ */
+export function loadSanitizePolicy(env: NodeJS.ProcessEnv = process.env): SanitizePolicy {
+  const forbiddenTags = parseList(env.SANITIZE_FORBID_TAGS).map((tag) => tag.toLowerCase());
+  const schemes = parseList(env.SANITIZE_URL_SCHEMES);
+
+  return {
+    allowedTags: [...DEFAULT_SANITIZE_POLICY.allowedTags, ...parseList(env.SANITIZE_ALLOW_TAGS)]
+      .filter((tag) => !forbiddenTags.includes(tag.toLowerCase())),
+    allowedAttributes: [...DEFAULT_SANITIZE_POLICY.allowedAttributes, ...parseList(env.SANITIZE_ALLOW_ATTRIBUTES)],
+    allowedStyles: DEFAULT_SANITIZE_POLICY.allowedStyles,
+    allowedSchemes: schemes.length > 0 ? schemes : DEFAULT_SANITIZE_POLICY.allowedSchemes
+  };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Allow-list HTML sanitizer for rendered posts
+ *
+ * Everything not explicitly allowed is removed: unknown tags (their text is kept),
+ * event handlers, URLs with other schemes and style declarations outside
+ * `allowedStyles`.
+ */
+export class HtmlSanitizer {
+  private purify: DOMPurify;
+  private config: Config;
+
+  constructor(policy: SanitizePolicy = DEFAULT_SANITIZE_POLICY) {
+    this.purify = createDOMPurify(new JSDOM('').window);
+
+    const schemes = policy.allowedSchemes.map(escapeRegExp).join('|');
+    this.config = {
+      ALLOWED_TAGS: policy.allowedTags.map((tag) => tag.toLowerCase()),
+      ALLOWED_ATTR: policy.allowedAttributes.map((attr) => attr.toLowerCase()),
+      // Same shape as DOMPurify's default: an allowed scheme, or a URL without one
+      ALLOWED_URI_REGEXP: new RegExp(`^(?:(?:${schemes}):|[^a-z]|[a-z+.-]+(?:[^a-z+.\\-:]|$))`, 'i'),
+      ALLOW_DATA_ATTR: false,
+      // Heading ids like "title" or "images" would be dropped as DOM clobbering.
+      // Post pages run no scripts, so there is nothing to clobber.
+      SANITIZE_DOM: false
+    };
+
+    const allowedStyles = new Set(policy.allowedStyles.map((style) => style.toLowerCase()));
+
+    this.purify.addHook('uponSanitizeAttribute', (node, data) => {
+      if (data.attrName !== 'style') {
+        return;
+      }
+
+      const declarations = data.attrValue.split(';').filter((declaration) => {
+        const [property, ...value] = declaration.split(':');
+        return allowedStyles.has(property.trim().toLowerCase()) &&
+          !/url\(|expression\(|\\/i.test(value.join(':'));
+      });
+
+      if (declarations.length === 0) {
+        data.keepAttr = false;
+      } else {
+        data.attrValue = declarations.map((declaration) => declaration.trim()).join(';');
+      }
+    });
+
+    this.purify.addHook('afterSanitizeAttributes', (node) => {
+      // Links opening a new tab must not get access to window.opener
+      if (node.tagName === 'A' && node.getAttribute('target')) {
+        node.setAttribute('rel', 'noopener noreferrer');
+      }
+      // Task list checkboxes are display-only
+      if (node.tagName === 'INPUT') {
+        node.setAttribute('disabled', '');
+      }
+    });
+  }
+
+  /**
+   * Sanitize an HTML fragment
+   */
+  sanitize(html: string): string {
+    return this.purify.sanitize(html, this.config) as string;
+  }
+}
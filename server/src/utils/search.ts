@@ -0,0 +1,80 @@
+import { escapeHtml } from './markdownPlugins';
+import { MarkdownRenderer } from './markdown';
+
+// Trigrams only match terms of 3 or more characters, shorter ones fall back to LIKE
+const MIN_INDEXED_TERM_LENGTH = 3;
+const MAX_TERMS = 10;
+const SNIPPET_LENGTH = 120;
+const SNIPPET_CONTEXT = 30;  // Characters shown before the first match
+
+export interface SearchTerms {
+  terms: string[];       // All terms, each must match
+  match: string | null;  // FTS5 query for the terms the index can match, null if none can
+  like: string[];        // LIKE patterns for the other terms
+}
+
+// Renders post bodies to plain text, created on first use
+let textRenderer: MarkdownRenderer | null = null;
+
+/**
+ * Escape LIKE wildcards, for patterns used with ESCAPE '\'
+ */
+export function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+const escapeRegExp = (term: string): string => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Plain text of a post body, as it is indexed and shown in snippets
+ *
+ * Markup and Obsidian `%% comments %%` are left out, so text hidden in
+ * comments can neither be found nor shown.
+ */
+export function toSearchText(content: string): string {
+  textRenderer = textRenderer ?? new MarkdownRenderer();
+  return textRenderer.extractText(content, Infinity);
+}
+
+/**
+ * Split a search query into terms that must all match
+ *
+ * Quotes are dropped, so user input never reaches the FTS5 query syntax.
+ */
+export function parseSearchQuery(query: string): SearchTerms {
+  const terms = [...new Set(query.replace(/"/g, ' ').split(/\s+/).filter(Boolean))].slice(0, MAX_TERMS);
+  const indexed = terms.filter((term) => [...term].length >= MIN_INDEXED_TERM_LENGTH);
+
+  return {
+    terms,
+    match: indexed.length > 0 ? indexed.map((term) => `"${term}"`).join(' ') : null,
+    like: terms
+      .filter((term) => [...term].length < MIN_INDEXED_TERM_LENGTH)
+      .map((term) => `%${escapeLike(term)}%`)
+  };
+}
+
+/**
+ * Excerpt of a post around the first match, as HTML with the terms in <mark>
+ *
+ * `content` is the plain text of the post, see toSearchText. Starts at the
+ * beginning when only the title matched.
+ */
+export function buildSnippet(content: string, terms: string[]): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  const pattern = terms.length > 0 ? new RegExp(terms.map(escapeRegExp).join('|'), 'gi') : null;
+
+  const first = pattern ? text.search(pattern) : -1;
+  const start = first > SNIPPET_CONTEXT ? first - SNIPPET_CONTEXT : 0;
+  const excerpt = text.substring(start, start + SNIPPET_LENGTH);
+
+  let html = '';
+  let lastIndex = 0;
+  for (const match of pattern ? excerpt.matchAll(pattern) : []) {
+    html += escapeHtml(excerpt.substring(lastIndex, match.index)) + `<mark>${escapeHtml(match[0])}</mark>`;
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  html += escapeHtml(excerpt.substring(lastIndex));
+
+  return (start > 0 ? '…' : '') + html + (start + SNIPPET_LENGTH < text.length ? '…' : '');
+}
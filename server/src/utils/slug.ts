@@ -0,0 +1,44 @@
+import { Post } from 'shared/types';
+import { IDGenerator } from './idGenerator';
+
+// Lowercase words of letters and digits joined by single hyphens, e.g. "onboarding-guide"
+const SLUG_RE = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const SLUG_MIN_LENGTH = 3;
+const SLUG_MAX_LENGTH = 64;
+
+// Paths used by the server itself, now or planned, which a post must not shadow
+const RESERVED_SLUGS = new Set([
+  'admin', 'api', 'assets', 'atom', 'feed', 'health', 'index', 'login', 'logout',
+  'rss', 'search', 'sitemap', 'static', 'stats', 'unlock'
+]);
+
+/**
+ * Check if a slug has the allowed characters and length
+ */
+export function isValidSlug(slug: string): boolean {
+  return typeof slug === 'string'
+    && slug.length >= SLUG_MIN_LENGTH
+    && slug.length <= SLUG_MAX_LENGTH
+    && SLUG_RE.test(slug);
+}
+
+/**
+ * Check if a slug is kept for the server's own routes
+ */
+export function isReservedSlug(slug: string): boolean {
+  return RESERVED_SLUGS.has(slug);
+}
+
+/**
+ * Check if a path segment can address a post, by its ID or its slug
+ */
+export function isValidPostKey(key: string): boolean {
+  return IDGenerator.isValidFormat(key) || isValidSlug(key);
+}
+
+/**
+ * Path of a post's page: its slug if it has one, otherwise its ID
+ */
+export function getPostPath(post: Pick<Post, 'id' | 'slug'>): string {
+  return `/${post.slug || post.id}`;
+}
@@ -0,0 +1,274 @@
+import Handlebars from 'handlebars';
+import fs from 'fs/promises';
+import path from 'path';
+import { PostVisibility } from 'shared/types';
+import { TocNode } from './headings';
+
+export const TEMPLATES_DIR = path.join(__dirname, '../templates');
+
+const THEME_NAME_RE = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+const PAGE_TEMPLATE = 'article.hbs';
+
+// Language of the pages, unless a post sets its own in the frontmatter
+export const DEFAULT_LANG = 'zh-CN';
+
+const DEFAULT_SITE_TITLE = '已发布的笔记';
+
+/**
+ * Site title from SITE_TITLE, shown on the home page, in feeds and the dashboard
+ */
+export function loadSiteTitle(env: NodeJS.ProcessEnv = process.env): string {
+  return env.SITE_TITLE || DEFAULT_SITE_TITLE;
+}
+
+/**
+ * Variables available to page templates
+ *
+ * Values are escaped by the template engine, except `content` which is
+ * sanitized HTML and must be output with triple braces.
+ */
+export interface PageContext {
+  title: string;
+  description: string;
+  lang: string;
+  author?: string;
+  tags: string[];
+  content: string;
+  created_at: string;
+  updated_at: string;
+  canonical_url: string;
+  published_time: string;
+  modified_time: string;
+  twitter_card: 'summary' | 'summary_large_image';
+  og_image?: string;
+  theme: string;
+  toc?: TocNode[];
+  toc_position?: 'top' | 'sidebar';
+}
+
+export type PageTemplate = Handlebars.TemplateDelegate<PageContext>;
+
+/**
+ * Variables available to the status page (expired posts and other errors)
+ */
+export interface StatusPageContext {
+  lang: string;
+  status: number;
+  title: string;
+  message: string;
+}
+
+export interface PostSummary {
+  url: string;
+  title: string;
+  description?: string;   // Left out for password-protected posts
+  date: string;           // Localized
+  published_time: string; // ISO 8601
+  tags: string[];
+  locked: boolean;        // Password-protected
+}
+
+/**
+ * Variables available to the home page listing public posts
+ */
+export interface IndexPageContext {
+  lang: string;
+  title: string;
+  canonical_url: string;
+  rss_url: string;
+  atom_url: string;
+  posts: PostSummary[];
+  pagination?: {          // Only when there is more than one page
+    page: number;
+    total_pages: number;
+    prev_url?: string;
+    next_url?: string;
+  };
+}
+
+/**
+ * Variables available to the search results page
+ */
+export interface SearchPageContext {
+  lang: string;
+  title: string;          // Site title
+  query: string;
+  total: number;
+  results: (PostSummary & {
+    snippet: string;      // HTML with the matches in <mark>, output with triple braces
+  })[];
+  pagination?: IndexPageContext['pagination'];
+}
+
+/**
+ * Variables available to the unlock form of password-protected posts
+ */
+export interface UnlockPageContext {
+  lang: string;
+  action: string;   // URL the form posts to
+  error?: string;   // Shown after a wrong password
+}
+
+/**
+ * Variables available to the login form of the admin dashboard
+ */
+export interface DashboardLoginPageContext {
+  lang: string;
+  title: string;    // Site title
+  error?: string;   // Shown after a rejected token
+}
+
+// A figure on the admin dashboard, formatted for display
+export interface DashboardFigure {
+  label: string;
+  value: string;
+}
+
+export interface DashboardPost {
+  id: string;
+  url: string;
+  title: string;
+  slug: string | null;
+  owner: string;
+  visibility: PostVisibility;
+  visibility_label: string;
+  size: string;           // Content and assets, formatted
+  created_at: string;     // Localized
+  updated_at: string;     // Localized
+  password_protected: boolean;
+  expires_at?: string;    // Localized
+  disabled: boolean;
+  disabled_reason?: string;
+}
+
+/**
+ * Variables available to the admin dashboard
+ */
+export interface DashboardPageContext {
+  lang: string;
+  title: string;          // Site title
+  user: string;           // Name of the signed-in admin
+  notice?: string;        // Result of the last action
+  storage: DashboardFigure[];
+  server: DashboardFigure[];
+  query: string;          // Post filter
+  total: number;          // Posts matching the filter
+  page: number;           // Sent back with the post actions
+  posts: DashboardPost[];
+  pagination?: IndexPageContext['pagination'];
+}
+
+export function isValidThemeName(name: string): boolean {
+  return THEME_NAME_RE.test(name);
+}
+
+/**
+ * Themes installed in the templates directory
+ *
+ * Each theme is a directory `themes/<name>/` with an `article.hbs` page
+ * template. Partials in `partials/` are shared by all themes, and `pages/`
+ * holds the pages that do not show a post.
+ */
+export class ThemeRegistry {
+  private handlebars = Handlebars.create();
+  private templates = new Map<string, PageTemplate>();
+  private pages = new Map<string, Handlebars.TemplateDelegate>();
+  private partialsLoaded: Promise<void> | null = null;
+
+  constructor(private templatesDir: string = TEMPLATES_DIR) {}
+
+  /**
+   * Compile a template with this registry's partials
+   */
+  compile<T = PageContext>(source: string): Handlebars.TemplateDelegate<T> {
+    // Parse eagerly so syntax errors surface here, not on first render
+    this.handlebars.parse(source);
+    // Indenting partials would also indent the lines of <pre> blocks in the content
+    return this.handlebars.compile<T>(source, { preventIndent: true });
+  }
+
+  /**
+   * Names of the installed themes
+   */
+  async listThemes(): Promise<string[]> {
+    const entries = await fs.readdir(path.join(this.templatesDir, 'themes'), { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isDirectory() && isValidThemeName(entry.name))
+      .map((entry) => entry.name)
+      .sort();
+  }
+
+  async hasTheme(name: string): Promise<boolean> {
+    if (!isValidThemeName(name)) {
+      return false;
+    }
+    try {
+      await fs.access(path.join(this.templatesDir, 'themes', name, PAGE_TEMPLATE));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Load and compile the page template of a theme
+   */
+  async getTemplate(name: string): Promise<PageTemplate> {
+    const cached = this.templates.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    if (!isValidThemeName(name)) {
+      throw new Error(`Invalid theme name: ${name}`);
+    }
+
+    await this.loadPartials();
+
+    const source = await fs.readFile(path.join(this.templatesDir, 'themes', name, PAGE_TEMPLATE), 'utf-8');
+    const template = this.compile(source);
+    this.templates.set(name, template);
+    return template;
+  }
+
+  /**
+   * Load and compile a page template from `pages/<name>.hbs`
+   */
+  async getPage<T>(name: string): Promise<Handlebars.TemplateDelegate<T>> {
+    const cached = this.pages.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    if (!isValidThemeName(name)) {
+      throw new Error(`Invalid page name: ${name}`);
+    }
+
+    await this.loadPartials();
+
+    const source = await fs.readFile(path.join(this.templatesDir, 'pages', `${name}.hbs`), 'utf-8');
+    const template = this.compile<T>(source);
+    this.pages.set(name, template);
+    return template;
+  }
+
+  private loadPartials(): Promise<void> {
+    if (!this.partialsLoaded) {
+      this.partialsLoaded = (async () => {
+        const partialsDir = path.join(this.templatesDir, 'partials');
+        const files = (await fs.readdir(partialsDir)).filter((file) => file.endsWith('.hbs'));
+
+        for (const file of files) {
+          const source = await fs.readFile(path.join(partialsDir, file), 'utf-8');
+          this.handlebars.parse(source);
+          this.handlebars.registerPartial(path.basename(file, '.hbs'), source);
+        }
+      })().catch((error) => {
+        // Retry on the next request instead of caching the failure
+        this.partialsLoaded = null;
+        throw error;
+      });
+    }
+    return this.partialsLoaded;
+  }
+}
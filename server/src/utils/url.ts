@@ -0,0 +1,63 @@
+import express from 'express';
+
+/**
+ * Proxies trusted for the client IP and protocol, from TRUST_PROXY (Express "trust proxy")
+ *
+ * Unset or "false" trusts none and X-Forwarded-* headers are ignored. A number
+ * trusts that many hops (1 behind a single nginx), "true" trusts every hop,
+ * anything else is a list of addresses or subnets, e.g. "loopback, 172.20.0.0/16".
+ */
+export function loadTrustProxy(env: NodeJS.ProcessEnv = process.env): boolean | number | string {
+  const value = env.TRUST_PROXY?.trim() || '';
+  if (!value || value.toLowerCase() === 'false') {
+    return false;
+  }
+  if (value.toLowerCase() === 'true') {
+    return true;
+  }
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
+/**
+ * Public base URL of the site, without trailing slash
+ *
+ * PUBLIC_URL should be set behind a reverse proxy, otherwise the URL is
+ * derived from the request.
+ */
+export function getBaseUrl(req: express.Request): string {
+  const publicUrl = process.env.PUBLIC_URL;
+  if (publicUrl) {
+    return publicUrl.replace(/\/+$/, '');
+  }
+  return `${req.protocol}://${req.get('host')}`;
+}
+
+/**
+ * Resolve a (possibly relative) URL against the base URL
+ *
+ * Returns null for URLs that cannot be shared, like data: URIs.
+ */
+export function toAbsoluteUrl(url: string, baseUrl: string): string | null {
+  try {
+    const absolute = new URL(url, `${baseUrl}/`);
+    return absolute.protocol === 'http:' || absolute.protocol === 'https:' ? absolute.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert an SQLite datetime ("YYYY-MM-DD HH:MM:SS", UTC) or ISO string to ISO 8601
+ */
+export function toIsoDate(date: string): string {
+  const normalized = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(date) ? `${date.replace(' ', 'T')}Z` : date;
+  const parsed = new Date(normalized);
+  return isNaN(parsed.getTime()) ? date : parsed.toISOString();
+}
+
+/**
+ * Format a date the way SQLite's datetime() does ("YYYY-MM-DD HH:MM:SS", UTC)
+ */
+export function toSqliteDate(date: Date): string {
+  return date.toISOString().substring(0, 19).replace('T', ' ');
+}
@@ -0,0 +1,174 @@
+import { Post, WebhookEvent, WebhookPayload } from 'shared/types';
+import { Database } from '../models/database';
+import { DueDelivery, WebhookModel } from '../models/webhook';
+import { logger } from '../middleware/logger';
+import { getPostPath } from './slug';
+import { toSqliteDate } from './url';
+import { postJson, retryDelay, signPayload } from './webhooks';
+
+const POLL_INTERVAL_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const MAX_ATTEMPTS = 8;               // The last retry is about 2 hours after the first attempt
+const BATCH_SIZE = 20;
+const LOG_RETENTION_DAYS = 30;
+const USER_AGENT = 'obsidian-publisher-webhooks/1.0';
+
+/**
+ * Delivers webhook events from the queue in the webhook_deliveries table
+ *
+ * Events are queued by notify() and sent right away; failed deliveries are
+ * retried with exponential backoff until MAX_ATTEMPTS. The queue is in the
+ * database, so deliveries that are due survive a restart.
+ */
+export class WebhookDispatcher {
+  private static instance: WebhookDispatcher;
+  private db = Database.getInstance();
+  private webhookModel = new WebhookModel();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private runAgain = false;
+
+  public static getInstance(): WebhookDispatcher {
+    if (!WebhookDispatcher.instance) {
+      WebhookDispatcher.instance = new WebhookDispatcher();
+    }
+    return WebhookDispatcher.instance;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    // Deliveries that were due while the server was down go on the first run
+    this.run();
+    this.timer = setInterval(() => this.run(), POLL_INTERVAL_MS);
+    // The job alone must not keep the process alive
+    this.timer.unref();
+    logger.info('Webhook delivery scheduled', { intervalMs: POLL_INTERVAL_MS });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue an event for every webhook that subscribed to it and start delivering
+   *
+   * Never throws: a failure is only logged, so it cannot fail the request
+   * that changed the post.
+   */
+  async notify(event: WebhookEvent, post: Post, baseUrl: string): Promise<void> {
+    try {
+      const webhooks = await this.webhookModel.findByEvent(event);
+      if (webhooks.length === 0) {
+        return;
+      }
+
+      const payload: WebhookPayload = {
+        event,
+        occurred_at: new Date().toISOString(),
+        post: {
+          id: post.id,
+          slug: post.slug || null,
+          title: post.title,
+          visibility: post.visibility || 'unlisted',
+          url: `${baseUrl}${getPostPath(post)}`,
+          revision: post.revision ?? 1
+        }
+      };
+      const body = JSON.stringify(payload);
+
+      for (const webhook of webhooks) {
+        await this.webhookModel.enqueue(webhook.id, event, body);
+      }
+      this.run();
+
+    } catch (error) {
+      logger.error('Failed to queue webhook event', { error, event, postId: post.id });
+    }
+  }
+
+  /**
+   * Send the deliveries that are due
+   */
+  async run(): Promise<void> {
+    // Deliveries queued during a run are picked up by another pass
+    if (this.running) {
+      this.runAgain = true;
+      return;
+    }
+    this.running = true;
+
+    try {
+      await this.db.whenReady();
+
+      let due: DueDelivery[];
+      do {
+        this.runAgain = false;
+        due = await this.webhookModel.listDue(toSqliteDate(new Date()), BATCH_SIZE);
+        for (const delivery of due) {
+          await this.deliver(delivery);
+        }
+      } while (this.runAgain || due.length === BATCH_SIZE);
+
+      const cutoff = new Date(Date.now() - LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      await this.webhookModel.deleteFinishedBefore(toSqliteDate(cutoff));
+
+    } catch (error) {
+      logger.error('Webhook delivery run failed', { error });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Send one delivery and record the outcome; 2xx responses count as delivered
+   */
+  private async deliver(delivery: DueDelivery): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      responseStatus = await postJson(delivery.url, delivery.payload, {
+        'User-Agent': USER_AGENT,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': String(delivery.id),
+        'X-Webhook-Signature': signPayload(delivery.payload, delivery.secret)
+      }, REQUEST_TIMEOUT_MS);
+
+      if (responseStatus < 200 || responseStatus >= 300) {
+        error = `HTTP ${responseStatus}`;
+      }
+    } catch (requestError) {
+      error = requestError instanceof Error ? requestError.message : String(requestError);
+    }
+
+    if (!error) {
+      await this.webhookModel.recordAttempt(delivery.id, {
+        status: 'succeeded', response_status: responseStatus, error: null, next_attempt_at: null
+      });
+      logger.info('Webhook delivered', { id: delivery.id, webhookId: delivery.webhook_id, event: delivery.event });
+      return;
+    }
+
+    const giveUp = attempts >= MAX_ATTEMPTS;
+    await this.webhookModel.recordAttempt(delivery.id, {
+      status: giveUp ? 'failed' : 'pending',
+      response_status: responseStatus,
+      error,
+      next_attempt_at: giveUp ? null : toSqliteDate(new Date(Date.now() + retryDelay(attempts)))
+    });
+    logger.warn('Webhook delivery failed', {
+      id: delivery.id,
+      webhookId: delivery.webhook_id,
+      event: delivery.event,
+      attempts,
+      error,
+      willRetry: !giveUp
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import { WebhookEvent } from 'shared/types';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['post.created', 'post.updated', 'post.deleted'];
+
+const SECRET_PREFIX = 'whsec_';
+const RETRY_BASE_DELAY_MS = 60 * 1000;           // 1 minute after the first failure
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;   // 6 hours
+
+/**
+ * Read the stored events of a webhook (space separated); NULL subscribes to all events
+ */
+export function parseEvents(value: string | null): WebhookEvent[] {
+  if (value === null) {
+    return [...WEBHOOK_EVENTS];
+  }
+  const events = value.split(' ');
+  return WEBHOOK_EVENTS.filter((event) => events.includes(event));
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return WEBHOOK_EVENTS.includes(value as WebhookEvent);
+}
+
+/**
+ * Generate the signing secret of a new webhook: "whsec_" and 32 random bytes, base64url encoded
+ */
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Signature of a request body, sent as X-Webhook-Signature: "sha256=" and the hex HMAC-SHA256
+ */
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Wait before the next attempt after `attempts` failed ones: doubles every time, up to 6 hours
+ */
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * POST a JSON body and resolve with the response status
+ *
+ * Rejects on network errors and when there is no response within `timeoutMs`.
+ * The response body is discarded.
+ */
+export function postJson(
+  url: string,
+  body: string,
+  headers: { [name: string]: string },
+  timeoutMs: number
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const client = target.protocol === 'https:' ? https : http;
+
+    const request = client.request(target, {
+      method: 'POST',
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(body)
+      },
+      timeout: timeoutMs
+    }, (response) => {
+      response.resume();
+      response.on('end', () => resolve(response.statusCode || 0));
+      response.on('error', reject);
+    });
+
+    request.on('timeout', () => request.destroy(new Error(`No response within ${timeoutMs}ms`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
@@ -1,35 +1,289 @@
 // Shared types for Obsidian Publishing System
 // Used by both client and server components
 
+// public: listed on the home page; unlisted: reachable by link only (default);
+// private: only with the post secret or an API token
+export type PostVisibility = 'public' | 'unlisted' | 'private';
+
 export interface CreatePostRequest {
   title: string;
   content: string;
+  theme?: string;  // Page theme, overrides the frontmatter "theme" key
+  expires_at?: string | null;  // ISO 8601, the post is removed after this time
+  password?: string | null;    // Viewer password, readers must enter it to see the post
+  visibility?: PostVisibility; // Overrides the frontmatter "visibility" key, default unlisted
+  slug?: string | null;        // Readable address (/my-note), overrides the frontmatter "slug" key
 }
 
 export interface CreatePostResponse {
   id: string;      // 8-character short ID
   secret: string;  // UUID v4 for authentication
+  slug?: string | null; // Slug, if one was claimed
+  revision: number; // Always 1 for a new post
 }
 
 export interface UpdatePostRequest {
   secret: string;
   title: string;
   content: string;
+  theme?: string | null;  // Page theme, overrides the frontmatter "theme" key, null removes it, omitted keeps it
+  expires_at?: string | null;  // ISO 8601, null removes the expiry, omitted keeps it
+  password?: string | null;    // Viewer password, null removes it, omitted keeps it
+  visibility?: PostVisibility; // Overrides the frontmatter "visibility" key, omitted keeps it
+  slug?: string | null;        // Overrides the frontmatter "slug" key, null removes it, omitted keeps it
+  base_revision?: number;      // Revision the update is based on, 412 if the post has changed since
+}
+
+export interface UpdatePostResponse {
+  id: string;
+  slug: string | null;
+  revision: number;  // Revision after the update
 }
 
 export interface DeletePostRequest {
   secret: string;
+  base_revision?: number;  // Like UpdatePostRequest.base_revision
 }
 
 export interface Post {
   id: string;
   secret: string;
   title: string;
+  content: string;          // Markdown body, without frontmatter
+  metadata?: string | null; // Frontmatter as JSON (see PostMetadata)
+  theme?: string | null;    // Page theme, null for the server default
+  expires_at?: string | null; // When the post expires (UTC), null if it never does
+  password_hash?: string | null; // Hashed viewer password, null if the post is public
+  visibility?: PostVisibility;
+  slug?: string | null;     // Readable address, the ID keeps working and redirects to it
+  owner_id?: number | null; // User who published the post, null for posts of the bootstrap token
+  revision?: number;        // Goes up with every update that changes the content, also sent as the ETag
+  disabled_at?: string | null;     // Set when an admin disabled the post, readers get 451
+  disabled_reason?: string | null; // Shown to readers of a disabled post
+  created_at: string;
+  updated_at: string;
+}
+
+// Frontmatter of a published note. Well-known keys drive the rendered page,
+// other keys are kept as they were written.
+export interface PostMetadata {
+  title?: string;
+  description?: string;
+  tags?: string[];
+  date?: string;          // ISO 8601
+  author?: string;
+  lang?: string;          // BCP 47 language tag, e.g. "en" or "zh-CN"
+  theme?: string;         // Page theme name
+  toc?: boolean;          // Show a table of contents
+  toc_depth?: number;     // Deepest heading level in the table of contents (1-6)
+  toc_position?: 'top' | 'sidebar';
+  visibility?: PostVisibility;
+  slug?: string;
+  [key: string]: unknown;
+}
+
+export interface AssetInfo {
+  name: string;          // File name, unique per post
+  content_type: string;
+  size: number;          // Bytes
+  hash: string;          // SHA-256 of the content (hex)
+  updated_at?: string;
+}
+
+export interface Asset extends AssetInfo {
+  post_id: string;
+  data: Buffer;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PostRevisionInfo {
+  revision: number;      // Version number, 1 is the originally published version
+  title: string;
+  size: number;          // Content length in characters
+  created_at: string;    // When this version was published
+}
+
+export interface PostRevision extends PostRevisionInfo {
+  post_id: string;
   content: string;
+  metadata: string | null;
+  theme: string | null;
+}
+
+export interface RevisionDiff {
+  from: number | 'current';
+  to: number | 'current';
+  title_changed: boolean;
+  diff: string;          // Unified diff of the content
+}
+
+// Reader statistics of a post. A view is a visitor (salted hash of IP
+// address and user agent) reading the post on a day, bots are not counted.
+export interface PostStats {
+  id: string;
+  total_views: number;          // All days
+  days: {
+    date: string;               // YYYY-MM-DD (UTC)
+    views: number;
+  }[];                          // The requested period, oldest first, days without views included
+  referrers: {
+    domain: string;             // e.g. news.ycombinator.com
+    views: number;
+  }[];                          // Most views first, all days
+}
+
+// admin: manages users and every post; user: manages their own posts
+export type UserRole = 'user' | 'admin';
+
+export interface User {
+  id: number;
+  name: string;
+  role: UserRole;
+  created_at: string;
+}
+
+// posts:create publishes, posts:write updates posts and their assets and
+// revisions, posts:delete deletes, admin manages users and tokens
+export type TokenScope = 'posts:create' | 'posts:write' | 'posts:delete' | 'admin';
+
+export interface ApiTokenInfo {
+  id: number;
+  user_id: number;
+  user_name: string;
+  label: string | null;
+  scopes: TokenScope[];
+  created_at: string;
+  expires_at: string | null;    // UTC, null if the token does not expire
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface CreateTokenRequest {
+  label?: string;
+  scopes?: TokenScope[];        // Default: everything the user's role allows
+  expires_at?: string | null;   // ISO 8601
+}
+
+export interface CreateTokenResponse extends ApiTokenInfo {
+  token: string;                // The token itself, only shown once
+}
+
+export interface CreateUserRequest {
+  name: string;
+  role?: UserRole;  // Default user
+}
+
+export interface CreateUserResponse {
+  user: User;
+  token: string;    // API token of the new user with the default scopes, only shown once
+}
+
+// A post as admins see it, without its content
+export interface AdminPostInfo {
+  id: string;
+  slug: string | null;
+  title: string;
+  visibility: PostVisibility;
+  owner_id: number | null;
+  owner_name: string | null;
+  size: number;                 // Content size in bytes
+  asset_count: number;
+  asset_size: number;           // Bytes
+  revision: number;
+  revision_count: number;       // Stored previous versions
+  password_protected: boolean;
+  expires_at: string | null;
+  disabled_at: string | null;
+  disabled_reason: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export type AdminPostSort = 'created_at' | 'updated_at' | 'title' | 'size';
+
+export interface AdminPostQuery {
+  limit: number;
+  offset: number;
+  sort: AdminPostSort;
+  order: 'asc' | 'desc';
+  visibility?: PostVisibility;
+  owner_id?: number | null;     // null for posts of the bootstrap token
+  disabled?: boolean;
+  q?: string;                   // Part of the title, ID or slug
+}
+
+export interface StorageStats {
+  posts: {
+    total: number;
+    public: number;
+    unlisted: number;
+    private: number;
+    password_protected: number;
+    expiring: number;           // Posts with an expiry time
+    disabled: number;
+    content_bytes: number;
+  };
+  assets: {
+    count: number;
+    bytes: number;
+  };
+  revisions: {
+    count: number;
+    bytes: number;
+  };
+  expired_posts: number;        // IDs kept after the expiry cleanup
+  database_bytes: number;       // Size of the database file
+}
+
+export type WebhookEvent = 'post.created' | 'post.updated' | 'post.deleted';
+
+export interface WebhookInfo {
+  id: number;
+  url: string;
+  events: WebhookEvent[];
+  created_at: string;
+}
+
+export interface CreateWebhookRequest {
+  url: string;                  // http or https
+  events?: WebhookEvent[];      // Default: all events
+}
+
+export interface CreateWebhookResponse extends WebhookInfo {
+  secret: string;               // Key of the X-Webhook-Signature HMAC, only shown once
+}
+
+// Body of a webhook request
+export interface WebhookPayload {
+  event: WebhookEvent;
+  occurred_at: string;          // ISO 8601
+  post: {
+    id: string;
+    slug: string | null;
+    title: string;
+    visibility: PostVisibility;
+    url: string;
+    revision: number;
+  };
+}
+
+// pending: waiting for the first or next attempt; failed: gave up after the last retry
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;   // HTTP status of the last attempt
+  error: string | null;             // Why the last attempt failed
+  created_at: string;
+  next_attempt_at: string | null;   // For pending deliveries
+  delivered_at: string | null;
+}
+
 export interface APIError {
   code: number;
   message: string;